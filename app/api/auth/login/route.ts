@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { db } from '../../../lib/db';
+import { getRepository } from '../../../lib/repository';
 import { verifyUser, generateAlaskaName } from '../../../lib/auth-utils';
 import { headers } from 'next/headers';
 
@@ -25,13 +25,8 @@ export async function POST(request: Request) {
       );
     }
 
-    // Initialize database if needed
-    if (!db.isDbAvailable) {
-      await db.initDb();
-    }
-
     // Verify user credentials
-    const user = await verifyUser(db, username, password);
+    const user = await verifyUser(getRepository(), username, password);
 
     if (!user) {
       return NextResponse.json(
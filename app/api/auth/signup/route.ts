@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
-import { db } from '../../../lib/db';
-import { createUser, generateAlaskaName } from '../../../lib/auth-utils';
+import { getRepository } from '../../../lib/repository';
+import { createUser, generateAlaskaName, getUserByUsername } from '../../../lib/auth-utils';
 import { EliteStatus } from '../../../lib/elite-status-tracker';
 import { headers } from 'next/headers';
 
@@ -34,16 +34,10 @@ export async function POST(request: Request) {
       );
     }
 
-    // Initialize database if needed
-    if (!db.isDbAvailable) {
-      await db.initDb();
-    }
+    const repository = getRepository();
 
     // Check if username already exists
-    const existingUser = await db.db?.get(
-      'SELECT username FROM users WHERE username = ?',
-      [username]
-    );
+    const existingUser = await getUserByUsername(repository, username);
 
     if (existingUser) {
       return NextResponse.json(
@@ -53,7 +47,7 @@ export async function POST(request: Request) {
     }
 
     // Create the user
-    const user = await createUser(db, {
+    const user = await createUser(repository, {
       username,
       password,
       first_name,
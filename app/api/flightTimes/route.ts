@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getFlightTimes } from '@/lib/waitlist';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const flightNumber = searchParams.get('flightNumber');
+    const flightDate = searchParams.get('flightDate');
+
+    if (!flightNumber || !flightDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields.' },
+        { status: 400 }
+      );
+    }
+
+    const segments = await getFlightTimes(flightNumber, flightDate);
+    return NextResponse.json({ success: true, segments });
+  } catch (error: any) {
+    console.error('Error in flightTimes API:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error.status || 500 }
+    );
+  }
+}
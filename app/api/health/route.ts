@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { checkBrowserHealth, getBrowserHealth } from '@/lib/browser-health';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    // ?probe=1 checks the browser now instead of returning the monitor's last result; it doesn't wait out a restart
+    const health = searchParams.get('probe') ? await checkBrowserHealth() : getBrowserHealth();
+
+    return NextResponse.json(
+      { browser: health },
+      { status: health.status === 'unhealthy' ? 503 : 200 }
+    );
+  } catch (error: any) {
+    console.error('Error in health API:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error.status || 500 }
+    );
+  }
+}
@@ -2,8 +2,8 @@ import { NextResponse } from 'next/server';
 import { trackWaitlist } from '@/lib/waitlist';
 import { rateLimiter } from '@/lib/rate-limiter';
 import { debugLog, logDatabaseState, serializeError } from '@/lib/server-utils';
-import db from '@/lib/db';
 import { trackEliteStatus } from '../../lib/elite-status-tracker';
+import { getRepository } from '@/lib/repository';
 
 // Helper function to safely serialize objects
 function safeSerialize(obj: any): any {
@@ -32,7 +32,7 @@ export const dynamic = 'force-dynamic';
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { flightNumber, flightDate, userName, forceRefresh } = body;
+    const { flightNumber, flightDate, userName, forceRefresh, profile } = body;
 
     if (!flightNumber || !flightDate || !userName) {
       return NextResponse.json(
@@ -54,10 +54,10 @@ export async function POST(request: Request) {
     }
 
     debugLog(`Processing waitlist request for flight ${flightNumber} on ${flightDate} for user ${userName}`);
-    const result = await trackWaitlist(flightNumber, flightDate, userName, forceRefresh);
+    const result = await trackWaitlist(flightNumber, flightDate, userName, forceRefresh, typeof profile === 'string' ? profile : undefined);
     
     // Log database state after successful tracking
-    await logDatabaseState(db);
+    await logDatabaseState(getRepository());
     
     // Safely serialize the result
     const safeResult = safeSerialize({
@@ -68,21 +68,44 @@ export async function POST(request: Request) {
         destination: segment.destination,
         departureTime: segment.departureTime,
         arrivalTime: segment.arrivalTime,
+        segmentDate: segment.segmentDate,
+        departsAt: segment.departsAt,
+        arrivesAt: segment.arrivesAt,
+        departureTimeZone: segment.departureTimeZone,
+        arrivalTimeZone: segment.arrivalTimeZone,
+        departure: segment.departure,
+        arrival: segment.arrival,
         position: segment.position,
         totalWaitlisted: segment.totalWaitlisted,
         names: segment.names || [],
+        lists: (segment.lists || []).map(list => ({
+          cabin: list.cabin,
+          listType: list.listType,
+          header: list.header,
+          names: list.names,
+          entries: list.entries,
+          position: list.position,
+          capacity: list.capacity,
+          available: list.available,
+          checkedIn: list.checkedIn
+        })),
         error: segment.error,
         waitlistInfo: segment.waitlistInfo ? {
           capacity: segment.waitlistInfo.capacity,
           available: segment.waitlistInfo.available,
           checkedIn: segment.waitlistInfo.checkedIn
-        } : undefined
+        } : undefined,
+        clearances: segment.clearances || [],
+        clearanceHistory: segment.clearanceHistory
       })),
-      error: result.error
+      error: result.error,
+      stale: result.stale,
+      degraded: result.degraded,
+      snapshotTime: result.snapshotTime
     });
     
     // Add this line to process elite status after each waitlist check
-    await trackEliteStatus(db);
+    await trackEliteStatus(getRepository());
     
     return NextResponse.json(safeResult);
   } catch (error: any) {
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { operationalStore } from '@/lib/operational-store';
+import { renderAttemptIndex, renderAttemptReport } from '@/lib/verification-report';
+
+export const dynamic = 'force-dynamic';
+
+function html(body: string, status: number = 200) {
+  return new NextResponse(body, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
+
+export async function GET(request: Request) {
+  try {
+    await operationalStore.initDb();
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return html(await renderAttemptIndex());
+    }
+
+    const report = await renderAttemptReport(parseInt(id));
+    if (!report) {
+      return html('<p>Verification attempt not found.</p>', 404);
+    }
+    return html(report);
+  } catch (error: any) {
+    console.error('Error in verificationReport API:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error.status || 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getWaitlistEvents } from '@/lib/waitlist';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const flightNumber = searchParams.get('flightNumber');
+    const flightDate = searchParams.get('flightDate');
+    const since = searchParams.get('since');
+
+    if (!flightNumber || !flightDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields.' },
+        { status: 400 }
+      );
+    }
+    if (since && isNaN(Date.parse(since))) {
+      return NextResponse.json(
+        { error: 'Invalid since timestamp.' },
+        { status: 400 }
+      );
+    }
+
+    const events = await getWaitlistEvents(flightNumber, flightDate, since ? new Date(since) : undefined);
+    return NextResponse.json({ success: true, events });
+  } catch (error: any) {
+    console.error('Error in waitlistEvents API:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: error.status || 500 }
+    );
+  }
+}
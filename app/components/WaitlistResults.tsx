@@ -6,6 +6,7 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { cn } from '../lib/utils';
+import { FlightTime, formatCalendarDate, parseCalendarDate } from '../lib/flight-time';
 
 export interface WaitlistInfo {
   capacity: number | null;
@@ -13,6 +14,50 @@ export interface WaitlistInfo {
   checkedIn: number | null;
 }
 
+export type Cabin = 'first' | 'premium' | 'main' | 'unknown';
+export type WaitlistType = 'upgrade' | 'standby' | 'other';
+
+export interface WaitlistEntry {
+  position: number;
+  name: string;
+  seat: string | null;
+  cleared: boolean;
+  annotations: string[];
+}
+
+export interface WaitlistList {
+  cabin: Cabin;
+  listType: WaitlistType;
+  header: string;
+  names: string[];
+  entries?: WaitlistEntry[];
+  position: number | null;
+  capacity: number | null;
+  available: number | null;
+  checkedIn: number | null;
+}
+
+export interface SegmentClearance {
+  passenger: string;
+  confidence: number;
+  evidence: 'marker' | 'seat_counts' | 'position';
+  detectedAt: string;
+  isUser: boolean;
+}
+
+export interface ClearanceHistory {
+  flights: number;
+  averageCleared: number;
+  deepestPosition: number | null;
+}
+
+export interface SegmentTimes {
+  scheduled: string | null;
+  estimated: string | null;
+  actual: string | null;
+  delayMinutes: number | null;
+}
+
 export interface WaitlistSegment {
   flightNumber: string;
   date: string;
@@ -20,16 +65,29 @@ export interface WaitlistSegment {
   destination: string;
   departureTime: string;
   arrivalTime: string;
+  segmentDate?: string;
+  departsAt?: string;
+  arrivesAt?: string;
+  departureTimeZone?: string;
+  arrivalTimeZone?: string;
+  departure?: SegmentTimes;
+  arrival?: SegmentTimes;
   position: number | null;
   totalWaitlisted: number | null;
   waitlistInfo?: WaitlistInfo;
   names?: string[];
+  lists?: WaitlistList[];
+  clearances?: SegmentClearance[];
+  clearanceHistory?: ClearanceHistory;
   error?: string;
 }
 
 export interface WaitlistData {
   segments: WaitlistSegment[];
   error?: string;
+  stale?: boolean;
+  degraded?: boolean;
+  snapshotTime?: string;
 }
 
 interface WaitlistResultsProps {
@@ -37,6 +95,130 @@ interface WaitlistResultsProps {
   onRefresh: () => void;
 }
 
+const CABIN_LABELS: Record<Cabin, string> = {
+  first: 'First Class',
+  premium: 'Premium Class',
+  main: 'Main Cabin',
+  unknown: ''
+};
+
+const LIST_TYPE_LABELS: Record<WaitlistType, string> = {
+  upgrade: 'Upgrade Requests',
+  standby: 'Standby List',
+  other: ''
+};
+
+function getListTitle(list: WaitlistList): string {
+  const title = [CABIN_LABELS[list.cabin], LIST_TYPE_LABELS[list.listType]].filter(Boolean).join(' ');
+  return list.listType === 'other' ? list.header || title : title;
+}
+
+// The leg's own local date, which is later than the flight date for overnight connections
+function formatSegmentDay(segment: WaitlistSegment): string {
+  const day = parseCalendarDate(segment.segmentDate || segment.date);
+  return day ? formatCalendarDate(day) : segment.date;
+}
+
+// Local time at the station with its zone; the scraped text if the instant is unknown
+function localTime(instant: string | undefined, timeZone: string | undefined, fallback: string): string {
+  return instant && timeZone ? FlightTime.inZone(instant, timeZone).formatTime() : fallback;
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+// The estimate or actual time next to the schedule, e.g. "Delayed 45 min · 6:50 PM PST"
+function TimeStatus({ times, timeZone, doneLabel }: { times?: SegmentTimes; timeZone?: string; doneLabel: string }) {
+  const latest = times?.actual || times?.estimated;
+  if (!times || !latest || !timeZone) return null;
+
+  const delay = times.delayMinutes ?? 0;
+  const label = times.actual ? doneLabel
+    : delay > 0 ? `Delayed ${formatMinutes(delay)}`
+    : delay < 0 ? `Early ${formatMinutes(-delay)}`
+    : 'On time';
+  return (
+    <div className={cn(delay > 0 && "text-amber-700")}>
+      {label} · {FlightTime.inZone(latest, timeZone).formatTime()}
+    </div>
+  );
+}
+
+function WaitlistNames({ names, entries, position }: { names: string[]; entries?: WaitlistEntry[]; position: number | null }) {
+  const rows: WaitlistEntry[] = entries ?? names.map((name, i) => ({ position: i + 1, name, seat: null, cleared: false, annotations: [] }));
+
+  return (
+    <div className="bg-muted rounded-lg p-4">
+      <ol className="list-decimal list-inside space-y-1">
+        {rows.map((entry, i) => (
+          <li key={i} className={cn(
+            "text-sm py-1 px-2 rounded",
+            position === i + 1 && "bg-primary/10 font-medium",
+            entry.cleared && "text-muted-foreground"
+          )}>
+            {entry.name}
+            {entry.cleared && (
+              <Badge variant="secondary" className="ml-2 bg-green-100 text-green-800">
+                Cleared{entry.seat ? ` · ${entry.seat}` : ''}
+              </Badge>
+            )}
+            {!entry.cleared && entry.seat && (
+              <Badge variant="outline" className="ml-2">Seat {entry.seat}</Badge>
+            )}
+            {entry.annotations.length > 0 && (
+              <span className="ml-2 text-xs text-muted-foreground">{entry.annotations.join(' · ')}</span>
+            )}
+            {position === i + 1 && <span className="text-primary ml-2">← YOU</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function confidenceLabel(clearance: SegmentClearance): string {
+  if (clearance.evidence === 'marker') return 'Confirmed';
+  if (clearance.confidence >= 0.8) return 'Very likely';
+  if (clearance.confidence >= 0.5) return 'Likely';
+  return 'Possibly';
+}
+
+function Clearances({ clearances, history }: { clearances: SegmentClearance[]; history?: ClearanceHistory }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold">Cleared to First Class</h4>
+      {clearances.length > 0 ? (
+        <ul className="space-y-1">
+          {clearances.map((clearance, i) => (
+            <li key={i} className={cn("text-sm flex items-center", clearance.isUser && "font-medium")}>
+              {clearance.passenger}
+              {clearance.isUser && <span className="text-primary ml-2">← YOU</span>}
+              <Badge variant="secondary" className={cn(
+                "ml-2",
+                clearance.confidence >= 0.5 ? "bg-green-100 text-green-800" : "text-muted-foreground"
+              )}>
+                {confidenceLabel(clearance)}
+              </Badge>
+              <span className="ml-2 text-xs text-muted-foreground">
+                {new Date(clearance.detectedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No clearances seen yet</p>
+      )}
+      {history && history.flights > 1 && (
+        <p className="text-sm text-muted-foreground">
+          On average {history.averageCleared} upgrades clear on this flight
+          {history.deepestPosition !== null && `, up to position #${history.deepestPosition}`} ({history.flights} flights tracked)
+        </p>
+      )}
+    </div>
+  );
+}
+
 export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
   if (!data || !data.segments || data.segments.length === 0) {
     return null;
@@ -44,6 +226,14 @@ export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
 
   return (
     <div className="space-y-6">
+      {data.stale && (
+        <div className="text-sm text-amber-800 bg-amber-100 p-3 rounded-md">
+          {data.degraded
+            ? 'Live updates are temporarily paused because Alaska Airlines is blocking our requests. '
+            : 'Could not fetch the latest waitlist. '}
+          Showing data from {data.snapshotTime ? new Date(data.snapshotTime).toLocaleString() : 'an earlier check'}.
+        </div>
+      )}
       {data.segments.map((segment, index) => (
         <Card key={index} className="overflow-hidden">
           <CardHeader>
@@ -51,7 +241,7 @@ export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
               <div className="space-y-1">
                 <CardTitle className="text-2xl">AS{segment.flightNumber}</CardTitle>
                 <CardDescription>
-                  {new Date(segment.date).toLocaleDateString()}
+                  {formatSegmentDay(segment)}
                 </CardDescription>
               </div>
               <Button
@@ -75,8 +265,10 @@ export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
                 <span>{segment.destination}</span>
               </div>
               <div className="text-right text-muted-foreground">
-                <div>Departure: {segment.departureTime}</div>
-                <div>Arrival: {segment.arrivalTime}</div>
+                <div>Departure: {localTime(segment.departsAt, segment.departureTimeZone, segment.departureTime)}</div>
+                <TimeStatus times={segment.departure} timeZone={segment.departureTimeZone} doneLabel="Departed" />
+                <div>Arrival: {localTime(segment.arrivesAt, segment.arrivalTimeZone, segment.arrivalTime)}</div>
+                <TimeStatus times={segment.arrival} timeZone={segment.arrivalTimeZone} doneLabel="Arrived" />
               </div>
             </div>
 
@@ -127,6 +319,8 @@ export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
                         </span>
                       )}
                     </>
+                  ) : segment.clearances?.some(clearance => clearance.isUser) ? (
+                    <Badge variant="secondary" className="ml-1 bg-green-100 text-green-800">Cleared to First Class</Badge>
                   ) : (
                     'Not found on waitlist'
                   )}
@@ -139,25 +333,45 @@ export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
               )}
             </div>
 
-            {/* Waitlist Names */}
-            {segment.names && segment.names.length > 0 && (
+            {/* Waitlists */}
+            {segment.lists && segment.lists.length > 0 ? (
+              segment.lists.map((list, listIndex) => (
+                <div key={listIndex} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-semibold">{getListTitle(list)}</h4>
+                    <div className="flex items-center gap-1">
+                      {list.position !== null && (
+                        <Badge variant="secondary">You: #{list.position}</Badge>
+                      )}
+                      <Badge variant="outline">{list.names.length} listed</Badge>
+                    </div>
+                  </div>
+                  {list.listType !== 'upgrade' && (list.capacity !== null || list.available !== null) && (
+                    <p className="text-sm text-muted-foreground">
+                      {list.capacity !== null && `Capacity ${list.capacity}`}
+                      {list.capacity !== null && list.available !== null && ' · '}
+                      {list.available !== null && `${list.available} available`}
+                    </p>
+                  )}
+                  {list.names.length > 0 ? (
+                    <WaitlistNames names={list.names} entries={list.entries} position={list.position} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No one on this list</p>
+                  )}
+                </div>
+              ))
+            ) : segment.names && segment.names.length > 0 && (
               <div className="space-y-2">
                 <h4 className="font-semibold">Current Waitlist</h4>
-                <div className="bg-muted rounded-lg p-4">
-                  <ol className="list-decimal list-inside space-y-1">
-                    {segment.names.map((name, i) => (
-                      <li key={i} className={cn(
-                        "text-sm py-1 px-2 rounded",
-                        segment.position === i + 1 && "bg-primary/10 font-medium"
-                      )}>
-                        {name} {segment.position === i + 1 && <span className="text-primary ml-2">← YOU</span>}
-                      </li>
-                    ))}
-                  </ol>
-                </div>
+                <WaitlistNames names={segment.names} position={segment.position} />
               </div>
             )}
 
+            {/* Clearances */}
+            {segment.clearances && (segment.clearances.length > 0 || (segment.clearanceHistory?.flights ?? 0) > 1) && (
+              <Clearances clearances={segment.clearances} history={segment.clearanceHistory} />
+            )}
+
             {/* Error Message */}
             {segment.error && (
               <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
@@ -168,7 +382,7 @@ export function WaitlistResults({ data, onRefresh }: WaitlistResultsProps) {
 
           <CardFooter className="justify-center border-t bg-muted/50 py-4">
             <a
-              href={`https://www.alaskaair.com/status/${segment.flightNumber}/${new Date(segment.date).toISOString().split('T')[0]}`}
+              href={`https://www.alaskaair.com/status/${segment.flightNumber}/${parseCalendarDate(segment.date) || segment.date}`}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center text-sm text-muted-foreground hover:text-primary"
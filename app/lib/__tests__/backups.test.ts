@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SqliteConnection } from '../db';
+
+const { store } = vi.hoisted(() => ({
+  store: { connection: null as SqliteConnection | null, migrations: null as typeof import('../migrations') | null }
+}));
+
+// Backups need the sqlite backend, which is alaska_waitlist.db; stand an in-memory database in for it
+vi.mock('../operational-store', () => ({
+  maintenanceStore: {
+    get isDbAvailable() {
+      return store.connection !== null;
+    },
+    withConnection: async <T>(work: (connection: SqliteConnection) => Promise<T>) => work(store.connection!),
+    migrate: async () => store.migrations!.runMigrations(store.connection!)
+  }
+}));
+
+let backups: typeof import('../backups');
+let backupDir: string;
+
+async function flightNumbers(connection: SqliteConnection): Promise<string[]> {
+  const rows = await connection.all<{ flight_number: string }[]>('SELECT flight_number FROM flights ORDER BY id');
+  return rows.map(row => row.flight_number);
+}
+
+async function addFlight(connection: SqliteConnection, flightNumber: string): Promise<void> {
+  await connection.run(`
+    INSERT INTO flights (flight_number, flight_date, origin, destination, departure_time, arrival_time, segment_index)
+    VALUES (?, '2026-09-01', 'SEA', 'ANC', '9:55 pm', '12:30 am', 0)
+  `, [flightNumber]);
+}
+
+async function readBackup<T>(file: string, read: (connection: SqliteConnection) => Promise<T>): Promise<T> {
+  const connection = await open({ filename: file, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+  try {
+    return await read(connection);
+  } finally {
+    await connection.close();
+  }
+}
+
+beforeEach(async () => {
+  backupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backups-test-'));
+  vi.stubEnv('STORAGE_BACKEND', 'sqlite');
+  vi.stubEnv('DB_BACKUP_DIR', backupDir);
+  vi.stubEnv('DB_BACKUP_KEEP', '2');
+
+  vi.resetModules();
+  store.migrations = await import('../migrations');
+  backups = await import('../backups');
+
+  store.connection = await open({ filename: ':memory:', driver: sqlite3.Database });
+  await store.migrations.runMigrations(store.connection);
+  await addFlight(store.connection, '100');
+});
+
+afterEach(async () => {
+  await store.connection?.close();
+  store.connection = null;
+  fs.rmSync(backupDir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+describe('backupDatabase', () => {
+  it('writes a copy of the database to the backup directory', async () => {
+    const file = await backups.backupDatabase();
+
+    expect(path.dirname(file)).toBe(backupDir);
+    expect(backups.listBackups()).toEqual([expect.objectContaining({ path: file, scheduled: true })]);
+    expect(await readBackup(file, flightNumbers)).toEqual(['100']);
+    await expect(backups.backupDatabase(file)).rejects.toThrow(`${file} already exists`);
+  });
+
+  it('keeps only the newest scheduled backups and never rotates named ones', async () => {
+    const old = ['alaska_waitlist-2026-01-01T00-00-00-000Z.db', 'alaska_waitlist-2026-01-02T00-00-00-000Z.db', 'alaska_waitlist-pre-restore-2026-01-01T00-00-00-000Z.db'];
+    old.forEach((file, i) => {
+      fs.writeFileSync(path.join(backupDir, file), '');
+      const time = new Date(Date.UTC(2026, 0, i + 1));
+      fs.utimesSync(path.join(backupDir, file), time, time);
+    });
+
+    const file = await backups.backupDatabase();
+
+    expect(backups.listBackups().map(backup => backup.file).sort()).toEqual([
+      path.basename(file),
+      'alaska_waitlist-2026-01-02T00-00-00-000Z.db',
+      'alaska_waitlist-pre-restore-2026-01-01T00-00-00-000Z.db'
+    ].sort());
+  });
+
+  it('refuses the memory backend', async () => {
+    vi.stubEnv('STORAGE_BACKEND', 'memory');
+    await expect(backups.backupDatabase()).rejects.toThrow('Backups need the sqlite storage backend');
+    expect(fs.readdirSync(backupDir)).toEqual([]);
+  });
+});
+
+describe('restoreDatabase', () => {
+  it('replaces the contents with the backup and keeps a copy of what was replaced', async () => {
+    const file = await backups.backupDatabase(path.join(backupDir, 'before.db'));
+    await addFlight(store.connection!, '200');
+
+    const safetyCopy = await backups.restoreDatabase(file);
+
+    expect(await flightNumbers(store.connection!)).toEqual(['100']);
+    expect(await readBackup(safetyCopy, flightNumbers)).toEqual(['100', '200']);
+    expect(backups.listBackups().find(backup => backup.path === safetyCopy)).toMatchObject({ scheduled: false });
+  });
+
+  it('migrates a backup taken before the latest migrations', async () => {
+    const file = path.join(backupDir, 'old.db');
+    const old = await open({ filename: file, driver: sqlite3.Database });
+    await store.migrations!.runMigrations(old);
+    await old.exec('DELETE FROM schema_migrations WHERE version = (SELECT MAX(version) FROM schema_migrations)');
+    await old.exec('ALTER TABLE scrape_jobs DROP COLUMN profile');
+    await old.close();
+
+    await backups.restoreDatabase(file);
+
+    const columns = await store.connection!.all<{ name: string }[]>('PRAGMA table_info(scrape_jobs)');
+    expect(columns.map(column => column.name)).toContain('profile');
+  });
+
+  it('leaves the database alone when the backup is damaged or not a tracker database', async () => {
+    const damaged = path.join(backupDir, 'damaged.db');
+    fs.writeFileSync(damaged, 'not a database, just some text that is long enough to have a header');
+    const other = path.join(backupDir, 'other.db');
+    const connection = await open({ filename: other, driver: sqlite3.Database });
+    await connection.exec('CREATE TABLE notes (body TEXT)');
+    await connection.close();
+
+    await expect(backups.restoreDatabase(damaged)).rejects.toThrow('file is not a database');
+    await expect(backups.restoreDatabase(other)).rejects.toThrow(`${other} is not a tracker database`);
+    await expect(backups.restoreDatabase(path.join(backupDir, 'missing.db'))).rejects.toThrow('does not exist');
+
+    expect(await flightNumbers(store.connection!)).toEqual(['100']);
+    expect(backups.listBackups().map(backup => backup.file).sort()).toEqual(['damaged.db', 'other.db']);
+  });
+});
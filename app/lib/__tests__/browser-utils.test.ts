@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BrowserProfile } from '../browser-profiles';
+
+const { launch, selectProxy } = vi.hoisted(() => ({ launch: vi.fn(), selectProxy: vi.fn() }));
+
+vi.mock('puppeteer', () => ({ default: { launch } }));
+vi.mock('child_process', () => ({
+  exec: (_command: string, callback: (error: Error | null, stdout: string) => void) => callback(null, 'Google Chrome 131.0.6778.204\n')
+}));
+vi.mock('../proxies', () => ({ selectProxy }));
+
+function fakeBrowser() {
+  const browser: any = {
+    connected: true,
+    isConnected: () => browser.connected,
+    process: () => ({ pid: 1 }),
+    close: vi.fn(async () => {
+      browser.connected = false;
+    }),
+    newPage: vi.fn(async () => fakePage(browser))
+  };
+  return browser;
+}
+
+function fakePage(browser: any) {
+  let closed = false;
+  return {
+    browser: () => browser,
+    isClosed: () => closed,
+    close: vi.fn(async () => {
+      closed = true;
+    }),
+    authenticate: vi.fn(),
+    setViewport: vi.fn(),
+    setUserAgent: vi.fn(),
+    emulateTimezone: vi.fn(),
+    setExtraHTTPHeaders: vi.fn(),
+    setRequestInterception: vi.fn(),
+    on: vi.fn(),
+    evaluate: vi.fn(),
+    goto: vi.fn(),
+    mouse: { up: vi.fn(async () => {}) }
+  };
+}
+
+function profile(name: string): BrowserProfile {
+  return {
+    id: 1,
+    name,
+    dir: `/tmp/profiles/${name}`,
+    fingerprint: { userAgent: 'UA', viewport: { width: 1280, height: 800 }, locale: 'en-US', timezone: 'America/Los_Angeles' }
+  };
+}
+
+let browserUtils: typeof import('../browser-utils');
+
+beforeEach(async () => {
+  launch.mockReset();
+  launch.mockImplementation(async () => fakeBrowser());
+  selectProxy.mockReset();
+  selectProxy.mockResolvedValue(null);
+  vi.resetModules();
+  browserUtils = await import('../browser-utils');
+});
+
+describe('page pool', () => {
+  it('makes callers beyond the page limit wait for a released page', async () => {
+    const { acquirePage, releasePage, getPagePoolStats } = browserUtils;
+    const pages = await Promise.all([1, 2, 3].map(() => acquirePage(profile('a'))));
+    expect(launch).toHaveBeenCalledTimes(1);
+
+    const waiting = acquirePage(profile('a'));
+    expect(getPagePoolStats()).toMatchObject({ active: 3, waiting: 1 });
+
+    await releasePage(pages[0]);
+    // The released page is reset and handed to the waiter rather than a new one
+    expect(await waiting).toBe(pages[0]);
+    expect(pages[0].goto).toHaveBeenCalledWith('about:blank', expect.anything());
+    expect(getPagePoolStats()).toMatchObject({ active: 3, waiting: 0 });
+  });
+
+  it('gives up on a page after the acquire timeout', async () => {
+    const { acquirePage, getPagePoolStats } = browserUtils;
+    await Promise.all([1, 2, 3].map(() => acquirePage(profile('a'))));
+
+    await expect(acquirePage(profile('a'), 10)).rejects.toThrow('Timed out after 10ms');
+    expect(getPagePoolStats().waiting).toBe(0);
+  });
+
+  it('only reuses an idle page for the same profile', async () => {
+    const { acquirePage, releasePage } = browserUtils;
+    const page = await acquirePage(profile('a'));
+    const other = await acquirePage(profile('b'));
+    await releasePage(page);
+
+    expect(await acquirePage(profile('b'))).not.toBe(page);
+    expect(await acquirePage(profile('a'))).toBe(page);
+    expect(other.browser()).not.toBe(page.browser());
+  });
+});
+
+describe('profile browsers', () => {
+  it('launches each profile on its own user-data dir with the proxy picked at launch', async () => {
+    selectProxy.mockResolvedValue({ id: 7, server: 'http://proxy.example.com:8080', username: 'user', password: 'secret' });
+    const { acquirePage, getPageProxy } = browserUtils;
+
+    const page = await acquirePage(profile('a'));
+
+    expect(launch).toHaveBeenCalledWith(expect.objectContaining({
+      userDataDir: '/tmp/profiles/a',
+      args: expect.arrayContaining(['--proxy-server=http://proxy.example.com:8080'])
+    }));
+    expect(getPageProxy(page)).toMatchObject({ id: 7 });
+    expect(page.authenticate).toHaveBeenCalledWith({ username: 'user', password: 'secret' });
+  });
+
+  it('relaunches a profile browser after a discarded page, once its other pages are back', async () => {
+    const { acquirePage, releasePage } = browserUtils;
+    const [failed, busy] = await Promise.all([acquirePage(profile('a')), acquirePage(profile('a'))]);
+    const browser = failed.browser();
+
+    await releasePage(failed, true);
+    expect(browser.close).not.toHaveBeenCalled();
+
+    await releasePage(busy);
+    expect(browser.close).toHaveBeenCalled();
+    expect((await acquirePage(profile('a'))).browser()).not.toBe(browser);
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(selectProxy).toHaveBeenCalledTimes(2);
+  });
+
+  it('closes idle browsers of other profiles before launching one', async () => {
+    const { acquirePage, releasePage, getRunningBrowsers } = browserUtils;
+    const page = await acquirePage(profile('a'));
+    await releasePage(page);
+
+    await acquirePage(profile('b'));
+
+    expect(page.browser().close).toHaveBeenCalled();
+    expect(getRunningBrowsers().map(running => running.profile)).toEqual(['b']);
+  });
+
+  it('reads the Chrome version without launching a browser', async () => {
+    expect(await browserUtils.getChromeVersion()).toBe('131.0.6778.204');
+    expect(launch).not.toHaveBeenCalled();
+  });
+});
+
+describe('browser recycling', () => {
+  it('closes the browsers once in-flight pages are released and relaunches on the next checkout', async () => {
+    const { acquirePage, releasePage, restartBrowser, getPagePoolStats } = browserUtils;
+    const page = await acquirePage(profile('a'));
+    const oldBrowser = page.browser();
+
+    const restarted = restartBrowser('test');
+    expect(getPagePoolStats().recyclePending).toBe(true);
+    // No new pages while draining
+    const waiting = acquirePage(profile('a'));
+    expect(getPagePoolStats().waiting).toBe(1);
+
+    await releasePage(page);
+    await restarted;
+    expect(oldBrowser.close).toHaveBeenCalled();
+
+    const next = await waiting;
+    expect(next).not.toBe(page);
+    expect(next.browser()).not.toBe(oldBrowser);
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(getPagePoolStats()).toMatchObject({ recyclePending: false, navigationsSinceLaunch: 1 });
+  });
+
+  it('shares a launch with callers asking for the browser meanwhile', async () => {
+    const { getBrowser, restartBrowser } = browserUtils;
+    const oldBrowser = await getBrowser(profile('a'));
+    await restartBrowser('test');
+
+    const [first, second] = await Promise.all([getBrowser(profile('a')), getBrowser(profile('a'))]);
+    expect(first).toBe(second);
+    expect(first).not.toBe(oldBrowser);
+    expect(launch).toHaveBeenCalledTimes(2);
+  });
+});
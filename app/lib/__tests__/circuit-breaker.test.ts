@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '../circuit-breaker';
+import type { CircuitTransitionRecord } from '../db';
+import { toSqliteTimestamp } from '../record-format';
+
+const { transitions } = vi.hoisted(() => ({ transitions: [] as CircuitTransitionRecord[] }));
+
+// Transitions are kept in memory; the restore tests seed them as if written by an earlier process
+vi.mock('../operational-store', () => ({
+  operationalStore: {
+    recordCircuitTransition: async (circuit: string, fromState: string, toState: string, reason: string) => {
+      transitions.push({
+        id: transitions.length + 1,
+        circuit,
+        from_state: fromState,
+        to_state: toState,
+        reason,
+        created_at: toSqliteTimestamp(new Date())
+      });
+    },
+    getLastCircuitTransition: async (circuit: string) =>
+      transitions.filter(transition => transition.circuit === circuit).pop() || null
+  }
+}));
+
+class DeniedError extends Error {}
+
+const start = new Date('2026-09-01T12:00:00Z');
+const cooldownMs = 60 * 1000;
+
+function breaker(): CircuitBreaker {
+  return new CircuitBreaker('test', { failureThreshold: 2, cooldownMs, isFailure: error => error instanceof DeniedError });
+}
+
+const denied = () => Promise.reject(new DeniedError('denied'));
+const succeeds = () => Promise.resolve('ok');
+
+function advance(ms: number): void {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+beforeEach(() => {
+  transitions.length = 0;
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(start);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and rejects calls until the cooldown has passed', async () => {
+    const circuit = breaker();
+    await expect(circuit.execute(denied)).rejects.toThrow('denied');
+    expect(circuit.isClosed()).toBe(true);
+    await expect(circuit.execute(denied)).rejects.toThrow('denied');
+
+    expect(circuit.getStatus()).toMatchObject({ state: 'open', consecutiveFailures: 2, lastFailure: 'denied' });
+    const fn = vi.fn(succeeds);
+    const rejected = circuit.execute(fn);
+    await expect(rejected).rejects.toThrow(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ retryAt: new Date(start.getTime() + cooldownMs) });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('only counts the errors it was told to', async () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) {
+      await expect(circuit.execute(() => Promise.reject(new Error('timeout')))).rejects.toThrow('timeout');
+    }
+    expect(circuit.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('resets the failure count on a success', async () => {
+    const circuit = breaker();
+    await expect(circuit.execute(denied)).rejects.toThrow('denied');
+    await circuit.execute(succeeds);
+    await expect(circuit.execute(denied)).rejects.toThrow('denied');
+    expect(circuit.isClosed()).toBe(true);
+  });
+
+  it('lets a single trial through after the cooldown and closes when it succeeds', async () => {
+    const circuit = breaker();
+    await expect(circuit.execute(denied)).rejects.toThrow();
+    await expect(circuit.execute(denied)).rejects.toThrow();
+    advance(cooldownMs);
+
+    let finishTrial!: (value: string) => void;
+    const trial = circuit.execute(() => new Promise<string>(resolve => {
+      finishTrial = resolve;
+    }));
+    await vi.waitFor(() => expect(circuit.getStatus().state).toBe('half_open'));
+    // Others are turned away while the trial runs
+    await expect(circuit.execute(succeeds)).rejects.toThrow(CircuitOpenError);
+
+    finishTrial('ok');
+    expect(await trial).toBe('ok');
+    expect(circuit.getStatus()).toMatchObject({ state: 'closed', openedAt: null, retryAt: null });
+    expect(transitions.map(transition => [transition.from_state, transition.to_state])).toEqual([
+      ['closed', 'open'],
+      ['open', 'half_open'],
+      ['half_open', 'closed']
+    ]);
+  });
+
+  it('re-opens for another cooldown when the trial fails', async () => {
+    const circuit = breaker();
+    await expect(circuit.execute(denied)).rejects.toThrow();
+    await expect(circuit.execute(denied)).rejects.toThrow();
+    advance(cooldownMs);
+
+    await expect(circuit.execute(denied)).rejects.toThrow('denied');
+    expect(circuit.getStatus()).toMatchObject({ state: 'open', retryAt: new Date(start.getTime() + 2 * cooldownMs) });
+    await expect(circuit.execute(succeeds)).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('comes back open after a restart until the stored cooldown has passed', async () => {
+    const circuit = breaker();
+    await expect(circuit.execute(denied)).rejects.toThrow();
+    await expect(circuit.execute(denied)).rejects.toThrow();
+    advance(cooldownMs / 2);
+
+    const restarted = breaker();
+    await expect(restarted.execute(succeeds)).rejects.toThrow(CircuitOpenError);
+    expect(restarted.getStatus()).toMatchObject({ state: 'open', lastFailure: expect.stringContaining('denied') });
+
+    advance(cooldownMs / 2);
+    expect(await restarted.execute(succeeds)).toBe('ok');
+    expect(restarted.isClosed()).toBe(true);
+  });
+
+  it('retries an interrupted trial straight away after a restart', async () => {
+    transitions.push({
+      id: 1,
+      circuit: 'test',
+      from_state: 'open',
+      to_state: 'half_open',
+      reason: 'Cooldown elapsed, allowing a trial request',
+      created_at: toSqliteTimestamp(start)
+    });
+
+    const fn = vi.fn(succeeds);
+    expect(await breaker().execute(fn)).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
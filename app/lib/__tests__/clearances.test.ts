@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { inferClearances } from '../clearances';
+import type { WaitlistEntry, WaitlistSnapshot } from '../flight-utils';
+
+function snapshot(names: string[], available: number | null, checkedIn: number | null, cleared: string[] = []): WaitlistSnapshot {
+  const entries: WaitlistEntry[] = names.map((name, i) => ({
+    position: i + 1,
+    name,
+    seat: null,
+    cleared: cleared.includes(name),
+    annotations: []
+  }));
+  return {
+    names,
+    capacity: 12,
+    available,
+    checkedIn,
+    lists: [{ cabin: 'first', listType: 'upgrade', header: 'Upgrade requests', names, entries, capacity: 12, available, checkedIn }]
+  };
+}
+
+describe('inferClearances', () => {
+  it('takes a cleared marker at face value', () => {
+    expect(inferClearances(null, snapshot(['A', 'B'], 2, 8, ['A']))).toEqual([
+      { passenger: 'A', oldPosition: 1, evidence: 'marker', confidence: 1, seatsTaken: 0, checkedInRise: 0 }
+    ]);
+  });
+
+  it('gives the seats that filled to the front of the list', () => {
+    const inferences = inferClearances(snapshot(['A', 'B', 'C'], 2, 8), snapshot(['C'], 1, 9));
+
+    expect(inferences).toEqual([
+      { passenger: 'A', oldPosition: 1, evidence: 'seat_counts', confidence: 0.9, seatsTaken: 1, checkedInRise: 1 },
+      { passenger: 'B', oldPosition: 2, evidence: 'position', confidence: 0.3, seatsTaken: 1, checkedInRise: 1 }
+    ]);
+  });
+
+  it('is less sure when only one seat count moved', () => {
+    const [inference] = inferClearances(snapshot(['A', 'B'], 0, 8), snapshot(['B'], 0, 9));
+
+    expect(inference).toMatchObject({ passenger: 'A', evidence: 'seat_counts', confidence: 0.6 });
+  });
+
+  it('does not count a removal beyond the available seats without seat movement', () => {
+    expect(inferClearances(snapshot(['A', 'B', 'C'], 1, 8), snapshot(['A', 'B'], 1, 8))).toEqual([]);
+  });
+
+  it('does not infer a removal that is already marked cleared', () => {
+    const inferences = inferClearances(snapshot(['A', 'B'], 1, 8), snapshot(['A', 'B'], 0, 9, ['A']));
+
+    expect(inferences.map(inference => [inference.passenger, inference.evidence])).toEqual([['A', 'marker']]);
+  });
+
+  it('reads older snapshots without lists from the names', () => {
+    const previous = { names: ['A', 'B'], lists: null, capacity: 12, available: 1, checkedIn: 8 };
+    const [inference] = inferClearances(previous, snapshot(['B'], 0, 9));
+
+    expect(inference).toMatchObject({ passenger: 'A', oldPosition: 1, evidence: 'seat_counts' });
+  });
+});
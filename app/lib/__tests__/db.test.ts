@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import db, { FlightSegment, WaitlistSnapshot } from '../db';
+
+// The vitest environment sets STORAGE_BACKEND=memory, so db is an in-memory SQLite database
+
+const flightDate = '2026-03-01';
+
+function segment(flightNumber: string, overrides: Partial<FlightSegment> = {}): FlightSegment {
+  return { flightNumber, date: flightDate, origin: 'SEA', destination: 'ANC', departureTime: '9:55 pm', arrivalTime: '12:30 am', ...overrides };
+}
+
+function waitlist(names: string[], available: number, checkedIn: number): WaitlistSnapshot {
+  return { names, capacity: 12, available, checkedIn };
+}
+
+async function snapshotCount(flightId: number): Promise<number> {
+  const row = await db.withConnection(connection =>
+    connection.get<{ count: number }>('SELECT COUNT(*) as count FROM waitlist_snapshots WHERE flight_id = ?', [flightId])
+  );
+  return row!.count;
+}
+
+// For schema changes that make a write fail part-way
+function exec(sql: string): Promise<void> {
+  return db.withConnection(connection => connection.exec(sql));
+}
+
+beforeAll(async () => {
+  await db.initDb();
+});
+
+describe('saveWaitlistSnapshot', () => {
+  it('stores nothing of a snapshot whose derived rows fail to save, and throws', async () => {
+    const flightId = (await db.saveFlightSegment(segment('400'), 0))!;
+    await db.saveWaitlistSnapshot(flightId, waitlist(['A', 'B'], 2, 8));
+
+    await exec('ALTER TABLE clearances RENAME TO clearances_moved');
+    try {
+      // A clears, so a clearance is written after the snapshot, its entries and events
+      await expect(db.saveWaitlistSnapshot(flightId, waitlist(['B'], 1, 9))).rejects.toThrow();
+    } finally {
+      await exec('ALTER TABLE clearances_moved RENAME TO clearances');
+    }
+
+    expect(await snapshotCount(flightId)).toBe(1);
+    expect(await db.getWaitlistEvents('400', flightDate)).toEqual([]);
+  });
+});
+
+describe('saveFlightSegment', () => {
+  it('records the schedule fields that changed since the last save', async () => {
+    const flightId = await db.saveFlightSegment(segment('500'), 0);
+    expect(await db.saveFlightSegment(segment('500'), 0)).toBe(flightId);
+    expect(await db.saveFlightSegment(segment('500', { departureTime: '10:40 pm', destination: 'FAI' }), 0)).toBe(flightId);
+
+    const history = await db.getFlightScheduleHistory('500', flightDate);
+    expect(history.map(change => [change.segment_index, change.field, change.old_value, change.new_value])).toEqual([
+      [0, 'destination', 'ANC', 'FAI'],
+      [0, 'departure_time', '9:55 pm', '10:40 pm']
+    ]);
+    expect((await db.getFlightSegments('500', flightDate))[0]).toMatchObject({ destination: 'FAI', departure_time: '10:40 pm' });
+  });
+
+  it('keeps no history of a change whose update failed', async () => {
+    await db.saveFlightSegment(segment('501'), 0);
+
+    await exec(`CREATE TEMP TRIGGER refuse_update BEFORE UPDATE ON flights BEGIN SELECT RAISE(ABORT, 'refused'); END`);
+    try {
+      expect(await db.saveFlightSegment(segment('501', { arrivalTime: '1:15 am' }), 0)).toBeNull();
+    } finally {
+      await exec('DROP TRIGGER refuse_update');
+    }
+
+    expect(await db.getFlightScheduleHistory('501', flightDate)).toEqual([]);
+    expect((await db.getFlightSegments('501', flightDate))[0].arrival_time).toBe('12:30 am');
+  });
+});
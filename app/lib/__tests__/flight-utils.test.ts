@@ -0,0 +1,143 @@
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import {
+  classifyWaitlistHeader,
+  convertDateFormat,
+  parseFlightSegments,
+  parseTimeHeader,
+  parseWaitlistWithDiagnostics
+} from '../flight-utils';
+import { FixtureWaitlistSource } from '../waitlist-source';
+
+const fixtureDir = path.resolve(__dirname, '../../../fixtures/status-pages');
+
+async function loadFixture(flightNumber: string, flightDate: string) {
+  const page = await new FixtureWaitlistSource(fixtureDir).fetchStatusPage(flightNumber, flightDate);
+  return cheerio.load(page.html);
+}
+
+describe('FixtureWaitlistSource', () => {
+  it('serves the page saved for the flight and date', async () => {
+    const page = await new FixtureWaitlistSource(fixtureDir).fetchStatusPage('1234', '2024-12-29');
+    expect(page.source).toBe('fixture');
+    expect(page.html).toContain('auro-flight');
+  });
+
+  it('fails when no page is saved for the flight', async () => {
+    await expect(new FixtureWaitlistSource(fixtureDir).fetchStatusPage('9999', '2024-12-29'))
+      .rejects.toThrow('No fixture status page found for flight 9999');
+  });
+
+  it('refuses a flight number or date that would leave the fixture directory', async () => {
+    // Without the check, ../1234 would serve the page one directory up
+    const source = new FixtureWaitlistSource(path.join(fixtureDir, 'nested'));
+    await expect(source.fetchStatusPage('../1234', '2024-12-29')).rejects.toThrow('Invalid flight number');
+    await expect(source.fetchStatusPage('1234', '2024-12-29/../..')).rejects.toThrow('Invalid flight date');
+  });
+});
+
+describe('parseFlightSegments', () => {
+  it('reads each leg with stations from the itinerary route', async () => {
+    const segments = parseFlightSegments(await loadFixture('1234', '2024-12-29'));
+
+    expect(segments.map(s => [s.segmentIndex, s.origin, s.destination])).toEqual([
+      [0, 'SEA', 'ANC'],
+      [1, 'ANC', 'FAI']
+    ]);
+    expect(segments[0].departureTime).toBe('9:55 pm');
+    expect(segments[0].arrivalTime).toBe('12:30 am');
+  });
+
+  it('dates a connection after an overnight arrival on the next day', async () => {
+    const segments = parseFlightSegments(await loadFixture('1234', '2024-12-29'));
+
+    expect(segments[0].segmentDate).toBe('2024-12-29');
+    expect(segments[1].segmentDate).toBe('2024-12-30');
+  });
+
+  it('turns local times into instants in each station zone', async () => {
+    const [first, second] = parseFlightSegments(await loadFixture('1234', '2024-12-29'));
+
+    // 9:55 pm PST, estimated 10:40 pm, arriving 12:30 am AKST the next day
+    expect(first.departure).toEqual({
+      scheduled: '2024-12-30T05:55:00.000Z',
+      estimated: '2024-12-30T06:40:00.000Z',
+      actual: null
+    });
+    expect(first.arrival.scheduled).toBe('2024-12-30T09:30:00.000Z');
+    expect(second.departure.scheduled).toBe('2024-12-30T15:05:00.000Z');
+  });
+});
+
+describe('parseWaitlistWithDiagnostics', () => {
+  it('reads the First Class upgrade list with seats and cleared rows', async () => {
+    const { waitlist, diagnostics } = parseWaitlistWithDiagnostics(await loadFixture('1234', '2024-12-29'), 0);
+
+    expect(waitlist?.names).toEqual(['SMI/J', 'DOE/A', 'LEE/K']);
+    expect(waitlist?.capacity).toBe(12);
+    expect(waitlist?.available).toBe(0);
+    expect(waitlist?.checkedIn).toBe(10);
+    expect(waitlist?.lists[0].entries[0]).toMatchObject({ position: 1, seat: '2A', cleared: true });
+    expect(waitlist?.lists[0].entries[1]).toMatchObject({ position: 2, seat: null, cleared: false });
+    expect(waitlist?.lists[1]).toMatchObject({ cabin: 'main', listType: 'standby', names: ['NGU/T'] });
+    expect(diagnostics.confidence).toBe(1);
+    expect(diagnostics.suspect).toBe(false);
+  });
+
+  it('flags a segment whose lists have no upgrade list as suspect', async () => {
+    const { diagnostics } = parseWaitlistWithDiagnostics(await loadFixture('1234', '2024-12-29'), 1);
+
+    expect(diagnostics.suspect).toBe(true);
+    expect(diagnostics.missingFields).toContain('names');
+  });
+
+  it('reports a missing accordion with no waitlist', async () => {
+    const { waitlist, diagnostics } = parseWaitlistWithDiagnostics(await loadFixture('1234', '2024-12-29'), 5);
+
+    expect(waitlist).toBeNull();
+    expect(diagnostics.confidence).toBe(0);
+  });
+});
+
+describe('classifyWaitlistHeader', () => {
+  it.each([
+    ['Upgrade requests', 'first', 'upgrade'],
+    ['First Class upgrade requests', 'first', 'upgrade'],
+    ['Premium Class upgrade requests', 'premium', 'upgrade'],
+    ['Standby list', 'main', 'standby'],
+    ['Seat requests', 'unknown', 'other']
+  ])('classifies "%s"', (header, cabin, listType) => {
+    expect(classifyWaitlistHeader(header)).toEqual({ cabin, listType });
+  });
+});
+
+describe('parseTimeHeader', () => {
+  it('reads labeled times', () => {
+    expect(parseTimeHeader('Scheduled 6:05 pm Estimated 6:50 pm')).toEqual({
+      scheduled: '6:05 pm',
+      estimated: '6:50 pm',
+      actual: null
+    });
+  });
+
+  it('reads labels that run into the previous time', () => {
+    // What text() gives for <span>Scheduled</span><span>6:05 pm</span><span>Departed</span><span>6:10 pm</span>
+    expect(parseTimeHeader('Scheduled6:05 pmDeparted6:10 pm')).toEqual({
+      scheduled: '6:05 pm',
+      estimated: null,
+      actual: '6:10 pm'
+    });
+  });
+
+  it('treats a second unlabeled time as the estimate', () => {
+    expect(parseTimeHeader('6:05 pm 6:50 pm')).toEqual({ scheduled: '6:05 pm', estimated: '6:50 pm', actual: null });
+  });
+});
+
+describe('convertDateFormat', () => {
+  it('normalizes page dates to YYYY-MM-DD', () => {
+    expect(convertDateFormat('Sunday, December 29, 2024')).toBe('2024-12-29');
+    expect(convertDateFormat('2024-12-29')).toBe('2024-12-29');
+  });
+});
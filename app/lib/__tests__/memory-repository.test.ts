@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import type { FlightSegment, WaitlistSnapshot } from '../db';
+import { MemoryRepository } from '../memory-repository';
+
+const flightDate = new Date().toISOString().slice(0, 10);
+
+function segment(overrides: Partial<FlightSegment> = {}): FlightSegment {
+  return {
+    flightNumber: '1234',
+    date: flightDate,
+    origin: 'SEA',
+    destination: 'ANC',
+    departureTime: '9:55 pm',
+    arrivalTime: '12:30 am',
+    ...overrides
+  };
+}
+
+function waitlist(names: string[], available: number | null = 2, checkedIn: number | null = 8, suspect = false): WaitlistSnapshot {
+  return {
+    names,
+    capacity: 12,
+    available,
+    checkedIn,
+    diagnostics: {
+      segmentIndex: 0,
+      selectors: {},
+      headers: [],
+      missingFields: [],
+      rowCount: names.length,
+      nameCount: names.length,
+      confidence: suspect ? 0.2 : 1,
+      suspect,
+      warnings: []
+    }
+  };
+}
+
+function at(time: string): { snapshotTime: Date } {
+  return { snapshotTime: new Date(`${flightDate}T${time}:00Z`) };
+}
+
+describe('MemoryRepository flights', () => {
+  it('keeps a segment id across saves and records schedule changes', async () => {
+    const repository = new MemoryRepository();
+    const id = await repository.flights.save(segment(), 0);
+
+    expect(await repository.flights.save(segment({ departureTime: '10:40 pm' }), 0)).toBe(id);
+    expect(await repository.flights.getId('1234', flightDate, 0)).toBe(id);
+    expect(await repository.flights.save(segment({ origin: 'ANC', destination: 'FAI' }), 1)).not.toBe(id);
+
+    const history = await repository.flights.getScheduleHistory('1234', flightDate);
+    expect(history.map(change => [change.segment_index, change.field, change.old_value, change.new_value])).toEqual([
+      [0, 'departure_time', '9:55 pm', '10:40 pm']
+    ]);
+  });
+});
+
+describe('MemoryRepository snapshots', () => {
+  it('confirms an unchanged snapshot instead of storing it', async () => {
+    const repository = new MemoryRepository();
+    const flightId = (await repository.flights.save(segment(), 0))!;
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B']), at('10:00'));
+    await repository.snapshots.save(flightId, waitlist(['A', 'B']), at('10:05'));
+    const [latest] = await repository.snapshots.getLatest('1234', flightDate);
+    expect(latest.snapshot_time).toBe(`${flightDate} 10:00:00`);
+    expect(latest.last_confirmed_at).toBe(`${flightDate} 10:05:00`);
+  });
+
+  it('never serves a suspect parse as the latest data', async () => {
+    const repository = new MemoryRepository();
+    const flightId = (await repository.flights.save(segment(), 0))!;
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B']), at('10:00'));
+    await repository.snapshots.save(flightId, waitlist([], null, null, true), at('10:05'));
+
+    const [latest] = await repository.snapshots.getLatest('1234', flightDate);
+    expect(JSON.parse(latest.waitlist_names!)).toEqual(['A', 'B']);
+    expect(await repository.snapshots.getEvents('1234', flightDate)).toEqual([]);
+  });
+
+  it('records waitlist events between snapshots', async () => {
+    const repository = new MemoryRepository();
+    const flightId = (await repository.flights.save(segment(), 0))!;
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B']), at('10:00'));
+    await repository.snapshots.save(flightId, waitlist(['B', 'C']), at('10:05'));
+
+    const events = await repository.snapshots.getEvents('1234', flightDate);
+    expect(events.map(event => [event.event_type, event.name, event.old_position, event.new_position])).toEqual([
+      ['removed', 'A', 1, null],
+      ['added', 'C', null, 2],
+      ['moved', 'B', 2, 1]
+    ]);
+    expect(events.every(event => event.segment_index === 0 && event.created_at === `${flightDate} 10:05:00`)).toBe(true);
+    expect(await repository.snapshots.getEvents('1234', flightDate, { since: new Date(`${flightDate}T10:06:00Z`) })).toEqual([]);
+  });
+});
+
+describe('MemoryRepository clearances', () => {
+  it('infers clearances and drops them when the passenger is back on the list', async () => {
+    const repository = new MemoryRepository();
+    const flightId = (await repository.flights.save(segment(), 0))!;
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B']), at('10:00'));
+    await repository.snapshots.save(flightId, waitlist(['B'], 1, 9), at('10:05'));
+    expect((await repository.clearances.getForFlight('1234', flightDate)).map(clearance => [clearance.passenger, clearance.evidence])).toEqual([
+      ['A', 'seat_counts']
+    ]);
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B'], 1, 9), at('10:10'));
+    expect(await repository.clearances.getForFlight('1234', flightDate)).toEqual([]);
+  });
+
+  it('re-derives clearances from the stored snapshots', async () => {
+    const repository = new MemoryRepository();
+    const flightId = (await repository.flights.save(segment(), 0))!;
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B']), { ...at('10:00'), archiveId: 1 });
+    await repository.snapshots.save(flightId, waitlist(['B'], 1, 9), { ...at('10:05'), archiveId: 2 });
+    expect(await repository.snapshots.deleteForArchive(2)).toBe(1);
+    expect(await repository.clearances.getForFlight('1234', flightDate)).toEqual([]);
+
+    await repository.snapshots.save(flightId, waitlist(['B'], 1, 9), { ...at('10:05'), archiveId: 2 });
+    await repository.snapshots.rebuildHistory(flightId);
+    expect((await repository.clearances.getForFlight('1234', flightDate)).map(clearance => clearance.passenger)).toEqual(['A']);
+  });
+
+  it('summarizes clearances by flight number and route', async () => {
+    const repository = new MemoryRepository();
+    const flightId = (await repository.flights.save(segment(), 0))!;
+    await repository.flights.save(segment({ origin: 'ANC', destination: 'FAI' }), 1);
+
+    await repository.snapshots.save(flightId, waitlist(['A', 'B', 'C']), at('10:00'));
+    await repository.snapshots.save(flightId, waitlist(['C'], 0, 10), at('10:05'));
+
+    expect(await repository.clearances.getStats({ flightNumber: '1234' })).toEqual([{
+      flight_number: '1234',
+      origin: 'SEA',
+      destination: 'ANC',
+      flights: 1,
+      clearances: 2,
+      average_cleared: 2,
+      deepest_position: 2
+    }]);
+  });
+});
+
+describe('MemoryRepository users', () => {
+  it('refuses a username that is taken', async () => {
+    const repository = new MemoryRepository();
+    const user = { username: 'pax', password_hash: 'hash', first_name: 'Pat', last_name: 'Ax', status_level: 'MVP' };
+
+    expect(await repository.users.create(user)).toMatchObject({ id: 1, username: 'pax' });
+    await expect(repository.users.create(user)).rejects.toThrow('Username pax already exists');
+    expect(await repository.users.getByUsername('pax')).toMatchObject({ first_name: 'Pat' });
+  });
+});
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SqliteConnection } from '../db';
+
+// A database as written before migrations existed: no schema_migrations and only the original snapshot columns
+const LEGACY_SCHEMA = `
+  CREATE TABLE flights (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flight_number TEXT NOT NULL,
+    flight_date TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    destination TEXT NOT NULL,
+    departure_time TEXT NOT NULL,
+    arrival_time TEXT NOT NULL,
+    segment_index INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(flight_number, flight_date, segment_index)
+  );
+
+  CREATE TABLE waitlist_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flight_id INTEGER REFERENCES flights(id),
+    waitlist_names TEXT NOT NULL,
+    first_class_capacity INTEGER,
+    first_class_available INTEGER,
+    first_class_checked_in INTEGER,
+    snapshot_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (flight_id) REFERENCES flights(id) ON DELETE CASCADE
+  );
+
+  INSERT INTO flights (flight_number, flight_date, origin, destination, departure_time, arrival_time, segment_index)
+  VALUES ('1234', '2024-12-29', 'SEA', 'ANC', '9:55 pm', '12:30 am', 0);
+
+  INSERT INTO waitlist_snapshots (flight_id, waitlist_names, first_class_capacity, first_class_available, first_class_checked_in, snapshot_time)
+  VALUES (1, '["A","B"]', 12, 2, 8, '2024-12-29 10:00:00'),
+         (1, '["B"]', 12, 1, 9, '2024-12-29 10:05:00');
+`;
+
+let migrations: typeof import('../migrations');
+let backupDir: string;
+const connections: SqliteConnection[] = [];
+
+async function openMemory(): Promise<SqliteConnection> {
+  const connection = await open({ filename: ':memory:', driver: sqlite3.Database });
+  connections.push(connection);
+  return connection;
+}
+
+// Tables with their columns and the indexes on them, ignoring the order columns were added in
+async function describeSchema(connection: SqliteConnection): Promise<Record<string, string[]>> {
+  const objects = await connection.all<{ type: string; name: string; tbl_name: string }[]>(
+    "SELECT type, name, tbl_name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const schema: Record<string, string[]> = {};
+  for (const object of objects.filter(o => o.type === 'table')) {
+    const columns = await connection.all<{ name: string; type: string; notnull: number; dflt_value: string | null }[]>(
+      `PRAGMA table_info(${object.name})`
+    );
+    schema[object.name] = columns.map(c => `${c.name} ${c.type} ${c.notnull} ${c.dflt_value}`).sort();
+  }
+  for (const object of objects.filter(o => o.type === 'index')) {
+    schema[object.tbl_name].push(`index ${object.name}`);
+  }
+  return schema;
+}
+
+beforeEach(async () => {
+  backupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-test-'));
+  vi.stubEnv('DB_BACKUP_DIR', backupDir);
+  vi.resetModules();
+  migrations = await import('../migrations');
+});
+
+afterEach(async () => {
+  await Promise.all(connections.splice(0).map(connection => connection.close()));
+  fs.rmSync(backupDir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+describe('runMigrations', () => {
+  it('applies every migration to a new database without backing it up', async () => {
+    const { MIGRATIONS, runMigrations, getMigrationStatus } = migrations;
+    const connection = await openMemory();
+
+    expect(await runMigrations(connection)).toEqual(MIGRATIONS.map(migration => migration.version));
+    expect((await getMigrationStatus(connection)).every(status => status.applied_at !== null)).toBe(true);
+    expect(fs.readdirSync(backupDir)).toEqual([]);
+
+    // Nothing left to do the second time
+    expect(await runMigrations(connection)).toEqual([]);
+  });
+
+  it('brings a database from before migrations to the same schema as a new one, keeping its data', async () => {
+    const { MIGRATIONS, runMigrations } = migrations;
+    const fresh = await openMemory();
+    await runMigrations(fresh);
+
+    const legacy = await openMemory();
+    await legacy.exec(LEGACY_SCHEMA);
+    expect(await runMigrations(legacy)).toEqual(MIGRATIONS.map(migration => migration.version));
+
+    expect(await describeSchema(legacy)).toEqual(await describeSchema(fresh));
+    expect(fs.readdirSync(backupDir)).toEqual([expect.stringMatching(/^alaska_waitlist-v0-.*\.db$/)]);
+
+    // Later tables are backfilled from the existing snapshots
+    expect(await legacy.all('SELECT snapshot_id, position, name FROM snapshot_entries ORDER BY id')).toEqual([
+      { snapshot_id: 1, position: 1, name: 'A' },
+      { snapshot_id: 1, position: 2, name: 'B' },
+      { snapshot_id: 2, position: 1, name: 'B' }
+    ]);
+    expect(await legacy.all('SELECT event_type, name FROM waitlist_events WHERE name IS NOT NULL ORDER BY id')).toEqual([
+      { event_type: 'removed', name: 'A' },
+      { event_type: 'moved', name: 'B' }
+    ]);
+    expect(await legacy.all('SELECT passenger, evidence FROM clearances')).toEqual([{ passenger: 'A', evidence: 'seat_counts' }]);
+  });
+
+  it('rolls back a failing migration and keeps the ones applied before it', async () => {
+    const { MIGRATIONS, runMigrations, getMigrationStatus } = migrations;
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    const connection = await openMemory();
+    await runMigrations(connection);
+
+    MIGRATIONS.push(
+      {
+        version: latest + 1,
+        name: 'add_notes',
+        async up(db) {
+          await db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)');
+        }
+      },
+      {
+        version: latest + 2,
+        name: 'broken',
+        async up(db) {
+          await db.exec('ALTER TABLE flights ADD COLUMN note_id INTEGER');
+          await db.exec('INSERT INTO missing_table VALUES (1)');
+        }
+      }
+    );
+
+    await expect(runMigrations(connection)).rejects.toThrow(`Migration ${latest + 2} (broken) failed: SQLITE_ERROR: no such table: missing_table`);
+
+    const status = await getMigrationStatus(connection);
+    expect(status.slice(-2).map(migration => [migration.name, migration.applied_at !== null])).toEqual([['add_notes', true], ['broken', false]]);
+    expect(await connection.get("SELECT name FROM sqlite_master WHERE name = 'notes'")).toEqual({ name: 'notes' });
+    const flightColumns = await connection.all<{ name: string }[]>('PRAGMA table_info(flights)');
+    expect(flightColumns.map(column => column.name)).not.toContain('note_id');
+
+    // The failed migration is retried on the next run
+    MIGRATIONS[MIGRATIONS.length - 1].up = async db => {
+      await db.exec('ALTER TABLE flights ADD COLUMN note_id INTEGER');
+    };
+    expect(await runMigrations(connection)).toEqual([latest + 2]);
+  });
+});
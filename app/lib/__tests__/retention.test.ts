@@ -0,0 +1,150 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import db, { FlightSegment, WaitlistSnapshot } from '../db';
+import { applyRetention } from '../retention';
+
+// The vitest environment sets STORAGE_BACKEND=memory, so db is an in-memory SQLite database
+
+function segment(flightNumber: string, date: string): FlightSegment {
+  return { flightNumber, date, origin: 'SEA', destination: 'ANC', departureTime: '9:55 pm', arrivalTime: '12:30 am' };
+}
+
+function waitlist(names: string[], available: number = 2, suspect = false): WaitlistSnapshot {
+  return {
+    names,
+    capacity: 12,
+    available,
+    checkedIn: 8,
+    diagnostics: {
+      segmentIndex: 0,
+      selectors: {},
+      headers: [],
+      missingFields: [],
+      rowCount: names.length,
+      nameCount: names.length,
+      confidence: suspect ? 0.2 : 1,
+      suspect,
+      warnings: []
+    }
+  };
+}
+
+async function saveFlight(flightNumber: string, date: string, snapshots: [string, WaitlistSnapshot][]): Promise<number> {
+  const flightId = (await db.saveFlightSegment(segment(flightNumber, date), 0))!;
+  for (const [time, snapshot] of snapshots) {
+    await db.saveWaitlistSnapshot(flightId, snapshot, { snapshotTime: new Date(`${date}T${time}:00Z`) });
+  }
+  return flightId;
+}
+
+// A repeat of the latest snapshot, as stored before unchanged snapshots were only confirmed
+async function insertRepeat(flightId: number, time: string): Promise<void> {
+  await db.withConnection(connection => connection.run(`
+    INSERT INTO waitlist_snapshots
+      (flight_id, waitlist_names, waitlist_lists, first_class_capacity, first_class_available, first_class_checked_in, is_suspect, snapshot_time)
+    SELECT flight_id, waitlist_names, waitlist_lists, first_class_capacity, first_class_available, first_class_checked_in, 0, ?
+    FROM waitlist_snapshots WHERE flight_id = ? ORDER BY snapshot_time DESC, id DESC LIMIT 1
+  `, [time, flightId]));
+}
+
+async function snapshotTimes(flightId: number): Promise<string[]> {
+  const rows = await db.withConnection(connection => connection.all<{ snapshot_time: string }[]>(
+    'SELECT snapshot_time FROM waitlist_snapshots WHERE flight_id = ? ORDER BY snapshot_time',
+    [flightId]
+  ));
+  return rows.map(row => row.snapshot_time.slice(11, 16));
+}
+
+beforeAll(async () => {
+  await db.initDb();
+});
+
+describe('compactFlightSnapshots', () => {
+  it('keeps the first and last snapshots and the change points', async () => {
+    const date = '2026-05-10';
+    const flightId = await saveFlight('100', date, [['10:00', waitlist(['A', 'B'])]]);
+    await insertRepeat(flightId, `${date} 10:05:00`);
+    await db.saveWaitlistSnapshot(flightId, waitlist([], 2, true), { snapshotTime: new Date(`${date}T10:10:00Z`) });
+    await db.saveWaitlistSnapshot(flightId, waitlist(['B']), { snapshotTime: new Date(`${date}T10:15:00Z`) });
+    await insertRepeat(flightId, `${date} 10:20:00`);
+    await insertRepeat(flightId, `${date} 10:25:00`);
+
+    expect(await db.compactFlightSnapshots(flightId)).toBe(3);
+    expect(await snapshotTimes(flightId)).toEqual(['10:00', '10:15', '10:25']);
+
+    // The removal of A is still recorded against a kept snapshot
+    const events = await db.getWaitlistEvents('100', date);
+    expect(events.map(event => [event.event_type, event.name])).toEqual([['removed', 'A'], ['moved', 'B']]);
+  });
+
+  it('keeps snapshots a clearance was inferred from', async () => {
+    const date = '2026-05-11';
+    const flightId = await saveFlight('101', date, [
+      ['10:00', waitlist(['A', 'B'])],
+      ['10:05', waitlist(['B'], 1)]
+    ]);
+    await insertRepeat(flightId, `${date} 10:10:00`);
+    await insertRepeat(flightId, `${date} 10:15:00`);
+
+    expect(await db.compactFlightSnapshots(flightId)).toBe(1);
+    expect(await snapshotTimes(flightId)).toEqual(['10:00', '10:05', '10:15']);
+    expect((await db.getClearances('101', date)).map(clearance => clearance.passenger)).toEqual(['A']);
+  });
+});
+
+describe('applyRetention', () => {
+  it('compacts departed flights once and purges flights past the retention period', async () => {
+    const now = new Date('2026-06-15T12:00:00Z');
+    const departedId = await saveFlight('200', '2026-06-01', [['10:00', waitlist(['A'])]]);
+    await insertRepeat(departedId, '2026-06-01 10:05:00');
+    await insertRepeat(departedId, '2026-06-01 10:10:00');
+    const upcomingId = await saveFlight('201', '2026-06-20', [['10:00', waitlist(['A'])]]);
+    await insertRepeat(upcomingId, '2026-06-20 10:05:00');
+    await insertRepeat(upcomingId, '2026-06-20 10:10:00');
+    await saveFlight('202', '2025-05-01', [['10:00', waitlist(['A'])], ['10:05', waitlist(['B'])]]);
+
+    const summary = await applyRetention(now);
+    expect(summary).toMatchObject({ flightsCompacted: 1, snapshotsRemoved: 1, flightsPurged: 1, snapshotsPurged: 2 });
+    expect(await snapshotTimes(departedId)).toEqual(['10:00', '10:10']);
+    expect(await snapshotTimes(upcomingId)).toEqual(['10:00', '10:05', '10:10']);
+    expect(await db.getFlightSegments('202', '2025-05-01')).toEqual([]);
+
+    // Compacted flights aren't looked at again
+    expect((await db.getFlightsToCompact('2026-06-13')).map(flight => flight.flight_number)).not.toContain('200');
+  });
+});
+
+describe('inTransaction', () => {
+  it('keeps writes made meanwhile out of a transaction that rolls back', async () => {
+    let inside!: () => void;
+    const started = new Promise<void>(resolve => {
+      inside = resolve;
+    });
+
+    const failing = db.inTransaction(async () => {
+      await db.saveFlightSegment(segment('300', '2026-07-01'), 0);
+      inside();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      throw new Error('boom');
+    });
+    await started;
+    const concurrent = db.saveFlightSegment(segment('301', '2026-07-01'), 0);
+
+    await expect(failing).rejects.toThrow('boom');
+    expect(await concurrent).not.toBeNull();
+    expect(await db.getFlightSegments('300', '2026-07-01')).toEqual([]);
+    expect(await db.getFlightSegments('301', '2026-07-01')).toHaveLength(1);
+  });
+
+  it('rolls back only the nested part when a nested transaction fails', async () => {
+    await db.inTransaction(async () => {
+      await db.saveFlightSegment(segment('310', '2026-07-01'), 0);
+      await expect(db.inTransaction(async () => {
+        await db.saveFlightSegment(segment('311', '2026-07-01'), 0);
+        throw new Error('inner');
+      })).rejects.toThrow('inner');
+    });
+
+    expect(await db.getFlightSegments('310', '2026-07-01')).toHaveLength(1);
+    expect(await db.getFlightSegments('311', '2026-07-01')).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ScrapeJobRecord } from '../db';
+
+const { scrapeFlightCoalesced } = vi.hoisted(() => ({ scrapeFlightCoalesced: vi.fn() }));
+
+vi.mock('../scraper', () => ({ scrapeFlightCoalesced }));
+vi.mock('../browser-health', () => ({ startBrowserHealthMonitor: vi.fn(), stopBrowserHealthMonitor: vi.fn() }));
+
+// The vitest environment sets STORAGE_BACKEND=memory, so each fresh db module is a new in-memory SQLite database
+
+const flightDate = '2026-09-01';
+const scraped = { segments: [] };
+
+let db: typeof import('../db').default;
+let queue: typeof import('../scrape-queue');
+
+async function job(jobId: number): Promise<ScrapeJobRecord> {
+  return (await db.withConnection(connection => connection.get<ScrapeJobRecord>('SELECT * FROM scrape_jobs WHERE id = ?', [jobId])))!;
+}
+
+// Seconds from the attempt to its retry, by SQLite's clock
+async function backoffSeconds(jobId: number): Promise<number> {
+  const row = await db.withConnection(connection => connection.get<{ seconds: number }>(
+    "SELECT CAST(ROUND((julianday(next_run_at) - julianday(updated_at)) * 86400) AS INTEGER) AS seconds FROM scrape_jobs WHERE id = ?",
+    [jobId]
+  ));
+  return row!.seconds;
+}
+
+beforeEach(async () => {
+  scrapeFlightCoalesced.mockReset();
+  vi.stubEnv('SCRAPE_JOB_MAX_ATTEMPTS', '3');
+  vi.resetModules();
+  db = (await import('../db')).default;
+  await db.initDb();
+  queue = await import('../scrape-queue');
+});
+
+afterEach(() => {
+  queue.stopScrapeWorker();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('scrape queue', () => {
+  it('retries a failed job with a doubling backoff and reuses it for the next request', async () => {
+    scrapeFlightCoalesced
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce(scraped);
+
+    const jobId = await queue.enqueueScrape('100', flightDate, queue.JOB_PRIORITY_USER);
+    await expect(queue.waitForScrapeJob(jobId)).rejects.toThrow('timeout');
+    expect(await job(jobId)).toMatchObject({ state: 'failed', attempts: 1, last_error: 'timeout' });
+    expect(await backoffSeconds(jobId)).toBe(30);
+
+    // A user asking again skips the backoff
+    await expect(queue.runScrapeJob('100', flightDate)).rejects.toThrow('timeout');
+    expect(await job(jobId)).toMatchObject({ state: 'failed', attempts: 2 });
+    expect(await backoffSeconds(jobId)).toBe(60);
+
+    expect(await queue.runScrapeJob('100', flightDate)).toBe(scraped);
+    expect(await job(jobId)).toMatchObject({ state: 'succeeded', attempts: 3 });
+    expect(scrapeFlightCoalesced).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on a job after its last attempt and starts a new one on the next request', async () => {
+    scrapeFlightCoalesced.mockRejectedValue(new Error('blocked'));
+
+    const jobId = await queue.enqueueScrape('200', flightDate, queue.JOB_PRIORITY_USER);
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await expect(queue.runScrapeJob('200', flightDate)).rejects.toThrow('blocked');
+    }
+    expect(await job(jobId)).toMatchObject({ state: 'dead', attempts: 3, last_error: 'blocked' });
+    expect((await job(jobId)).finished_at).not.toBeNull();
+
+    const nextJobId = await queue.enqueueScrape('200', flightDate, queue.JOB_PRIORITY_USER);
+    expect(nextJobId).not.toBe(jobId);
+  });
+
+  it('leaves a job running for restart recovery when its outcome cannot be recorded', async () => {
+    scrapeFlightCoalesced.mockResolvedValue(scraped);
+    vi.spyOn(db, 'completeScrapeJob').mockRejectedValueOnce(new Error('disk I/O error'));
+    vi.spyOn(db, 'failScrapeJob').mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await expect(queue.runScrapeJob('300', flightDate)).rejects.toThrow('disk I/O error');
+    const [stuck] = await db.getScrapeJobs('running');
+    expect(stuck).toMatchObject({ flight_number: '300', attempts: 1 });
+
+    // The worker keeps going
+    expect(await queue.runScrapeJob('301', flightDate)).toBe(scraped);
+
+    expect(await db.requeueInterruptedScrapeJobs()).toBe(1);
+    expect(await job(stuck.id)).toMatchObject({ state: 'queued' });
+  });
+});
@@ -0,0 +1,102 @@
+import path from 'path';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import db from '../db';
+import { scrapeFlightCoalesced } from '../scraper';
+import { FixtureWaitlistSource, setWaitlistSource, FetchOptions, StatusPage, WaitlistSource } from '../waitlist-source';
+
+// The vitest environment sets STORAGE_BACKEND=memory, so pages are archived to an in-memory SQLite database
+
+const fixtureDir = path.resolve(__dirname, '../../../fixtures/status-pages');
+
+// Serves the fixture page, but only once release() is called, so tests can pile up callers meanwhile
+class GatedSource implements WaitlistSource {
+  readonly name = 'gated';
+  readonly fetches: [string, string, FetchOptions | undefined][] = [];
+  private fixtures = new FixtureWaitlistSource(fixtureDir);
+  private gate!: () => void;
+  private opened = new Promise<void>(resolve => {
+    this.gate = resolve;
+  });
+
+  constructor(private failure: Error | null = null) {}
+
+  async fetchStatusPage(flightNumber: string, flightDate: string, options?: FetchOptions): Promise<StatusPage> {
+    this.fetches.push([flightNumber, flightDate, options]);
+    await this.opened;
+    if (this.failure) {
+      throw this.failure;
+    }
+    return this.fixtures.fetchStatusPage(flightNumber, flightDate);
+  }
+
+  release(): void {
+    this.gate();
+  }
+}
+
+function useSource(failure: Error | null = null): GatedSource {
+  const source = new GatedSource(failure);
+  setWaitlistSource(source);
+  return source;
+}
+
+beforeAll(async () => {
+  await db.initDb();
+});
+
+afterEach(() => {
+  setWaitlistSource(null);
+});
+
+describe('scrapeFlightCoalesced', () => {
+  it('shares one fetch between concurrent callers for the same flight', async () => {
+    const source = useSource();
+
+    const first = scrapeFlightCoalesced('1234', '2024-12-29');
+    const second = scrapeFlightCoalesced('1234', '2024-12-29');
+    expect(second).toBe(first);
+
+    source.release();
+    const scraped = await first;
+    expect(scraped.segments.length).toBeGreaterThan(0);
+    expect(await second).toBe(scraped);
+    expect(source.fetches).toHaveLength(1);
+
+    // Once settled, the next caller scrapes afresh
+    await scrapeFlightCoalesced('1234', '2024-12-29');
+    expect(source.fetches).toHaveLength(2);
+  });
+
+  it('does not share scrapes pinned to different browser profiles', async () => {
+    const source = useSource();
+
+    const scrapes = [
+      scrapeFlightCoalesced('1234', '2024-12-29', { profile: 'a' }),
+      scrapeFlightCoalesced('1234', '2024-12-29', { profile: 'b' }),
+      scrapeFlightCoalesced('1234', '2024-12-29', { profile: 'a' })
+    ];
+    expect(scrapes[2]).toBe(scrapes[0]);
+    expect(scrapes[1]).not.toBe(scrapes[0]);
+
+    source.release();
+    await Promise.all(scrapes);
+    expect(source.fetches.map(([, , options]) => options?.profile)).toEqual(['a', 'b']);
+  });
+
+  it('rejects every waiting caller when the shared scrape fails, and does not keep the failure', async () => {
+    const source = useSource(new Error('Navigation timeout'));
+
+    const first = scrapeFlightCoalesced('1234', '2024-12-29');
+    const second = scrapeFlightCoalesced('1234', '2024-12-29');
+    source.release();
+
+    await expect(first).rejects.toThrow('Navigation timeout');
+    await expect(second).rejects.toThrow('Navigation timeout');
+    expect(source.fetches).toHaveLength(1);
+
+    const retry = useSource();
+    retry.release();
+    expect((await scrapeFlightCoalesced('1234', '2024-12-29')).segments.length).toBeGreaterThan(0);
+    expect(retry.fetches).toHaveLength(1);
+  });
+});
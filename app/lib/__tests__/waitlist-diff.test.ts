@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { comparableFromSnapshotRow, compareWaitlists, ComparableWaitlist, diffWaitlistSnapshots } from '../waitlist-diff';
+
+function waitlist(names: string[], seats: Partial<ComparableWaitlist> = {}): ComparableWaitlist {
+  return { names, lists: null, capacity: 12, available: 2, checkedIn: 8, ...seats };
+}
+
+describe('compareWaitlists', () => {
+  it('reports additions, removals and position changes', () => {
+    expect(compareWaitlists(['A', 'B', 'C'], ['B', 'C', 'D'])).toEqual({
+      added: [{ name: 'D', position: 3 }],
+      removed: [{ name: 'A', position: 1 }],
+      moved: [
+        { name: 'B', oldPosition: 2, newPosition: 1 },
+        { name: 'C', oldPosition: 3, newPosition: 2 }
+      ]
+    });
+  });
+
+  it('finds nothing between identical lists', () => {
+    expect(compareWaitlists(['A', 'B'], ['A', 'B'])).toEqual({ added: [], removed: [], moved: [] });
+  });
+});
+
+describe('diffWaitlistSnapshots', () => {
+  it('treats snapshots without lists as the First Class upgrade list', () => {
+    const events = diffWaitlistSnapshots(waitlist(['A', 'B']), waitlist(['B']));
+
+    expect(events).toEqual([
+      { type: 'removed', cabin: 'first', listType: 'upgrade', name: 'A', oldPosition: 1, newPosition: null },
+      { type: 'moved', cabin: 'first', listType: 'upgrade', name: 'B', oldPosition: 2, newPosition: 1 }
+    ]);
+  });
+
+  it('compares each list separately', () => {
+    const previous = waitlist(['A'], {
+      lists: [
+        { cabin: 'first', listType: 'upgrade', names: ['A'] },
+        { cabin: 'main', listType: 'standby', names: ['S'] }
+      ]
+    });
+    const current = waitlist(['A'], {
+      lists: [
+        { cabin: 'first', listType: 'upgrade', names: ['A'] },
+        { cabin: 'main', listType: 'standby', names: [] },
+        { cabin: 'premium', listType: 'upgrade', names: ['P'] }
+      ]
+    });
+
+    expect(diffWaitlistSnapshots(previous, current)).toEqual([
+      { type: 'removed', cabin: 'main', listType: 'standby', name: 'S', oldPosition: 1, newPosition: null },
+      { type: 'added', cabin: 'premium', listType: 'upgrade', name: 'P', oldPosition: null, newPosition: 1 }
+    ]);
+  });
+
+  it('records seat count changes', () => {
+    const events = diffWaitlistSnapshots(waitlist(['A']), waitlist(['A'], { available: 1, checkedIn: 9 }));
+
+    expect(events).toEqual([
+      { type: 'capacity_changed', field: 'available', oldValue: 2, newValue: 1 },
+      { type: 'capacity_changed', field: 'checkedIn', oldValue: 8, newValue: 9 }
+    ]);
+  });
+
+  it('finds nothing when only the time changed', () => {
+    expect(diffWaitlistSnapshots(waitlist(['A', 'B']), waitlist(['A', 'B']))).toEqual([]);
+  });
+});
+
+describe('comparableFromSnapshotRow', () => {
+  it('reads the compared fields back from a stored row', () => {
+    const row = {
+      waitlist_names: '["A","B"]',
+      waitlist_lists: '[{"cabin":"first","listType":"upgrade","names":["A","B"]}]',
+      first_class_capacity: 12,
+      first_class_available: 0,
+      first_class_checked_in: 10
+    };
+
+    expect(comparableFromSnapshotRow(row)).toEqual({
+      names: ['A', 'B'],
+      lists: [{ cabin: 'first', listType: 'upgrade', names: ['A', 'B'] }],
+      capacity: 12,
+      available: 0,
+      checkedIn: 10
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * IANA time zone of every airport in Alaska Airlines' network (including the
+ * Horizon and Hawaiian route maps), keyed by IATA code. Zones rather than
+ * fixed offsets, so daylight saving time and the places that skip it
+ * (Arizona, Hawaii, most of Mexico) come out right. Add new stations here
+ * when the network grows; unknown stations fall back to Seattle time.
+ */
+export const AIRPORT_TIMEZONES: Readonly<Record<string, string>> = {
+  // Alaska
+  ADQ: 'America/Anchorage', // Kodiak
+  AKN: 'America/Anchorage', // King Salmon
+  ANC: 'America/Anchorage', // Anchorage
+  BET: 'America/Anchorage', // Bethel
+  BRW: 'America/Anchorage', // Utqiagvik
+  CDV: 'America/Anchorage', // Cordova
+  DLG: 'America/Anchorage', // Dillingham
+  FAI: 'America/Anchorage', // Fairbanks
+  GST: 'America/Anchorage', // Gustavus
+  JNU: 'America/Juneau', // Juneau
+  KTN: 'America/Sitka', // Ketchikan
+  OME: 'America/Nome', // Nome
+  OTZ: 'America/Nome', // Kotzebue
+  PSG: 'America/Sitka', // Petersburg
+  SCC: 'America/Anchorage', // Deadhorse/Prudhoe Bay
+  SIT: 'America/Sitka', // Sitka
+  WRG: 'America/Sitka', // Wrangell
+  YAK: 'America/Yakutat', // Yakutat
+  ADK: 'America/Adak', // Adak
+
+  // Hawaii
+  HNL: 'Pacific/Honolulu', // Honolulu
+  ITO: 'Pacific/Honolulu', // Hilo
+  KOA: 'Pacific/Honolulu', // Kona
+  LIH: 'Pacific/Honolulu', // Lihue
+  OGG: 'Pacific/Honolulu', // Kahului
+
+  // Pacific
+  ACV: 'America/Los_Angeles', // Arcata/Eureka
+  ALW: 'America/Los_Angeles', // Walla Walla
+  BLI: 'America/Los_Angeles', // Bellingham
+  BUR: 'America/Los_Angeles', // Burbank
+  EAT: 'America/Los_Angeles', // Wenatchee
+  EUG: 'America/Los_Angeles', // Eugene
+  FAT: 'America/Los_Angeles', // Fresno
+  GEG: 'America/Los_Angeles', // Spokane
+  LAS: 'America/Los_Angeles', // Las Vegas
+  LAX: 'America/Los_Angeles', // Los Angeles
+  LGB: 'America/Los_Angeles', // Long Beach
+  LWS: 'America/Los_Angeles', // Lewiston
+  MFR: 'America/Los_Angeles', // Medford
+  MMH: 'America/Los_Angeles', // Mammoth Lakes
+  MRY: 'America/Los_Angeles', // Monterey
+  OAK: 'America/Los_Angeles', // Oakland
+  ONT: 'America/Los_Angeles', // Ontario
+  PAE: 'America/Los_Angeles', // Everett
+  PDX: 'America/Los_Angeles', // Portland
+  PSC: 'America/Los_Angeles', // Pasco
+  PSP: 'America/Los_Angeles', // Palm Springs
+  PUW: 'America/Los_Angeles', // Pullman
+  RDD: 'America/Los_Angeles', // Redding
+  RDM: 'America/Los_Angeles', // Redmond/Bend
+  RNO: 'America/Los_Angeles', // Reno
+  SAN: 'America/Los_Angeles', // San Diego
+  SBA: 'America/Los_Angeles', // Santa Barbara
+  SBP: 'America/Los_Angeles', // San Luis Obispo
+  SEA: 'America/Los_Angeles', // Seattle
+  SFO: 'America/Los_Angeles', // San Francisco
+  SJC: 'America/Los_Angeles', // San Jose
+  SMF: 'America/Los_Angeles', // Sacramento
+  SNA: 'America/Los_Angeles', // Orange County
+  STS: 'America/Los_Angeles', // Santa Rosa
+  YKM: 'America/Los_Angeles', // Yakima
+  YLW: 'America/Vancouver', // Kelowna
+  YVR: 'America/Vancouver', // Vancouver
+  YYJ: 'America/Vancouver', // Victoria
+
+  // Mountain
+  ABQ: 'America/Denver', // Albuquerque
+  BIL: 'America/Denver', // Billings
+  BOI: 'America/Boise', // Boise
+  BZN: 'America/Denver', // Bozeman
+  COS: 'America/Denver', // Colorado Springs
+  DEN: 'America/Denver', // Denver
+  ELP: 'America/Denver', // El Paso
+  FCA: 'America/Denver', // Kalispell
+  GTF: 'America/Denver', // Great Falls
+  HLN: 'America/Denver', // Helena
+  IDA: 'America/Boise', // Idaho Falls
+  JAC: 'America/Denver', // Jackson Hole
+  MSO: 'America/Denver', // Missoula
+  PHX: 'America/Phoenix', // Phoenix
+  SLC: 'America/Denver', // Salt Lake City
+  SUN: 'America/Boise', // Sun Valley
+  TUS: 'America/Phoenix', // Tucson
+  YEG: 'America/Edmonton', // Edmonton
+  YYC: 'America/Edmonton', // Calgary
+
+  // Central
+  AUS: 'America/Chicago', // Austin
+  BNA: 'America/Chicago', // Nashville
+  DAL: 'America/Chicago', // Dallas Love Field
+  DFW: 'America/Chicago', // Dallas/Fort Worth
+  IAH: 'America/Chicago', // Houston
+  MCI: 'America/Chicago', // Kansas City
+  MKE: 'America/Chicago', // Milwaukee
+  MSP: 'America/Chicago', // Minneapolis
+  MSY: 'America/Chicago', // New Orleans
+  OKC: 'America/Chicago', // Oklahoma City
+  OMA: 'America/Chicago', // Omaha
+  ORD: 'America/Chicago', // Chicago
+  SAT: 'America/Chicago', // San Antonio
+  STL: 'America/Chicago', // St. Louis
+
+  // Eastern
+  ATL: 'America/New_York', // Atlanta
+  BOS: 'America/New_York', // Boston
+  BWI: 'America/New_York', // Baltimore
+  CHS: 'America/New_York', // Charleston
+  CLT: 'America/New_York', // Charlotte
+  CMH: 'America/New_York', // Columbus
+  CVG: 'America/New_York', // Cincinnati
+  DCA: 'America/New_York', // Washington National
+  DTW: 'America/Detroit', // Detroit
+  EWR: 'America/New_York', // Newark
+  FLL: 'America/New_York', // Fort Lauderdale
+  IAD: 'America/New_York', // Washington Dulles
+  IND: 'America/Indiana/Indianapolis', // Indianapolis
+  JAX: 'America/New_York', // Jacksonville
+  JFK: 'America/New_York', // New York JFK
+  MCO: 'America/New_York', // Orlando
+  MIA: 'America/New_York', // Miami
+  PHL: 'America/New_York', // Philadelphia
+  PIT: 'America/New_York', // Pittsburgh
+  RDU: 'America/New_York', // Raleigh/Durham
+  RSW: 'America/New_York', // Fort Myers
+  TPA: 'America/New_York', // Tampa
+
+  // Mexico, Central America and the Caribbean
+  BZE: 'America/Belize', // Belize City
+  CUN: 'America/Cancun', // Cancun
+  GDL: 'America/Mexico_City', // Guadalajara
+  GUA: 'America/Guatemala', // Guatemala City
+  LAP: 'America/Mazatlan', // La Paz
+  LIR: 'America/Costa_Rica', // Liberia
+  LTO: 'America/Mazatlan', // Loreto
+  MEX: 'America/Mexico_City', // Mexico City
+  MZT: 'America/Mazatlan', // Mazatlan
+  NAS: 'America/Nassau', // Nassau
+  PVR: 'America/Bahia_Banderas', // Puerto Vallarta
+  SJD: 'America/Mazatlan', // Los Cabos
+  SJO: 'America/Costa_Rica', // San Jose, Costa Rica
+  ZIH: 'America/Mexico_City', // Ixtapa/Zihuatanejo
+  ZLO: 'America/Mexico_City', // Manzanillo
+
+  // Long haul
+  FCO: 'Europe/Rome', // Rome
+  HND: 'Asia/Tokyo', // Tokyo Haneda
+  ICN: 'Asia/Seoul', // Seoul Incheon
+  KEF: 'Atlantic/Reykjavik', // Reykjavik
+  NRT: 'Asia/Tokyo', // Tokyo Narita
+  PPT: 'Pacific/Tahiti' // Papeete
+};
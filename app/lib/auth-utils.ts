@@ -1,4 +1,4 @@
-import { Database } from './db';
+import type { Repository } from './repository';
 import { debugLog } from './server-utils';
 import bcrypt from 'bcrypt';
 
@@ -35,44 +35,33 @@ export function generateAlaskaName(firstName: string, lastName: string): string
   return `${lastNamePrefix}/${firstInitial}`;
 }
 
-export async function createUser(db: Database, params: CreateUserParams): Promise<User | null> {
-  if (!db.isDbAvailable || !db.db) {
-    throw new Error('Database not available');
-  }
-
+export async function createUser(repository: Repository, params: CreateUserParams): Promise<User | null> {
   try {
     const passwordHash = await hashPassword(params.password);
     
-    const result = await db.db.run(`
-      INSERT INTO users 
-      (username, password_hash, first_name, last_name, status_level)
-      VALUES (?, ?, ?, ?, ?)
-    `, [
-      params.username,
-      passwordHash,
-      params.first_name,
-      params.last_name,
-      params.status_level
-    ]);
-
-    if (result.lastID) {
-      const user = await db.db.get<User>('SELECT id, username, first_name, last_name, status_level, created_at FROM users WHERE id = ?', [result.lastID]);
-      return user || null;
+    const user = await repository.users.create({
+      username: params.username,
+      password_hash: passwordHash,
+      first_name: params.first_name,
+      last_name: params.last_name,
+      status_level: params.status_level
+    });
+    if (!user) {
+      return null;
     }
-    return null;
+
+    // Don't return the password hash
+    const { password_hash, ...userWithoutPassword } = user;
+    return userWithoutPassword;
   } catch (error) {
     debugLog('Error creating user: ' + (error instanceof Error ? error.message : 'Unknown error'));
     throw error;
   }
 }
 
-export async function verifyUser(db: Database, username: string, password: string): Promise<User | null> {
-  if (!db.isDbAvailable || !db.db) {
-    throw new Error('Database not available');
-  }
-
+export async function verifyUser(repository: Repository, username: string, password: string): Promise<User | null> {
   try {
-    const user = await db.db.get<User & { password_hash: string }>('SELECT * FROM users WHERE username = ?', [username]);
+    const user = await repository.users.getByUsername(username);
     
     if (!user) {
       return null;
@@ -92,21 +81,17 @@ export async function verifyUser(db: Database, username: string, password: strin
   }
 }
 
-export async function getUserByUsername(db: Database, username: string): Promise<User | null> {
-  if (!db.isDbAvailable || !db.db) {
-    throw new Error('Database not available');
-  }
-
+export async function getUserByUsername(repository: Repository, username: string): Promise<User | null> {
   try {
-    const user = await db.db.get<User>(`
-      SELECT id, username, first_name, last_name, status_level, created_at 
-      FROM users 
-      WHERE username = ?
-    `, [username]);
-    
-    return user || null;
+    const user = await repository.users.getByUsername(username);
+    if (!user) {
+      return null;
+    }
+
+    const { password_hash, ...userWithoutPassword } = user;
+    return userWithoutPassword;
   } catch (error) {
     debugLog('Error getting user: ' + (error instanceof Error ? error.message : 'Unknown error'));
     throw error;
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
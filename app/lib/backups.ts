@@ -0,0 +1,199 @@
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import fs from 'fs';
+import path from 'path';
+import { maintenanceStore } from './operational-store';
+import { DB_BACKUP_DIR } from './migrations';
+import { debugLog } from './server-utils';
+
+/**
+ * Online backups of the tracker database through SQLite's backup API, which
+ * copies a consistent image page by page while the app keeps reading and
+ * writing. Scheduled backups are written to DB_BACKUP_DIR every
+ * DB_BACKUP_INTERVAL_HOURS (0 disables them) and only the newest
+ * DB_BACKUP_KEEP are kept. Backups taken before migrations or restores have
+ * their own names and are never rotated away. With STORAGE_BACKEND=memory
+ * the database only holds the scrape queue and archive, so backing it up or
+ * restoring it is refused.
+ */
+
+const BACKUP_INTERVAL_HOURS = parseInt(process.env.DB_BACKUP_INTERVAL_HOURS || '24');
+const BACKUP_KEEP = parseInt(process.env.DB_BACKUP_KEEP || '7');
+// Pages copied per step; the database stays writable between steps
+const PAGES_PER_STEP = 256;
+
+const SCHEDULED_BACKUP_PATTERN = /^alaska_waitlist-\d{4}-\d{2}-\d{2}T[\d-]+Z\.db$/;
+
+// The backup API is in sqlite3 but missing from its type definitions
+interface SqliteBackup {
+  step(pages: number, callback: (error: Error | null) => void): void;
+  finish(callback?: (error: Error | null) => void): void;
+  completed: boolean;
+  failed: boolean;
+}
+
+interface BackupCapableDatabase {
+  backup(
+    filename: string,
+    destName: string,
+    sourceName: string,
+    filenameIsDest: boolean,
+    callback: (error: Error | null) => void
+  ): SqliteBackup;
+}
+
+export interface BackupFile {
+  file: string;
+  path: string;
+  size: number;
+  created_at: Date;
+  scheduled: boolean;
+}
+
+let backingUp: Promise<string> | null = null;
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function requireSqliteBackend(): void {
+  if (process.env.STORAGE_BACKEND === 'memory') {
+    throw new Error('Backups need the sqlite storage backend; STORAGE_BACKEND=memory keeps flights and snapshots out of the database');
+  }
+}
+
+/**
+ * Copies between the open database and `filename`: into the file when
+ * `toFile` is true, otherwise from the file into the open database.
+ */
+async function copyWithBackupApi(filename: string, toFile: boolean): Promise<void> {
+  requireSqliteBackend();
+  const backup = await maintenanceStore.withConnection(database => {
+    const connection = database.getDatabaseInstance() as unknown as BackupCapableDatabase;
+    return new Promise<SqliteBackup>((resolve, reject) => {
+      const created = connection.backup(filename, 'main', 'main', toFile, error => error ? reject(error) : resolve(created));
+    });
+  });
+
+  try {
+    while (!backup.completed && !backup.failed) {
+      await new Promise<void>((resolve, reject) => {
+        backup.step(PAGES_PER_STEP, error => error ? reject(error) : resolve());
+      });
+    }
+    if (backup.failed) {
+      throw new Error(`Backup ${toFile ? 'to' : 'from'} ${filename} failed`);
+    }
+  } finally {
+    backup.finish();
+  }
+}
+
+/**
+ * Writes an online backup of the database and returns its path. Without a
+ * destination it goes to DB_BACKUP_DIR and older scheduled backups beyond
+ * DB_BACKUP_KEEP are deleted.
+ */
+export async function backupDatabase(destination?: string): Promise<string> {
+  const backupPath = destination
+    ? path.resolve(destination)
+    : path.join(DB_BACKUP_DIR, `alaska_waitlist-${timestamp()}.db`);
+  if (fs.existsSync(backupPath)) {
+    throw new Error(`${backupPath} already exists`);
+  }
+
+  fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+  await copyWithBackupApi(backupPath, true);
+  debugLog(`Backed up database to ${backupPath}`, 'info');
+
+  if (!destination) {
+    rotateBackups();
+  }
+  return backupPath;
+}
+
+export function listBackups(): BackupFile[] {
+  if (!fs.existsSync(DB_BACKUP_DIR)) return [];
+
+  return fs.readdirSync(DB_BACKUP_DIR)
+    .filter(file => file.endsWith('.db'))
+    .map(file => {
+      const stats = fs.statSync(path.join(DB_BACKUP_DIR, file));
+      return {
+        file,
+        path: path.join(DB_BACKUP_DIR, file),
+        size: stats.size,
+        created_at: stats.mtime,
+        scheduled: SCHEDULED_BACKUP_PATTERN.test(file)
+      };
+    })
+    .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+}
+
+function rotateBackups(): void {
+  const expired = listBackups().filter(backup => backup.scheduled).slice(Math.max(BACKUP_KEEP, 1));
+  for (const backup of expired) {
+    fs.rmSync(backup.path, { force: true });
+    debugLog(`Removed old backup ${backup.file}`);
+  }
+}
+
+/**
+ * Takes a scheduled backup in the background if the newest one is older
+ * than DB_BACKUP_INTERVAL_HOURS. The check uses the files on disk, so a
+ * restarted server doesn't back up again right away.
+ */
+export function backupDatabasePeriodically(): void {
+  // The memory backend is ephemeral by design
+  if (BACKUP_INTERVAL_HOURS <= 0 || backingUp || process.env.STORAGE_BACKEND === 'memory') return;
+
+  const [latest] = listBackups().filter(backup => backup.scheduled);
+  if (latest && Date.now() - latest.created_at.getTime() < BACKUP_INTERVAL_HOURS * 60 * 60 * 1000) return;
+
+  backingUp = backupDatabase()
+    .catch(error => {
+      debugLog('Error backing up database: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+      return '';
+    })
+    .finally(() => {
+      backingUp = null;
+    });
+}
+
+/**
+ * Replaces the database's contents with a backup. The backup is checked
+ * first and the current database is saved to DB_BACKUP_DIR, so a restore
+ * can itself be undone. A backup from an older schema is migrated
+ * afterwards. Returns the path of the safety copy.
+ */
+export async function restoreDatabase(source: string): Promise<string> {
+  requireSqliteBackend();
+  const sourcePath = path.resolve(source);
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`${sourcePath} does not exist`);
+  }
+  if (!maintenanceStore.isDbAvailable) {
+    throw new Error('Database is not available');
+  }
+
+  const backup = await open({ filename: sourcePath, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+  try {
+    const integrity = await backup.get<{ integrity_check: string }>('PRAGMA integrity_check');
+    if (integrity?.integrity_check !== 'ok') {
+      throw new Error(`${sourcePath} failed the integrity check: ${integrity?.integrity_check}`);
+    }
+    const flights = await backup.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'flights'");
+    if (!flights) {
+      throw new Error(`${sourcePath} is not a tracker database`);
+    }
+  } finally {
+    await backup.close();
+  }
+
+  const safetyCopy = await backupDatabase(path.join(DB_BACKUP_DIR, `alaska_waitlist-pre-restore-${timestamp()}.db`));
+  await copyWithBackupApi(sourcePath, false);
+  debugLog(`Restored database from ${sourcePath}`, 'info');
+
+  await maintenanceStore.migrate();
+  return safetyCopy;
+}
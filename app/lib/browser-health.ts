@@ -0,0 +1,255 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Browser } from 'puppeteer';
+import { getRunningBrowsers, getPagePoolStats, restartBrowser, PagePoolStats } from './browser-utils';
+import { debugLog } from './server-utils';
+import { logger } from './logger';
+
+/**
+ * Periodic health probes for the scraper's Chromium processes, one per
+ * browser profile in use. A browser whose process is alive can still be hung
+ * or leaking, so every probe counts each browser's open tabs, sums the memory
+ * of its process tree and times a trivial script on a blank page. After
+ * BROWSER_HEALTH_FAILURES unhealthy probes in a row the browsers are drained
+ * and relaunched through the page pool.
+ */
+
+const execAsync = promisify(exec);
+
+const PROBE_INTERVAL_MS = parseInt(process.env.BROWSER_HEALTH_INTERVAL_MS || '60000');
+const PROBE_TIMEOUT_MS = parseInt(process.env.BROWSER_HEALTH_PROBE_TIMEOUT_MS || '10000');
+const MAX_TABS = parseInt(process.env.BROWSER_HEALTH_MAX_TABS || '10');
+const MAX_RSS_MB = parseInt(process.env.BROWSER_HEALTH_MAX_RSS_MB || '700');
+const FAILURES_BEFORE_RESTART = parseInt(process.env.BROWSER_HEALTH_FAILURES || '2');
+
+export type BrowserHealthStatus = 'healthy' | 'unhealthy' | 'restarting' | 'not_running';
+
+export interface BrowserHealth {
+  status: BrowserHealthStatus;
+  checkedAt: Date | null;
+  tabs: number | null;
+  rssMb: number | null;
+  responseMs: number | null;
+  problems: string[];
+  consecutiveFailures: number;
+  restarts: number;
+  lastRestartAt: Date | null;
+  lastRestartReason: string | null;
+  pool: PagePoolStats;
+}
+
+interface ProbeResult {
+  tabs: number | null;
+  rssMb: number | null;
+  responseMs: number | null;
+  problems: string[];
+}
+
+let monitorTimer: NodeJS.Timeout | null = null;
+let probing: Promise<BrowserHealth> | null = null;
+let restarting = false;
+let lastProbe: ProbeResult & { status: BrowserHealthStatus; checkedAt: Date | null } = {
+  status: 'not_running',
+  checkedAt: null,
+  tabs: null,
+  rssMb: null,
+  responseMs: null,
+  problems: []
+};
+let consecutiveFailures = 0;
+let restarts = 0;
+let lastRestartAt: Date | null = null;
+let lastRestartReason: string | null = null;
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms}ms`)), ms);
+    })
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Resident memory of a process and all of its descendants, in MB. Chromium
+ * runs renderers, the GPU process etc. as children of the browser process.
+ */
+async function getProcessTreeRssMb(rootPid: number): Promise<number> {
+  const { stdout } = await execAsync('ps -axo pid=,ppid=,rss=');
+  const children = new Map<number, number[]>();
+  const rss = new Map<number, number>();
+
+  for (const line of stdout.trim().split('\n')) {
+    const [pid, ppid, kb] = line.trim().split(/\s+/).map(Number);
+    rss.set(pid, kb);
+    children.set(ppid, [...(children.get(ppid) || []), pid]);
+  }
+
+  let totalKb = 0;
+  const pending = [rootPid];
+  while (pending.length) {
+    const pid = pending.pop()!;
+    totalKb += rss.get(pid) || 0;
+    pending.push(...(children.get(pid) || []));
+  }
+  return Math.round(totalKb / 1024);
+}
+
+async function probeBrowser(browser: Browser): Promise<ProbeResult> {
+  const result: ProbeResult = { tabs: null, rssMb: null, responseMs: null, problems: [] };
+
+  try {
+    result.tabs = (await withTimeout(browser.pages(), PROBE_TIMEOUT_MS, 'Listing tabs')).length;
+    if (result.tabs > MAX_TABS) {
+      result.problems.push(`${result.tabs} tabs open (limit ${MAX_TABS})`);
+    }
+  } catch (error) {
+    result.problems.push(error instanceof Error ? error.message : 'Could not list tabs');
+  }
+
+  const pid = browser.process()?.pid;
+  if (pid) {
+    try {
+      result.rssMb = await getProcessTreeRssMb(pid);
+      if (result.rssMb > MAX_RSS_MB) {
+        result.problems.push(`Using ${result.rssMb}MB (limit ${MAX_RSS_MB}MB)`);
+      }
+    } catch (error) {
+      debugLog('Could not read browser memory: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  const startedAt = Date.now();
+  const page = await withTimeout(browser.newPage(), PROBE_TIMEOUT_MS, 'Opening a blank page').catch(error => {
+    result.problems.push(error instanceof Error ? error.message : 'Could not open a page');
+    return null;
+  });
+  if (page) {
+    try {
+      await withTimeout(page.evaluate(() => 1 + 1), PROBE_TIMEOUT_MS, 'Blank page script');
+      result.responseMs = Date.now() - startedAt;
+    } catch (error) {
+      result.problems.push(error instanceof Error ? error.message : 'Blank page did not respond');
+    } finally {
+      page.close().catch(() => {});
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Probes every running browser; tabs and memory are totals, the response
+ * time is the slowest browser's.
+ */
+async function probe(): Promise<ProbeResult | null> {
+  const browsers = getRunningBrowsers();
+  if (!browsers.length) return null;
+
+  const total: ProbeResult = { tabs: null, rssMb: null, responseMs: null, problems: [] };
+  const add = (sum: number | null, value: number | null) => value === null ? sum : (sum || 0) + value;
+  for (const { profile, browser } of browsers) {
+    const result = await probeBrowser(browser);
+    total.tabs = add(total.tabs, result.tabs);
+    total.rssMb = add(total.rssMb, result.rssMb);
+    if (result.responseMs !== null) {
+      total.responseMs = Math.max(total.responseMs || 0, result.responseMs);
+    }
+    total.problems.push(...result.problems.map(problem => `${profile}: ${problem}`));
+  }
+  return total;
+}
+
+/**
+ * Probes the browsers now and starts a restart if they have been unhealthy
+ * for BROWSER_HEALTH_FAILURES probes in a row. While the pool is draining or
+ * relaunching there is nothing to probe, so this returns the current state
+ * at once instead of waiting up to the drain timeout.
+ */
+export function checkBrowserHealth(): Promise<BrowserHealth> {
+  const health = getBrowserHealth();
+  if (health.status === 'restarting') {
+    return Promise.resolve(health);
+  }
+  if (!probing) {
+    probing = runCheck().finally(() => {
+      probing = null;
+    });
+  }
+  return probing;
+}
+
+async function runCheck(): Promise<BrowserHealth> {
+  const result = await probe();
+  if (!result) {
+    consecutiveFailures = 0;
+    lastProbe = { status: 'not_running', checkedAt: new Date(), tabs: null, rssMb: null, responseMs: null, problems: [] };
+    return getBrowserHealth();
+  }
+
+  const healthy = result.problems.length === 0;
+  consecutiveFailures = healthy ? 0 : consecutiveFailures + 1;
+  lastProbe = { ...result, status: healthy ? 'healthy' : 'unhealthy', checkedAt: new Date() };
+
+  if (!healthy) {
+    debugLog(`Browser health probe failed (${consecutiveFailures}/${FAILURES_BEFORE_RESTART}): ${result.problems.join('; ')}`, 'error');
+    if (consecutiveFailures >= FAILURES_BEFORE_RESTART) {
+      // Reported as 'restarting' until the pool has drained and relaunched
+      restart(result.problems.join('; ')).catch(error => {
+        debugLog('Error restarting browser: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+      });
+    }
+  }
+
+  return getBrowserHealth();
+}
+
+async function restart(reason: string): Promise<void> {
+  restarting = true;
+  restarts++;
+  lastRestartAt = new Date();
+  lastRestartReason = reason;
+  logger.log(`Restarting unhealthy browser: ${reason}`, 'error');
+
+  try {
+    await restartBrowser(`unhealthy: ${reason}`);
+    consecutiveFailures = 0;
+  } finally {
+    restarting = false;
+  }
+}
+
+export function getBrowserHealth(): BrowserHealth {
+  const pool = getPagePoolStats();
+  return {
+    ...lastProbe,
+    // The pool also recycles the browsers on its own after RECYCLE_AFTER_NAVIGATIONS
+    status: restarting || pool.recyclePending ? 'restarting' : lastProbe.status,
+    consecutiveFailures,
+    restarts,
+    lastRestartAt,
+    lastRestartReason,
+    pool
+  };
+}
+
+export function startBrowserHealthMonitor(): void {
+  if (monitorTimer) return;
+
+  monitorTimer = setInterval(() => {
+    checkBrowserHealth().catch(error => {
+      debugLog('Error checking browser health: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    });
+  }, PROBE_INTERVAL_MS);
+  // Don't keep scripts alive just for the monitor
+  monitorTimer.unref();
+  debugLog(`Browser health monitor started, probing every ${PROBE_INTERVAL_MS / 1000}s`);
+}
+
+export function stopBrowserHealthMonitor(): void {
+  if (monitorTimer) {
+    clearInterval(monitorTimer);
+    monitorTimer = null;
+  }
+}
@@ -0,0 +1,156 @@
+import path from 'path';
+import type { Page } from 'puppeteer';
+import { operationalStore } from './operational-store';
+import type { BrowserProfileRecord } from './db';
+import { debugLog } from './server-utils';
+
+/**
+ * Managed browser profiles. A profile is a persistent identity for scraping:
+ * a stable fingerprint (user agent, viewport, locale, timezone) stored in the
+ * browser_profiles table and its own Chrome user-data directory, so cookies
+ * and storage survive restarts and a profile that has passed verification
+ * keeps looking like the same returning visitor.
+ *
+ * Profiles that hit verification are rotated out of use, and retired after
+ * repeated failures; a fresh profile is generated to take their place.
+ */
+
+export interface BrowserFingerprint {
+  userAgent: string;
+  viewport: { width: number; height: number };
+  locale: string;
+  timezone: string;
+}
+
+export interface BrowserProfile {
+  id: number;
+  name: string;
+  // Chrome user-data directory the profile's browser is launched with
+  dir: string;
+  fingerprint: BrowserFingerprint;
+}
+
+export type ProfileOutcome = 'success' | 'verification_failed' | 'error';
+
+const PROFILE_ROOT = path.resolve(process.cwd(), process.env.BROWSER_PROFILE_DIR || 'browser-profiles');
+const PROFILE_POOL_SIZE = parseInt(process.env.BROWSER_PROFILE_COUNT || '3');
+const RETIRE_AFTER_FAILURES = parseInt(process.env.BROWSER_PROFILE_RETIRE_AFTER || '3');
+const COOKIE_ORIGIN = 'https://www.alaskaair.com';
+
+const VIEWPORTS = [
+  { width: 1280, height: 800 },
+  { width: 1440, height: 900 },
+  { width: 1536, height: 864 },
+  { width: 1920, height: 1080 }
+];
+const TIMEZONES = ['America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York'];
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/**
+ * A random but internally consistent fingerprint. chromeVersion should be the
+ * version of the browser that will use it so the UA doesn't contradict the
+ * browser's actual behaviour.
+ */
+export function generateFingerprint(chromeVersion: string): BrowserFingerprint {
+  const osVersion = `10_15_${Math.floor(Math.random() * 8)}`;
+  return {
+    userAgent: `Mozilla/5.0 (Macintosh; Intel Mac OS X ${osVersion}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${chromeVersion} Safari/537.36`,
+    viewport: pick(VIEWPORTS),
+    locale: 'en-US',
+    timezone: pick(TIMEZONES)
+  };
+}
+
+function toProfile(record: BrowserProfileRecord): BrowserProfile {
+  return {
+    id: record.id,
+    name: record.name,
+    dir: path.join(PROFILE_ROOT, record.name),
+    fingerprint: JSON.parse(record.fingerprint)
+  };
+}
+
+async function createProfile(name: string, chromeVersion: string): Promise<BrowserProfile> {
+  const record = await operationalStore.createBrowserProfile(name, JSON.stringify(generateFingerprint(chromeVersion)));
+  if (!record) {
+    throw new Error(`Failed to create browser profile ${name}`);
+  }
+  debugLog(`Created browser profile ${name}`);
+  return toProfile(record);
+}
+
+/**
+ * Chooses the profile for a scrape. A requested name (or BROWSER_PROFILE)
+ * pins that profile, creating it if needed; a retired profile is refused
+ * rather than sent back to the site that flagged it. Otherwise the healthiest
+ * active profile is used, topping the pool up to BROWSER_PROFILE_COUNT first.
+ */
+export async function selectProfile(chromeVersion: string, requested?: string): Promise<BrowserProfile> {
+  const pinned = requested || process.env.BROWSER_PROFILE;
+  if (pinned) {
+    // The name is also the profile's directory name
+    if (!/^[A-Za-z0-9_-]+$/.test(pinned)) {
+      throw new Error(`Invalid browser profile name: ${pinned}`);
+    }
+    const existing = await operationalStore.getBrowserProfile(pinned);
+    if (existing?.retired_at) {
+      throw new Error(`Browser profile ${pinned} was retired (${existing.retire_reason || 'no reason recorded'}); pin another profile`);
+    }
+    return existing ? toProfile(existing) : createProfile(pinned, chromeVersion);
+  }
+
+  let active = await operationalStore.getActiveBrowserProfiles();
+  if (active.length < PROFILE_POOL_SIZE) {
+    for (let i = active.length; i < PROFILE_POOL_SIZE; i++) {
+      await createProfile(`profile-${Date.now().toString(36)}-${i}`, chromeVersion);
+    }
+    active = await operationalStore.getActiveBrowserProfiles();
+  }
+
+  // Profiles that just failed verification go to the back; then best success rate wins
+  const [best] = active.sort((a, b) =>
+    a.consecutive_failures - b.consecutive_failures ||
+    (b.successes + 1) / (b.successes + b.failures + 2) - (a.successes + 1) / (a.successes + a.failures + 2)
+  );
+  if (!best) {
+    throw new Error('No browser profile available');
+  }
+  return toProfile(best);
+}
+
+/**
+ * Records how a scrape with the profile went. After
+ * BROWSER_PROFILE_RETIRE_AFTER verification failures in a row the profile is
+ * retired; the caller clears its cookies on each one (see clearPageCookies).
+ */
+export async function recordProfileOutcome(profile: BrowserProfile, outcome: ProfileOutcome): Promise<void> {
+  try {
+    await operationalStore.recordBrowserProfileOutcome(profile.id, outcome);
+
+    if (outcome === 'verification_failed') {
+      const record = await operationalStore.getBrowserProfile(profile.name);
+      if (record && !record.retired_at && record.consecutive_failures >= RETIRE_AFTER_FAILURES) {
+        await operationalStore.retireBrowserProfile(profile.id, `${record.consecutive_failures} consecutive verification failures`);
+        debugLog(`Retired browser profile ${profile.name} after ${record.consecutive_failures} consecutive verification failures`, 'error');
+      } else {
+        debugLog(`Browser profile ${profile.name} failed verification, rotating to another profile`);
+      }
+    }
+  } catch (error) {
+    debugLog('Error recording browser profile outcome: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+  }
+}
+
+/**
+ * Deletes the site's cookies from the page's browser, and with them from the
+ * profile's user-data directory.
+ */
+export async function clearPageCookies(page: Page): Promise<void> {
+  const cookies = await page.cookies(COOKIE_ORIGIN);
+  if (cookies.length) {
+    await page.deleteCookie(...cookies);
+  }
+}
@@ -1,71 +1,32 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { debugLog } from './server-utils';
 import { exec } from 'child_process';
-import { captureVerificationProcess } from './screenshot-utils';
+import type { BrowserProfile } from './browser-profiles';
+import { selectProxy, ProxyAssignment } from './proxies';
+
+// One browser per profile, launched on the profile's user-data dir so its
+// cookies and storage persist between runs
+const profileBrowsers = new Map<string, Browser>();
+const browserLaunches = new Map<string, Promise<Browser>>();
+// The proxy each browser was launched with (Chrome only takes it at launch)
+const browserProxies = new WeakMap<Browser, ProxyAssignment | null>();
+// Version of the Chrome executable as of the latest launch
+let chromeVersion: string | null = null;
 
-let browserInstance: Browser | null = null;
-let browserInitPromise: Promise<Browser> | null = null;
 const MAX_RETRIES = 3;
 
-interface BrowserConfig {
-  viewport: {
-    width: number;
-    height: number;
-  };
-  userAgent: string;
-  args: string[];
-}
+// Page pool limits, see PagePool below
+const MAX_CONCURRENT_PAGES = parseInt(process.env.BROWSER_MAX_PAGES || '3');
+const PAGE_ACQUIRE_TIMEOUT = parseInt(process.env.BROWSER_PAGE_TIMEOUT_MS || '90000');
+const RECYCLE_AFTER_NAVIGATIONS = parseInt(process.env.BROWSER_RECYCLE_AFTER || '100');
+const DRAIN_TIMEOUT = parseInt(process.env.BROWSER_DRAIN_TIMEOUT_MS || '60000');
 
-function getRandomBrowserConfig(): BrowserConfig {
-  const screenWidth = 1920;
-  const screenHeight = 1080;
-  const osVersion = 10 + Math.floor(Math.random() * 3);
-  const chromeVersion = 110 + Math.floor(Math.random() * 10);
-  const userAgent = `Mozilla/5.0 (Macintosh; Intel Mac OS X ${osVersion}_${Math.floor(Math.random() * 9)}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${chromeVersion}.0.0.0 Safari/537.36`;
-  
-  return {
-    viewport: { width: screenWidth, height: screenHeight },
-    userAgent,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-web-security',
-      '--disable-features=IsolateOrigins',
-      '--disable-site-isolation-trials',
-      '--disable-features=BlockInsecurePrivateNetworkRequests',
-      `--window-size=${screenWidth},${screenHeight}`,
-      '--disable-dev-shm-usage',
-      '--disable-gpu',
-      '--no-first-run',
-      '--no-default-browser-check',
-      '--disable-infobars',
-      '--disable-notifications',
-      `--user-agent=${userAgent}`,
-      '--disable-extensions',
-      '--disable-component-extensions-with-background-pages',
-      '--disable-default-apps',
-      '--enable-features=NetworkService,NetworkServiceInProcess',
-      '--disable-background-timer-throttling',
-      '--disable-backgrounding-occluded-windows',
-      '--disable-breakpad',
-      '--disable-component-update',
-      '--disable-domain-reliability',
-      '--disable-sync',
-      '--force-color-profile=srgb',
-      '--metrics-recording-only',
-      '--disable-features=TranslateUI',
-      '--disable-renderer-backgrounding',
-      '--disable-background-networking',
-      '--disable-ipc-flooding-protection',
-      '--enable-automation',
-      '--password-store=basic',
-      '--use-mock-keychain',
-      '--disable-blink-features=AutomationControlled'
-    ]
-  };
+interface ChromeExecutable {
+  path: string;
+  version: string;
 }
 
-async function findChromeExecutable(): Promise<string | undefined> {
+async function findChromeExecutable(): Promise<ChromeExecutable | undefined> {
   const possiblePaths = [
     '/usr/bin/google-chrome',
     '/usr/bin/chromium',
@@ -75,14 +36,15 @@ async function findChromeExecutable(): Promise<string | undefined> {
 
   for (const path of possiblePaths) {
     try {
-      await new Promise<void>((resolve, reject) => {
-        exec(`${path} --version`, (error) => {
+      const output = await new Promise<string>((resolve, reject) => {
+        exec(`${path} --version`, (error, stdout) => {
           if (error) reject(error);
-          else resolve();
+          else resolve(String(stdout));
         });
       });
       debugLog(`Found Chrome executable at: ${path}`);
-      return path;
+      // e.g. "Google Chrome 131.0.6778.204"
+      return { path, version: output.match(/\d+(?:\.\d+)+/)?.[0] || '' };
     } catch (e) {
       continue;
     }
@@ -90,60 +52,33 @@ async function findChromeExecutable(): Promise<string | undefined> {
   return undefined;
 }
 
-async function testChromeExecution(): Promise<void> {
-  const execPath = await findChromeExecutable();
-  return new Promise((resolve, reject) => {
-    exec(`${execPath} --version`, (error, stdout, stderr) => {
-      debugLog(`Chrome version test output: ${stdout}`);
-      if (stderr) debugLog(`Chrome stderr: ${stderr}`);
-      if (error) {
-        debugLog(`Chrome execution error: ${error.message}`);
-        reject(error);
-      } else {
-        resolve();
-      }
-    });
-  });
-}
-
-async function testBrowserConnection(browser: Browser): Promise<void> {
-  const page = await browser.newPage();
-  try {
-    debugLog('Testing browser connection...');
-    await page.setDefaultNavigationTimeout(90000);
-    await page.setDefaultTimeout(90000);
-    await page.goto('https://www.google.com', {
-      waitUntil: 'domcontentloaded',
-      timeout: 60000
-    });
-    debugLog('Browser connection test successful');
-  } catch (error) {
-    debugLog(`Browser connection test failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    throw error;
-  } finally {
-    await page.close().catch(() => {});
+async function closeBrowser(profileName: string): Promise<void> {
+  const browser = profileBrowsers.get(profileName);
+  profileBrowsers.delete(profileName);
+  if (browser) {
+    await browser.close().catch(() => {});
   }
 }
 
-export async function initBrowser(): Promise<Browser> {
-  debugLog('Starting browser initialization...');
-  
-  // Clean up existing browser
-  if (browserInstance) {
-    await browserInstance.close().catch(() => {});
-    browserInstance = null;
-  }
+async function initBrowser(profile: BrowserProfile): Promise<Browser> {
+  debugLog(`Starting browser for profile ${profile.name}...`);
+
+  // Chrome locks the user-data dir, so a dead browser of this profile must be gone first
+  await closeBrowser(profile.name);
 
-  const execPath = await findChromeExecutable();
-  if (!execPath) {
+  const chrome = await findChromeExecutable();
+  if (!chrome) {
     throw new Error('Chrome executable not found');
   }
+  chromeVersion = chrome.version;
+  const proxy = await selectProxy();
 
-  debugLog(`Launching browser with executable: ${execPath}`);
+  debugLog(`Launching browser with executable: ${chrome.path}${proxy ? ` via ${proxy.server}` : ''}`);
 
   const browser = await puppeteer.launch({
     headless: true,
-    executablePath: execPath,
+    executablePath: chrome.path,
+    userDataDir: profile.dir,
     args: [
       '--no-sandbox',
       '--disable-setuid-sandbox',
@@ -152,7 +87,8 @@ export async function initBrowser(): Promise<Browser> {
       '--disable-software-rasterizer',
       '--headless',
       '--hide-scrollbars',
-      '--mute-audio'
+      '--mute-audio',
+      ...(proxy ? [`--proxy-server=${proxy.server}`] : [])
     ],
     defaultViewport: {
       width: 1280,
@@ -161,41 +97,97 @@ export async function initBrowser(): Promise<Browser> {
     timeout: 30000
   });
 
-  browserInstance = browser;
+  browserProxies.set(browser, proxy);
+  profileBrowsers.set(profile.name, browser);
   return browser;
 }
 
-export async function getBrowser(): Promise<Browser> {
-  if (browserInstance && browserInstance.process() !== null) {
-    return browserInstance;
+/**
+ * Launches a browser for the profile in place of its current one. Every
+ * launch goes through here, so callers that arrive while one is starting
+ * share it instead of starting (and closing) another.
+ */
+function launchBrowser(profile: BrowserProfile): Promise<Browser> {
+  let launch = browserLaunches.get(profile.name);
+  if (!launch) {
+    launch = initBrowser(profile).finally(() => {
+      browserLaunches.delete(profile.name);
+    });
+    browserLaunches.set(profile.name, launch);
   }
+  return launch;
+}
 
-  // If there's already a browser initialization in progress, wait for it
-  if (browserInitPromise) {
-    return browserInitPromise;
+function isRunning(browser: Browser | undefined): browser is Browser {
+  return !!browser && browser.process() !== null && browser.connected;
+}
+
+export async function getBrowser(profile: BrowserProfile): Promise<Browser> {
+  // A launch in progress replaces the current browser, so wait for it
+  const launch = browserLaunches.get(profile.name);
+  if (launch) {
+    return launch;
   }
 
-  // Start new browser initialization
-  browserInitPromise = initBrowser().finally(() => {
-    browserInitPromise = null;
-  });
+  const browser = profileBrowsers.get(profile.name);
+  if (isRunning(browser)) {
+    return browser;
+  }
+
+  return launchBrowser(profile);
+}
 
-  return browserInitPromise;
+/**
+ * The running browsers by profile; unlike getBrowser() this never launches one.
+ */
+export function getRunningBrowsers(): { profile: string; browser: Browser }[] {
+  return Array.from(profileBrowsers, ([profile, browser]) => ({ profile, browser }))
+    .filter(({ browser }) => browser.connected);
+}
+
+/**
+ * Version of Chrome, e.g. "131.0.6778.204": the one the latest browser was
+ * launched with, or the installed one if none has been. Never launches a
+ * browser.
+ */
+export async function getChromeVersion(): Promise<string> {
+  if (chromeVersion === null) {
+    const chrome = await findChromeExecutable();
+    if (!chrome) {
+      throw new Error('Chrome executable not found');
+    }
+    chromeVersion = chrome.version;
+  }
+  return chromeVersion;
 }
 
-export async function createPage(): Promise<Page> {
+/**
+ * The proxy the page's browser goes out through, or null for a direct connection.
+ */
+export function getPageProxy(page: Page): ProxyAssignment | null {
+  return browserProxies.get(page.browser()) || null;
+}
+
+export async function createPage(profile: BrowserProfile): Promise<Page> {
   let retryCount = 0;
   let lastError: Error | null = null;
 
   while (retryCount < MAX_RETRIES) {
     try {
-      const browser = await getBrowser();
+      const browser = await getBrowser(profile);
       const page = await browser.newPage();
+
+      const proxy = browserProxies.get(browser);
+      if (proxy?.username) {
+        await page.authenticate({ username: proxy.username, password: proxy.password || '' });
+      }
       
-      // Set viewport and user agent
-      const config = getRandomBrowserConfig();
-      await page.setViewport(config.viewport);
-      await page.setUserAgent(config.userAgent);
+      // Apply the profile's fingerprint
+      const { fingerprint } = profile;
+      await page.setViewport(fingerprint.viewport);
+      await page.setUserAgent(fingerprint.userAgent);
+      await page.emulateTimezone(fingerprint.timezone);
+      await page.setExtraHTTPHeaders({ 'Accept-Language': `${fingerprint.locale},en;q=0.9` });
 
       // Enable request interception
       await page.setRequestInterception(true);
@@ -237,113 +229,282 @@ export async function createPage(): Promise<Page> {
   throw new Error('Failed to create page after all retries');
 }
 
-export async function needsVerification(page: Page): Promise<boolean> {
-  try {
-    // Quick check for waitlist container
-    const hasWaitlist = await page.$('.waitlist-text-container.svelte-fawh78')
-      .then(element => !!element)
-      .catch(() => false);
-    
-    if (hasWaitlist) {
-      return false;
+interface PageWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface PagePoolStats {
+  maxPages: number;
+  active: number;
+  idle: number;
+  waiting: number;
+  navigationsSinceLaunch: number;
+  recyclePending: boolean;
+}
+
+/**
+ * Hands out pages on the profiles' browsers with a cap on how many are open
+ * at once. Callers beyond the cap wait in FIFO order until a page is released
+ * or their timeout expires. Released pages are reset to about:blank and
+ * reused only for the same profile. A browser is closed once its pages are
+ * back after one was discarded, so the next launch starts clean and picks a
+ * proxy again, and idle browsers of other profiles are closed before a
+ * profile's browser is launched. After RECYCLE_AFTER_NAVIGATIONS checkouts,
+ * or when requestRecycle is called, the pool stops handing out pages and
+ * closes every browser once every page is back or the drain timeout expires;
+ * the next checkout launches a fresh one.
+ */
+class PagePool {
+  private idle: { page: Page; profile: string }[] = [];
+  private pageProfiles = new WeakMap<Page, string>();
+  private active = 0;
+  // Pages checked out per profile
+  private pagesOut = new Map<string, number>();
+  // Profiles whose browser is closed once their pages are back
+  private closePending = new Set<string>();
+  private waiters: PageWaiter[] = [];
+  private navigations = 0;
+  private recyclePending = false;
+  private recycling: Promise<void> | null = null;
+  private drainWaiters: (() => void)[] = [];
+  private drainTimer: NodeJS.Timeout | null = null;
+
+  constructor(private maxPages: number, private recycleAfter: number, private drainTimeout: number) {}
+
+  async acquire(profile: BrowserProfile, timeoutMs: number = PAGE_ACQUIRE_TIMEOUT): Promise<Page> {
+    if (this.active < this.maxPages && !this.recyclePending && this.waiters.length === 0) {
+      this.active++;
+      return this.checkout(profile);
     }
-    
-    // Check for verification indicators
-    const title = await page.title();
-    const content = await page.content();
-    
-    const needsVerify = title.includes('Verify') || 
-                       title.includes('Security') || 
-                       content.includes('Press & Hold') ||
-                       content.includes('verify you are a human') ||
-                       await page.$('#px-captcha').then(el => !!el).catch(() => false);
-    
-    if (needsVerify) {
-      debugLog('Verification needed - detected verification page');
+
+    debugLog(`All ${this.maxPages} browser pages busy, waiting (${this.waiters.length} already queued)`);
+    await new Promise<void>((resolve, reject) => {
+      const waiter: PageWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error(`Timed out after ${timeoutMs}ms waiting for a browser page`));
+        }, timeoutMs)
+      };
+      this.waiters.push(waiter);
+    });
+
+    // dispatch() reserved a slot for us
+    return this.checkout(profile);
+  }
+
+  async release(page: Page, discard: boolean = false): Promise<void> {
+    const profile = this.pageProfiles.get(page);
+    try {
+      if (discard || this.recyclePending || page.isClosed() || !page.browser().isConnected()) {
+        if (discard && profile) {
+          this.closePending.add(profile);
+        }
+        await page.close().catch(() => {});
+      } else {
+        await this.resetPage(page);
+        this.idle.push({ page, profile: profile || '' });
+      }
+    } catch (error) {
+      debugLog('Error resetting page, closing it: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      await page.close().catch(() => {});
+    } finally {
+      this.active--;
+      if (profile) {
+        await this.pageReturned(profile);
+      }
+      if (this.recyclePending && this.active <= 0) {
+        await this.recycle();
+      }
+      this.dispatch();
     }
-    
-    return needsVerify;
-  } catch (error) {
-    debugLog('Error checking verification: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    return false;
   }
-}
 
-export async function handlePressAndHoldVerification(page: Page, maxRetries = 2): Promise<boolean> {
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  stats(): PagePoolStats {
+    return {
+      maxPages: this.maxPages,
+      active: this.active,
+      idle: this.idle.length,
+      waiting: this.waiters.length,
+      navigationsSinceLaunch: this.navigations,
+      recyclePending: this.recyclePending
+    };
+  }
+
+  private async checkout(profile: BrowserProfile): Promise<Page> {
+    this.pagesOut.set(profile.name, (this.pagesOut.get(profile.name) || 0) + 1);
     try {
-      if (attempt > 0) {
-        debugLog(`Retry attempt ${attempt}/${maxRetries} for verification`);
-        await new Promise(resolve => setTimeout(resolve, 2000));
+      this.idle = this.idle.filter(({ page }) => !page.isClosed() && page.browser().isConnected());
+
+      let page: Page | undefined;
+      const idleIndex = this.idle.findIndex(idle => idle.profile === profile.name);
+      if (idleIndex !== -1) {
+        page = this.idle.splice(idleIndex, 1)[0].page;
+      } else {
+        if (!profileBrowsers.has(profile.name)) {
+          await this.closeUnusedBrowsers();
+        }
+        // Make room by closing the longest-idle page of another profile
+        if (this.idle.length + this.active > this.maxPages) {
+          await this.idle.shift()?.page.close().catch(() => {});
+        }
+        page = await createPage(profile);
+        this.pageProfiles.set(page, profile.name);
       }
 
-      // Start screenshot recording
-      const stopScreenshots = await captureVerificationProcess(page);
+      this.navigations++;
+      if (this.navigations >= this.recycleAfter && !this.recyclePending) {
+        this.requestRecycle(`served ${this.navigations} navigations`);
+      }
+      return page;
+    } catch (error) {
+      this.active--;
+      await this.pageReturned(profile.name);
+      this.dispatch();
+      throw error;
+    }
+  }
 
-      // Wait for any animations to complete
-      await new Promise(r => setTimeout(r, 2000));
+  private async pageReturned(profile: string): Promise<void> {
+    const remaining = (this.pagesOut.get(profile) || 1) - 1;
+    if (remaining > 0) {
+      this.pagesOut.set(profile, remaining);
+      return;
+    }
 
-      // Use the known working coordinates with slight randomization
-      const buttonX = Math.floor(Math.random() * (1096 - 872) + 872);
-      const buttonY = Math.floor(Math.random() * (617 - 615) + 615);
+    this.pagesOut.delete(profile);
+    if (this.closePending.delete(profile)) {
+      debugLog(`Closing browser of profile ${profile} after a failed page`);
+      await this.closeBrowsers([profile]);
+    }
+  }
 
-      debugLog(`Attempting press-and-hold verification at coordinates: ${buttonX}, ${buttonY}`);
-      
-      // Ensure mouse is released and reset position
-      await page.mouse.up().catch(() => {});
-      await page.mouse.move(0, 0);
-      await new Promise(r => setTimeout(r, 500));
-      
-      // Move to the position gradually
-      await page.mouse.move(buttonX, buttonY, { steps: 10 });
-      await new Promise(r => setTimeout(r, 1000));
-      
-      // Press and hold for exactly 15 seconds
-      await page.mouse.down();
-      debugLog('Started mouse down');
-      await new Promise(resolve => setTimeout(resolve, 15000));
-      debugLog('Completed 15s hold, releasing');
-      await page.mouse.up();
-      
-      // Wait to check the result
-      await new Promise(resolve => setTimeout(resolve, 3000));
+  /**
+   * Closes the browsers of profiles with no pages checked out, so only the
+   * profiles in use keep a Chromium running.
+   */
+  private async closeUnusedBrowsers(): Promise<void> {
+    const unused = Array.from(profileBrowsers.keys()).filter(profile => !this.pagesOut.has(profile));
+    if (unused.length) {
+      await this.closeBrowsers(unused);
+    }
+  }
 
-      // Stop screenshot recording
-      await stopScreenshots();
-      
-      // Multiple verification checks
-      const title = await page.title();
-      const content = await page.content();
-      const stillHasVerification = await page.$('#px-captcha').then(el => !!el).catch(() => false);
-      const hasWaitlist = await page.$('.waitlist-text-container').then(el => !!el).catch(() => false);
-      
-      if (title.includes('been denied') || 
-          content.includes('Access to this page has been denied') || 
-          stillHasVerification) {
-        debugLog('Verification failed - detected denial message or verification still present');
-        if (attempt === maxRetries) return false;
-        continue;
-      }
+  private async closeBrowsers(profiles: string[]): Promise<void> {
+    const idlePages = this.idle.filter(idle => profiles.includes(idle.profile));
+    this.idle = this.idle.filter(idle => !profiles.includes(idle.profile));
+    await Promise.all(idlePages.map(({ page }) => page.close().catch(() => {})));
 
-      if (hasWaitlist) {
-        debugLog('Verification successful - waitlist container found');
-        return true;
-      }
-      
-      // If we get here, do one final check
-      await new Promise(r => setTimeout(r, 2000));
-      if (await needsVerification(page)) {
-        debugLog('Verification still needed after final check');
-        if (attempt === maxRetries) return false;
-        continue;
+    for (const profile of profiles) {
+      // A browser still starting up is closed once it is up
+      await browserLaunches.get(profile)?.catch(() => {});
+      await closeBrowser(profile);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.waiters.length && this.active < this.maxPages && !this.recyclePending) {
+      const waiter = this.waiters.shift()!;
+      clearTimeout(waiter.timer);
+      this.active++;
+      waiter.resolve();
+    }
+  }
+
+  private async resetPage(page: Page): Promise<void> {
+    await page.mouse.up().catch(() => {});
+    await page.goto('about:blank', { timeout: 5000 });
+  }
+
+  /**
+   * Stops handing out pages and closes every browser once in-flight pages
+   * are released. Pages still out after the drain timeout are abandoned (a
+   * hung browser may never give them back) and the browsers are closed
+   * anyway. Resolves when they are closed; the next checkout launches a new
+   * browser through getBrowser().
+   */
+  requestRecycle(reason: string): Promise<void> {
+    if (this.recycling) return this.recycling;
+
+    const drained = new Promise<void>(resolve => this.drainWaiters.push(resolve));
+    if (!this.recyclePending) {
+      debugLog(`Recycling browsers (${reason}) once ${this.active} in-flight pages are released`);
+      this.recyclePending = true;
+
+      if (this.active <= 0) {
+        this.recycle().then(() => this.dispatch());
+      } else {
+        this.drainTimer = setTimeout(() => {
+          debugLog(`${this.active} pages still in use after ${this.drainTimeout}ms, recycling browsers anyway`, 'error');
+          this.recycle().then(() => this.dispatch());
+        }, this.drainTimeout);
       }
-      
-      return true;
+    }
+    return drained;
+  }
+
+  private recycle(): Promise<void> {
+    if (!this.recycling) {
+      this.recycling = this.closeAll().finally(() => {
+        this.recycling = null;
+      });
+    }
+    return this.recycling;
+  }
+
+  private async closeAll(): Promise<void> {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+
+    debugLog('Recycling browsers...');
+    try {
+      await this.closeBrowsers(Array.from(new Set([...profileBrowsers.keys(), ...browserLaunches.keys()])));
     } catch (error) {
-      debugLog('Error during press-and-hold verification: ' + (error instanceof Error ? error.message : 'Unknown error'));
-      if (attempt === maxRetries) return false;
-      await new Promise(r => setTimeout(r, 1000));
+      debugLog('Error closing browsers during recycle: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    } finally {
+      this.closePending.clear();
+      this.navigations = 0;
+      this.recyclePending = false;
+      const waiters = this.drainWaiters;
+      this.drainWaiters = [];
+      waiters.forEach(resolve => resolve());
     }
   }
-  return false;
-}
\ No newline at end of file
+}
+
+const pagePool = new PagePool(MAX_CONCURRENT_PAGES, RECYCLE_AFTER_NAVIGATIONS, DRAIN_TIMEOUT);
+
+/**
+ * Takes a page for the given profile from the pool; getPageProxy tells which
+ * proxy it goes out through. Every acquired page must be handed back with
+ * releasePage, preferably in a finally block.
+ */
+export function acquirePage(profile: BrowserProfile, timeoutMs?: number): Promise<Page> {
+  return pagePool.acquire(profile, timeoutMs);
+}
+
+/**
+ * Returns a page to the pool. Pass discard=true for pages in an unknown
+ * state (e.g. after an error) so they are closed instead of reused, and the
+ * profile's browser is relaunched (with a freshly picked proxy) once its
+ * other pages are back.
+ */
+export function releasePage(page: Page, discard: boolean = false): Promise<void> {
+  return pagePool.release(page, discard);
+}
+
+export function getPagePoolStats(): PagePoolStats {
+  return pagePool.stats();
+}
+
+/**
+ * Drains the page pool and closes the browsers, e.g. when they are unhealthy.
+ */
+export function restartBrowser(reason: string): Promise<void> {
+  return pagePool.requestRecycle(reason);
+}
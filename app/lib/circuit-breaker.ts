@@ -0,0 +1,172 @@
+import { operationalStore } from './operational-store';
+import { fromSqliteTimestamp } from './record-format';
+import { logger } from './logger';
+import { debugLog } from './server-utils';
+
+/**
+ * Circuit breaker for calls to an unreliable dependency. After
+ * `failureThreshold` consecutive failures it opens and rejects calls with a
+ * CircuitOpenError until `cooldownMs` has passed; the next call is then let
+ * through as a trial (half open) and either closes the circuit or re-opens it.
+ * Transitions are stored in circuit_breaker_events so an open circuit stays
+ * open across a restart.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  // Which errors count against the circuit; others are passed through untouched
+  isFailure: (error: unknown) => boolean;
+}
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure: string | null;
+  openedAt: Date | null;
+  retryAt: Date | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly circuit: string, public readonly retryAt: Date) {
+    super(`Circuit ${circuit} is open; not retrying before ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// How long other callers are told to wait while a half-open trial is running
+const TRIAL_WAIT_MS = 60 * 1000;
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastFailure: string | null = null;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private restored: Promise<void> | null = null;
+
+  constructor(readonly name: string, private options: CircuitBreakerOptions) {}
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    await this.restore();
+    this.beforeCall();
+
+    const isTrial = this.state === 'half_open';
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.options.isFailure(error)) {
+        this.onFailure(error instanceof Error ? error.message : 'Unknown error');
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : null,
+      retryAt: this.state === 'closed' ? null : this.getRetryAt()
+    };
+  }
+
+  isClosed(): boolean {
+    return this.state === 'closed';
+  }
+
+  private getRetryAt(): Date {
+    if (this.state === 'half_open') {
+      return new Date(Date.now() + TRIAL_WAIT_MS);
+    }
+    return new Date((this.openedAt ?? Date.now()) + this.options.cooldownMs);
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'open' && Date.now() >= this.getRetryAt().getTime()) {
+      this.transition('half_open', 'Cooldown elapsed, allowing a trial request');
+    }
+
+    if (this.state === 'open' || (this.state === 'half_open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, this.getRetryAt());
+    }
+
+    if (this.state === 'half_open') {
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed', 'Trial request succeeded');
+    }
+  }
+
+  private onFailure(message: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = message;
+
+    if (this.state === 'half_open') {
+      this.openedAt = Date.now();
+      this.transition('open', `Trial request failed: ${message}`);
+    } else if (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open', `${this.consecutiveFailures} consecutive failures, last: ${message}`);
+    }
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    this.state = to;
+
+    const message = `Circuit ${this.name}: ${from} -> ${to} (${reason})`;
+    if (to === 'open') {
+      logger.log(message, 'error');
+    } else {
+      debugLog(message);
+    }
+
+    operationalStore.recordCircuitTransition(this.name, from, to, reason).catch(error => {
+      debugLog('Error recording circuit transition: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    });
+  }
+
+  /**
+   * Picks up where the last process left off. A circuit that was open (or
+   * mid-trial) when the process stopped comes back open.
+   */
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = (async () => {
+        try {
+          const last = await operationalStore.getLastCircuitTransition(this.name);
+          if (!last || last.to_state === 'closed') return;
+
+          this.state = 'open';
+          // An interrupted trial gets retried straight away
+          this.openedAt = last.to_state === 'open'
+            ? fromSqliteTimestamp(last.created_at).getTime()
+            : Date.now() - this.options.cooldownMs;
+          this.lastFailure = last.reason;
+          debugLog(`Circuit ${this.name} restored as open until ${this.getRetryAt().toISOString()}`);
+        } catch (error) {
+          debugLog('Error restoring circuit state: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+        }
+      })();
+    }
+    return this.restored;
+  }
+}
@@ -0,0 +1,70 @@
+import type { WaitlistSnapshot } from './db';
+import type { ComparableWaitlist } from './waitlist-diff';
+
+/**
+ * Infers who cleared the First Class upgrade list. The page rarely says so:
+ * a name simply disappears, which is also what a cancellation or a missed
+ * connection looks like. A disappearance is counted as a clearance when First
+ * Class filled up at the same time (fewer seats available, more passengers
+ * checked in), with the names nearest the front of the list taking the seats
+ * first. A cleared marker on the row is taken at face value.
+ */
+
+export type ClearanceEvidence = 'marker' | 'seat_counts' | 'position';
+
+export interface ClearanceInference {
+  passenger: string;
+  /** Position on the upgrade list before clearing; null if unknown */
+  oldPosition: number | null;
+  evidence: ClearanceEvidence;
+  /** 0 to 1 */
+  confidence: number;
+  seatsTaken: number;
+  checkedInRise: number;
+}
+
+function upgradeNames(waitlist: ComparableWaitlist): string[] {
+  const list = waitlist.lists?.find(item => item.cabin === 'first' && item.listType === 'upgrade');
+  return list ? list.names : waitlist.names;
+}
+
+function increase(from: number | null, to: number | null): number {
+  return from !== null && to !== null ? Math.max(0, to - from) : 0;
+}
+
+export function inferClearances(previous: ComparableWaitlist | null, current: WaitlistSnapshot): ClearanceInference[] {
+  const inferences: ClearanceInference[] = [];
+
+  const upgradeList = current.lists?.find(list => list.cabin === 'first' && list.listType === 'upgrade');
+  for (const entry of upgradeList?.entries || []) {
+    if (entry.cleared) {
+      inferences.push({ passenger: entry.name, oldPosition: entry.position, evidence: 'marker', confidence: 1, seatsTaken: 0, checkedInRise: 0 });
+    }
+  }
+
+  if (!previous) return inferences;
+
+  const currentNames = new Set(upgradeNames(current));
+  const removed = upgradeNames(previous)
+    .map((name, i) => ({ name, position: i + 1 }))
+    .filter(({ name }) => !currentNames.has(name) && !inferences.some(inference => inference.passenger === name));
+  if (!removed.length) return inferences;
+
+  const seatsTaken = increase(current.available, previous.available);
+  const checkedInRise = increase(previous.checkedIn, current.checkedIn);
+  const seatsFilled = Math.max(seatsTaken, checkedInRise);
+
+  // Removed names are in list order, so the front of the list gets the seats
+  removed.forEach(({ name, position }, i) => {
+    const withinAvailable = previous.available !== null && position <= previous.available;
+    if (i < seatsFilled) {
+      const confidence = (seatsTaken > 0 && checkedInRise > 0 ? 0.8 : 0.6) + (withinAvailable ? 0.1 : 0);
+      inferences.push({ passenger: name, oldPosition: position, evidence: 'seat_counts', confidence, seatsTaken, checkedInRise });
+    } else if (withinAvailable) {
+      // There was a seat for them but the counts didn't move (yet); it may also be a cancellation
+      inferences.push({ passenger: name, oldPosition: position, evidence: 'position', confidence: 0.3, seatsTaken, checkedInRise });
+    }
+  });
+
+  return inferences;
+}
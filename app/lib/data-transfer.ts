@@ -0,0 +1,390 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { SqliteConnection, WaitlistSnapshot } from './db';
+import { maintenanceStore } from './operational-store';
+import { getRepository } from './repository';
+import { fromSqliteTimestamp } from './record-format';
+import { debugLog } from './server-utils';
+
+/**
+ * Portable export and import of the tracker's history, for moving it between
+ * instances or analyzing it elsewhere. An export is a directory holding
+ * manifest.json and one file per table, either NDJSON (one JSON object per
+ * line) or CSV (a header row; an empty field is NULL and "" is an empty
+ * string). Rows refer to flights by flight number, date and segment index
+ * rather than by id, so an export can be imported into a database that
+ * already has data. Importing skips rows that are already present and
+ * rebuilds the data derived from snapshots (entries, events, clearances).
+ * Both directions read and write SQL directly, so they refuse to run with
+ * STORAGE_BACKEND=memory, where that data isn't in the database.
+ */
+
+export type TransferFormat = 'ndjson' | 'csv';
+
+type ColumnType = 'text' | 'integer' | 'real';
+
+type Row = Record<string, string | number | null>;
+
+interface TableSpec {
+  file: string;
+  columns: [string, ColumnType][];
+  query: string;
+}
+
+export interface ExportManifest {
+  format: TransferFormat;
+  exported_at: string;
+  schema_version: number | null;
+  tables: Record<string, { file: string; rows: number; columns: string[] }>;
+}
+
+export interface ImportSummary {
+  table: string;
+  rows: number;
+  imported: number;
+  skipped: number;
+}
+
+const PAGE_SIZE = 1000;
+// Rows written per transaction while importing
+const IMPORT_BATCH_SIZE = 500;
+
+// In import order: snapshots need their flights
+const TABLES: Record<string, TableSpec> = {
+  users: {
+    file: 'users',
+    columns: [
+      ['username', 'text'], ['password_hash', 'text'], ['first_name', 'text'], ['last_name', 'text'],
+      ['status_level', 'text'], ['created_at', 'text']
+    ],
+    query: 'SELECT * FROM users ORDER BY id'
+  },
+  flights: {
+    file: 'flights',
+    columns: [
+      ['flight_number', 'text'], ['flight_date', 'text'], ['segment_index', 'integer'], ['segment_date', 'text'],
+      ['origin', 'text'], ['destination', 'text'], ['departure_time', 'text'], ['arrival_time', 'text'],
+      ['scheduled_departure', 'text'], ['estimated_departure', 'text'], ['actual_departure', 'text'],
+      ['scheduled_arrival', 'text'], ['estimated_arrival', 'text'], ['actual_arrival', 'text'], ['created_at', 'text']
+    ],
+    query: 'SELECT * FROM flights ORDER BY flight_date, flight_number, segment_index'
+  },
+  snapshots: {
+    file: 'snapshots',
+    columns: [
+      ['flight_number', 'text'], ['flight_date', 'text'], ['segment_index', 'integer'], ['snapshot_time', 'text'],
+      ['last_confirmed_at', 'text'], ['waitlist_names', 'text'], ['waitlist_lists', 'text'],
+      ['first_class_capacity', 'integer'], ['first_class_available', 'integer'], ['first_class_checked_in', 'integer'],
+      ['parse_confidence', 'real'], ['is_suspect', 'integer'], ['parse_diagnostics', 'text']
+    ],
+    query: `
+      SELECT f.flight_number, f.flight_date, f.segment_index, w.*
+      FROM waitlist_snapshots w
+      JOIN flights f ON f.id = w.flight_id
+      ORDER BY w.snapshot_time, w.id
+    `
+  },
+  elite_statuses: {
+    file: 'elite_statuses',
+    columns: [['passenger', 'text'], ['status', 'text'], ['flight_number', 'text'], ['flight_date', 'text'], ['added_time', 'text']],
+    query: 'SELECT * FROM elite_status ORDER BY flight_date, flight_number, passenger'
+  }
+};
+
+function withConnection<T>(work: (database: SqliteConnection) => Promise<T>): Promise<T> {
+  if (process.env.STORAGE_BACKEND === 'memory') {
+    throw new Error('Export and import need the sqlite storage backend; STORAGE_BACKEND=memory keeps flights and snapshots out of the database');
+  }
+  return maintenanceStore.withConnection(work);
+}
+
+function toCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return text === '' || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Parses CSV records from a file without loading it whole. Quoted fields may
+ * contain commas, quotes ("") and line breaks; unquoted empty fields are null.
+ */
+async function* readCsv(file: string): AsyncGenerator<(string | null)[]> {
+  let record: (string | null)[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let pendingQuote = false;
+
+  const endField = () => {
+    record.push(field === '' && !quoted ? null : field);
+    field = '';
+    quoted = false;
+  };
+
+  for await (const chunk of fs.createReadStream(file, { encoding: 'utf8' })) {
+    const records: (string | null)[][] = [];
+    for (const char of chunk as string) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+        quoted = true;
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n') {
+        endField();
+        records.push(record);
+        record = [];
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+    yield* records;
+  }
+
+  if (field !== '' || quoted || record.length) {
+    endField();
+    yield record;
+  }
+}
+
+async function* readRows(file: string, format: TransferFormat): AsyncGenerator<Row> {
+  if (format === 'ndjson') {
+    const lines = readline.createInterface({ input: fs.createReadStream(file, { encoding: 'utf8' }), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+    return;
+  }
+
+  let header: string[] | null = null;
+  for await (const record of readCsv(file)) {
+    if (!header) {
+      header = record.map(name => name || '');
+      continue;
+    }
+    yield Object.fromEntries(header.map((name, i) => [name, record[i] ?? null]));
+  }
+}
+
+// Coerces a value read from either format to the column's type
+function normalize(row: Row, columns: [string, ColumnType][]): Row {
+  return Object.fromEntries(columns.map(([name, type]) => {
+    const value = row[name] ?? null;
+    if (value === null || type === 'text') return [name, value === null ? null : String(value)];
+    const number = type === 'integer' ? parseInt(String(value)) : parseFloat(String(value));
+    return [name, isNaN(number) ? null : number];
+  }));
+}
+
+async function writeLine(stream: fs.WriteStream, line: string): Promise<void> {
+  if (!stream.write(line + '\n')) {
+    await new Promise<void>(resolve => stream.once('drain', () => resolve()));
+  }
+}
+
+/**
+ * Writes users, flights, snapshots and elite statuses to `directory`, which
+ * is created if needed. Note that users.* contains password hashes.
+ */
+export async function exportData(directory: string, format: TransferFormat = 'ndjson'): Promise<ExportManifest> {
+  return withConnection(database => writeExport(database, directory, format));
+}
+
+async function writeExport(database: SqliteConnection, directory: string, format: TransferFormat): Promise<ExportManifest> {
+  fs.mkdirSync(directory, { recursive: true });
+
+  const version = await database.get<{ version: number | null }>('SELECT MAX(version) as version FROM schema_migrations');
+  const manifest: ExportManifest = {
+    format,
+    exported_at: new Date().toISOString(),
+    schema_version: version?.version ?? null,
+    tables: {}
+  };
+
+  for (const [table, spec] of Object.entries(TABLES)) {
+    const file = `${spec.file}.${format}`;
+    const columns = spec.columns.map(([name]) => name);
+    const stream = fs.createWriteStream(path.join(directory, file));
+    let rows = 0;
+
+    try {
+      if (format === 'csv') {
+        await writeLine(stream, columns.join(','));
+      }
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const page = await database.all<Row[]>(`${spec.query} LIMIT ? OFFSET ?`, [PAGE_SIZE, offset]);
+        for (const row of page) {
+          const values = normalize(row, spec.columns);
+          await writeLine(stream, format === 'csv'
+            ? columns.map(name => toCsvField(values[name])).join(',')
+            : JSON.stringify(values));
+        }
+        rows += page.length;
+        if (page.length < PAGE_SIZE) break;
+      }
+    } finally {
+      await new Promise<void>(resolve => stream.end(resolve));
+    }
+
+    manifest.tables[table] = { file, rows, columns };
+    debugLog(`Exported ${rows} ${table} to ${file}`);
+  }
+
+  fs.writeFileSync(path.join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+  return manifest;
+}
+
+function flightKey(row: Row): string {
+  return `${row.flight_number}|${row.flight_date}|${row.segment_index}`;
+}
+
+/**
+ * Imports an export written by exportData. Existing users (by username),
+ * flight segments, elite statuses and snapshots taken at the same time for
+ * the same segment are left as they are.
+ */
+export async function importData(directory: string): Promise<ImportSummary[]> {
+  return withConnection(database => readImport(database, directory));
+}
+
+async function readImport(database: SqliteConnection, directory: string): Promise<ImportSummary[]> {
+  const manifestPath = path.join(directory, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`${manifestPath} not found; is this an export directory?`);
+  }
+  const manifest: ExportManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+
+  const { snapshots } = getRepository();
+  const flightIds = new Map<string, number | null>();
+  const getFlightId = async (row: Row) => {
+    const key = flightKey(row);
+    if (!flightIds.has(key)) {
+      const flight = await database.get<{ id: number }>(
+        'SELECT id FROM flights WHERE flight_number = ? AND flight_date = ? AND segment_index = ?',
+        [row.flight_number, row.flight_date, row.segment_index]
+      );
+      flightIds.set(key, flight?.id ?? null);
+    }
+    return flightIds.get(key)!;
+  };
+
+  const importRow: Record<string, (row: Row) => Promise<boolean>> = {
+    users: async row => {
+      const result = await database.run(`
+        INSERT INTO users (username, password_hash, first_name, last_name, status_level, created_at)
+        VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+        ON CONFLICT (username) DO NOTHING
+      `, [row.username, row.password_hash, row.first_name, row.last_name, row.status_level, row.created_at]);
+      return !!result.changes;
+    },
+
+    // Rows are inserted as exported rather than through saveFlightSegment so
+    // a newer schedule already in this database isn't recorded as a change
+    flights: async row => {
+      const result = await database.run(`
+        INSERT INTO flights
+          (flight_number, flight_date, segment_index, segment_date, origin, destination, departure_time, arrival_time,
+           scheduled_departure, estimated_departure, actual_departure, scheduled_arrival, estimated_arrival, actual_arrival,
+           created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+        ON CONFLICT (flight_number, flight_date, segment_index) DO NOTHING
+      `, [
+        row.flight_number, row.flight_date, row.segment_index, row.segment_date,
+        row.origin, row.destination, row.departure_time, row.arrival_time,
+        row.scheduled_departure, row.estimated_departure, row.actual_departure,
+        row.scheduled_arrival, row.estimated_arrival, row.actual_arrival,
+        row.created_at
+      ]);
+      return !!result.changes;
+    },
+
+    // Saved like a fresh observation so entries, events and clearances are derived as usual
+    snapshots: async row => {
+      const flightId = await getFlightId(row);
+      if (!flightId || !row.snapshot_time) return false;
+
+      const existing = await database.get(
+        'SELECT id FROM waitlist_snapshots WHERE flight_id = ? AND snapshot_time = ?',
+        [flightId, row.snapshot_time]
+      );
+      if (existing) return false;
+
+      const snapshot: WaitlistSnapshot = {
+        names: JSON.parse(String(row.waitlist_names)),
+        lists: row.waitlist_lists ? JSON.parse(String(row.waitlist_lists)) : undefined,
+        capacity: row.first_class_capacity as number | null,
+        available: row.first_class_available as number | null,
+        checkedIn: row.first_class_checked_in as number | null,
+        diagnostics: row.parse_diagnostics ? JSON.parse(String(row.parse_diagnostics)) : undefined
+      };
+      await snapshots.save(flightId, snapshot, { snapshotTime: fromSqliteTimestamp(String(row.snapshot_time)) });
+
+      // Seeing the same waitlist again extends last_confirmed_at
+      if (!snapshot.diagnostics?.suspect && row.last_confirmed_at && row.last_confirmed_at > row.snapshot_time) {
+        await snapshots.save(flightId, snapshot, { snapshotTime: fromSqliteTimestamp(String(row.last_confirmed_at)) });
+      }
+      return true;
+    },
+
+    elite_statuses: async row => {
+      const result = await database.run(`
+        INSERT INTO elite_status (passenger, status, flight_number, flight_date, added_time)
+        VALUES (?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+        ON CONFLICT (passenger, flight_number, flight_date) DO NOTHING
+      `, [row.passenger, row.status, row.flight_number, row.flight_date, row.added_time]);
+      return !!result.changes;
+    }
+  };
+
+  const summaries: ImportSummary[] = [];
+  for (const [table, spec] of Object.entries(TABLES)) {
+    const entry = manifest.tables[table];
+    if (!entry) continue;
+
+    const summary: ImportSummary = { table, rows: 0, imported: 0, skipped: 0 };
+    const rows = readRows(path.join(directory, entry.file), manifest.format);
+    try {
+      // One transaction per batch; a failure rolls back only the batch it happened in
+      let done = false;
+      while (!done) {
+        await maintenanceStore.inTransaction(async () => {
+          for (let batched = 0; batched < IMPORT_BATCH_SIZE; batched++) {
+            const next = await rows.next();
+            if (next.done) {
+              done = true;
+              return;
+            }
+            const imported = await importRow[table](normalize(next.value, spec.columns));
+            summary.rows++;
+            summary[imported ? 'imported' : 'skipped']++;
+          }
+        });
+      }
+    } catch (error) {
+      throw new Error(`Importing ${table} failed after ${summary.rows} rows: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      // Closes the file if the import stopped early
+      await rows.return(undefined);
+    }
+
+    summaries.push(summary);
+    debugLog(`Imported ${summary.imported} of ${summary.rows} ${table} (${summary.skipped} already present)`);
+  }
+
+  return summaries;
+}
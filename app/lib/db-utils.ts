@@ -1,5 +1,10 @@
-import db from './db';
+import db, { ScrapeJobState } from './db';
 import { debugLog } from './server-utils';
+import { reparseArchive } from './page-archive';
+import { pruneVerificationScreenshots, renderAttemptReport } from './verification-report';
+import { applyRetention } from './retention';
+import { backupDatabase, listBackups, restoreDatabase } from './backups';
+import { exportData, importData, TransferFormat } from './data-transfer';
 import fs from 'fs';
 import path from 'path';
 
@@ -21,14 +26,10 @@ export async function showDatabaseInfo() {
 
 export async function clearDatabase() {
   await db.initDb();
-  if (!db.isDbAvailable || !db.db) return;
+  if (!db.isDbAvailable) return;
   
   debugLog('Clearing all data...');
-  await db.db.exec(`
-    DELETE FROM waitlist_snapshots;
-    DELETE FROM flights;
-    VACUUM;
-  `);
+  await db.clearAllData();
   debugLog('Database cleared!');
 }
 
@@ -36,9 +37,7 @@ export async function resetDatabase() {
   const dbPath = path.join(process.cwd(), 'alaska_waitlist.db');
   
   // Close existing connection if any
-  if (db.db) {
-    await db.db.close();
-  }
+  await db.close();
   
   // Delete the database file if it exists
   if (fs.existsSync(dbPath)) {
@@ -53,7 +52,7 @@ export async function resetDatabase() {
 
 export async function getDatabaseStats() {
   await db.initDb();
-  if (!db.isDbAvailable || !db.db) return;
+  if (!db.isDbAvailable) return;
 
   const stats = await db.getAllData();
   if (!stats) return;
@@ -65,12 +64,400 @@ export async function getDatabaseStats() {
   debugLog(`Total Snapshots: ${snapshots.length}`);
   debugLog(`Unique Flight Numbers: ${new Set(flights.map(f => f.flight_number)).size}`);
   debugLog(`Date Range: ${flights[0]?.flight_date} to ${flights[flights.length - 1]?.flight_date}`);
+
+  const archive = await db.getArchiveSize();
+  if (archive) {
+    debugLog(`Archived Pages: ${archive.pages} (${(archive.raw_bytes / 1024 / 1024).toFixed(1)} MB raw, ${(archive.stored_bytes / 1024 / 1024).toFixed(1)} MB compressed)`);
+  }
+}
+
+export async function reparseArchivedPages(flightNumber?: string, flightDate?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog(`Re-parsing archived pages${flightNumber ? ` for flight ${flightNumber}` : ''}${flightDate ? ` on ${flightDate}` : ''}...`);
+  const summary = await reparseArchive(flightNumber, flightDate);
+
+  debugLog('\n=== Reparse Summary ===');
+  debugLog(`Archived pages processed: ${summary.pages}`);
+  debugLog(`Pages that failed to parse: ${summary.failedPages}`);
+  debugLog(`Snapshots replaced: ${summary.snapshotsReplaced}`);
+  debugLog(`Snapshots written: ${summary.snapshotsWritten}`);
+}
+
+/**
+ * Relinks snapshots orphaned by the old INSERT OR REPLACE in saveFlightSegment,
+ * which gave a flight a new id on every scrape. The flight comes from the
+ * snapshot's archived page. A scrape saved its segments in order, so a
+ * page's orphaned flight ids in ascending order are its segments in order;
+ * that mapping is only trusted when their count matches the flight's
+ * segments (or the flight has a single segment).
+ */
+export async function repairFlights(option?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const dryRun = option === '--dry-run';
+  const groups = await db.getOrphanedSnapshotGroups();
+  if (!groups.length) {
+    debugLog('No orphaned snapshots found');
+    return;
+  }
+
+  const byArchive = new Map<number, typeof groups>();
+  const unresolved: (typeof groups[number] & { reason: string })[] = [];
+  for (const group of groups) {
+    if (group.archive_id === null || !group.flight_number || !group.flight_date) {
+      unresolved.push({ ...group, reason: 'no archived page' });
+      continue;
+    }
+    byArchive.set(group.archive_id, [...(byArchive.get(group.archive_id) || []), group]);
+  }
+
+  const relinked: { archive_id: number; old_flight_id: number; flight: string; segment_index: number; snapshots: number }[] = [];
+  for (const archiveGroups of Array.from(byArchive.values())) {
+    const { flight_number, flight_date } = archiveGroups[0];
+    const segments = await db.getFlightSegments(flight_number!, flight_date!);
+    const ordered = archiveGroups.sort((a, b) => a.flight_id - b.flight_id);
+
+    let targets: typeof segments;
+    if (segments.length === 1) {
+      targets = ordered.map(() => segments[0]);
+    } else if (segments.length && segments.length === ordered.length) {
+      targets = segments;
+    } else {
+      unresolved.push(...ordered.map(group => ({
+        ...group,
+        reason: `${ordered.length} orphaned flight ids for ${segments.length} segments`
+      })));
+      continue;
+    }
+
+    for (let i = 0; i < ordered.length; i++) {
+      const group = ordered[i];
+      const snapshots = dryRun ? group.snapshots : await db.relinkSnapshots(group.flight_id, group.archive_id, targets[i].id);
+      relinked.push({
+        archive_id: group.archive_id!,
+        old_flight_id: group.flight_id,
+        flight: `AS${flight_number} ${flight_date}`,
+        segment_index: targets[i].segment_index,
+        snapshots
+      });
+    }
+  }
+
+  debugLog(`\n=== ${dryRun ? 'Would relink' : 'Relinked'} ===`);
+  console.table(relinked);
+  if (unresolved.length) {
+    debugLog('\n=== Left orphaned (re-parse their archived pages with `reparse` if they have one) ===');
+    console.table(unresolved);
+  }
+  debugLog(`${dryRun ? 'Would relink' : 'Relinked'} ${relinked.reduce((sum, row) => sum + row.snapshots, 0)} snapshots; ${unresolved.reduce((sum, row) => sum + row.snapshots, 0)} left orphaned`);
+}
+
+export async function showParseReport(days: string = '7') {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const since = parseInt(days) || 7;
+  debugLog(`\n=== Parse Quality (last ${since} days) ===`);
+  console.table(await db.getParseQuality(since));
+
+  // Tally what the suspect parses were missing
+  const suspectDiagnostics = await db.getSuspectDiagnostics(since);
+
+  const missingCounts: Record<string, number> = {};
+  const warningCounts: Record<string, number> = {};
+  for (const diagnostics of suspectDiagnostics) {
+    for (const field of diagnostics.missingFields || []) {
+      missingCounts[field] = (missingCounts[field] || 0) + 1;
+    }
+    for (const warning of diagnostics.warnings || []) {
+      warningCounts[warning] = (warningCounts[warning] || 0) + 1;
+    }
+  }
+
+  debugLog(`\nSuspect snapshots: ${suspectDiagnostics.length}`);
+  if (suspectDiagnostics.length) {
+    debugLog('\nMissing fields:');
+    console.table(missingCounts);
+    debugLog('\nWarnings:');
+    console.table(warningCounts);
+  }
+}
+
+export async function showScrapeJobs(state?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog('\n=== Scrape Jobs by State ===');
+  console.table(await db.getScrapeJobCounts());
+
+  const jobs = await db.getScrapeJobs(state as ScrapeJobState | undefined, 25);
+  debugLog(`\n=== ${state ? `${state} jobs` : 'Recent jobs'} ===`);
+  console.table(jobs.map(job => ({
+    id: job.id,
+    flight: `AS${job.flight_number} ${job.flight_date}`,
+    state: job.state,
+    priority: job.priority,
+    attempts: `${job.attempts}/${job.max_attempts}`,
+    profile: job.profile || '',
+    next_run_at: job.state === 'queued' || job.state === 'failed' ? job.next_run_at : '',
+    updated_at: job.updated_at,
+    last_error: job.last_error || ''
+  })));
+}
+
+export async function showCircuitEvents(limit: string = '25') {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog('\n=== Circuit Breaker Transitions ===');
+  console.table(await db.getCircuitTransitions(parseInt(limit)));
+}
+
+export async function showBrowserProfiles(days: string = '7') {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog('\n=== Browser Profiles ===');
+  console.table((await db.getBrowserProfiles()).map(profile => ({
+    name: profile.name,
+    userAgent: JSON.parse(profile.fingerprint).userAgent,
+    successes: profile.successes,
+    failures: profile.failures,
+    verification_failures: profile.verification_failures,
+    consecutive_failures: profile.consecutive_failures,
+    last_success_at: profile.last_success_at || '',
+    retired: profile.retired_at ? `${profile.retired_at} (${profile.retire_reason})` : ''
+  })));
+
+  debugLog(`\n=== Daily Profile Health (last ${days} days) ===`);
+  console.table(await db.getBrowserProfileHistory(parseInt(days)));
+}
+
+export async function showVerificationReport(days: string = '7') {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog(`\n=== Verification Handlers (last ${days} days) ===`);
+  console.table(await db.getVerificationStats(parseInt(days)));
+
+  debugLog('\n=== Recent Attempts ===');
+  console.table((await db.getVerificationAttempts(20)).map(attempt => ({
+    id: attempt.id,
+    time: attempt.created_at,
+    handler: attempt.handler,
+    flight: `AS${attempt.flight_number} ${attempt.flight_date}`,
+    profile: attempt.profile || '',
+    attempt: attempt.attempt,
+    outcome: attempt.outcome,
+    duration_ms: attempt.duration_ms,
+    screenshots: attempt.screenshot_count ? `${attempt.screenshot_count} in ${attempt.screenshot_dir}` : '',
+    error: attempt.error || ''
+  })));
+}
+
+export async function writeVerificationReport(attemptId: string, outputFile?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const id = parseInt(attemptId);
+  if (!id) {
+    throw new Error('Usage: verification-report <attemptId> [outputFile]');
+  }
+
+  const report = await renderAttemptReport(id);
+  if (!report) {
+    throw new Error(`Verification attempt #${id} not found`);
+  }
+
+  const file = outputFile || `verification-attempt-${id}.html`;
+  fs.writeFileSync(file, report);
+  debugLog(`Wrote report for verification attempt #${id} to ${file}`);
+}
+
+export async function pruneScreenshots(days?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const summary = await pruneVerificationScreenshots(days ? parseInt(days) : undefined);
+  debugLog(`Removed screenshots of ${summary.attempts} attempts (${summary.directories} directories)`);
+}
+
+export async function manageProxies(action?: string, server?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  if (action === 'enable' || action === 'disable') {
+    if (!server) {
+      throw new Error(`Usage: proxies ${action} <server>`);
+    }
+    const found = await db.setProxyDisabled(server, action === 'disable' ? 'Disabled manually' : null);
+    debugLog(found ? `Proxy ${server} ${action}d` : `No proxy ${server} found`);
+    return;
+  }
+
+  debugLog('\n=== Proxies ===');
+  console.table((await db.getProxies()).map(proxy => ({
+    server: proxy.server,
+    successes: proxy.successes,
+    failures: proxy.failures,
+    verification_failures: proxy.verification_failures,
+    consecutive_failures: proxy.consecutive_failures,
+    success_rate: proxy.successes + proxy.failures
+      ? `${Math.round(100 * proxy.successes / (proxy.successes + proxy.failures))}%`
+      : '',
+    last_used_at: proxy.last_used_at || '',
+    disabled: proxy.disabled_at ? `${proxy.disabled_at} (${proxy.disabled_reason})` : ''
+  })));
+}
+
+export async function showPassenger(name?: string, flightNumber?: string, flightDate?: string) {
+  if (!name) {
+    throw new Error('Usage: passenger <name> [flightNumber flightDate]');
+  }
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  if (flightNumber && flightDate) {
+    debugLog(`\n=== ${name} on AS${flightNumber} ${flightDate} ===`);
+    console.table(await db.getPositionHistory(flightNumber, flightDate, name));
+    return;
+  }
+
+  debugLog(`\n=== Flights with ${name} ===`);
+  console.table(await db.getPassengerFlights(name));
+}
+
+export async function showClearances(days: string = '90') {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog(`\n=== Upgrade Clearances by Flight (last ${days} days, confidence >= 0.5) ===`);
+  console.table(await db.getClearanceStats({ days: parseInt(days) }));
+
+  debugLog('\n=== Recent Clearances ===');
+  console.table(await db.getRecentClearances(25));
+}
+
+export async function migrate(action: string = 'status') {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  if (action === 'up') {
+    const applied = await db.migrate();
+    debugLog(applied.length ? `Applied migrations ${applied.join(', ')}` : 'Database is up to date');
+    return;
+  }
+  if (action !== 'status') {
+    throw new Error('Usage: migrate [status|up]');
+  }
+
+  debugLog('\n=== Schema Migrations ===');
+  console.table((await db.getMigrationStatus()).map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied_at: migration.applied_at || 'pending'
+  })));
+}
+
+export async function compactDatabase() {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const dbPath = path.join(process.cwd(), 'alaska_waitlist.db');
+  const sizeBefore = fs.statSync(dbPath).size;
+
+  const summary = await applyRetention();
+  debugLog('Reclaiming free space...');
+  await db.vacuum();
+
+  const sizeAfter = fs.statSync(dbPath).size;
+  const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+  debugLog('\n=== Retention ===');
+  console.table([summary]);
+  debugLog('\n=== Rows ===');
+  console.table([await db.getTableCounts()]);
+  debugLog(`Database file: ${mb(sizeBefore)}MB -> ${mb(sizeAfter)}MB (reclaimed ${mb(sizeBefore - sizeAfter)}MB)`);
+}
+
+export async function backup(destination?: string) {
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  if (destination === 'list') {
+    debugLog('\n=== Backups ===');
+    console.table(listBackups().map(({ file, size, created_at, scheduled }) => ({
+      file,
+      size_mb: (size / 1024 / 1024).toFixed(1),
+      created_at,
+      scheduled
+    })));
+    return;
+  }
+
+  const backupPath = await backupDatabase(destination);
+  debugLog(`Backup written to ${backupPath}`);
+}
+
+export async function restore(source?: string) {
+  if (!source) {
+    throw new Error('Usage: restore <backup file>');
+  }
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const safetyCopy = await restoreDatabase(source);
+  debugLog(`Restored ${source}; the previous database was saved to ${safetyCopy}`);
+}
+
+export async function exportDatabase(directory?: string, format: string = 'ndjson') {
+  if (!directory || (format !== 'ndjson' && format !== 'csv')) {
+    throw new Error('Usage: export <directory> [ndjson|csv]');
+  }
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  const manifest = await exportData(directory, format as TransferFormat);
+  debugLog(`\n=== Exported to ${directory} ===`);
+  console.table(Object.entries(manifest.tables).map(([table, { file, rows }]) => ({ table, file, rows })));
+}
+
+export async function importDatabase(directory?: string) {
+  if (!directory) {
+    throw new Error('Usage: import <directory>');
+  }
+  await db.initDb();
+  if (!db.isDbAvailable) return;
+
+  debugLog(`\n=== Imported from ${directory} ===`);
+  console.table(await importData(directory));
 }
 
 // Export commands for CLI usage
-export const commands = {
+export const commands: Record<string, (...args: string[]) => Promise<void>> = {
   show: showDatabaseInfo,
   clear: clearDatabase,
   reset: resetDatabase,
-  stats: getDatabaseStats
+  stats: getDatabaseStats,
+  reparse: reparseArchivedPages,
+  'parse-report': showParseReport,
+  jobs: showScrapeJobs,
+  circuit: showCircuitEvents,
+  profiles: showBrowserProfiles,
+  verification: showVerificationReport,
+  'verification-report': writeVerificationReport,
+  'prune-screenshots': pruneScreenshots,
+  proxies: manageProxies,
+  passenger: showPassenger,
+  'repair-flights': repairFlights,
+  clearances: showClearances,
+  compact: compactDatabase,
+  backup,
+  restore,
+  export: exportDatabase,
+  import: importDatabase,
+  migrate
 };
\ No newline at end of file
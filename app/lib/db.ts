@@ -1,15 +1,25 @@
 import sqlite3 from 'sqlite3';
 import { Database as SQLiteDatabase, open } from 'sqlite';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import { debugLog } from './server-utils';
+import { getMigrationStatus, MigrationStatus, runMigrations } from './migrations';
+import { namesToEntries } from './flight-utils';
+import type { Cabin, FlightTimes, ParseDiagnostics, WaitlistList, WaitlistType } from './flight-utils';
+import { comparableFromSnapshotRow, diffWaitlistSnapshots, SeatCountField, WaitlistEventType } from './waitlist-diff';
+import { ClearanceEvidence, inferClearances } from './clearances';
+import { flightTimeColumns, fromSqliteTimestamp, SCHEDULE_FIELDS, ScheduleField, toSqliteTimestamp } from './record-format';
 
 export interface FlightSegment {
   flightNumber: string;
   date: string;
+  segmentDate?: string;
   origin: string;
   destination: string;
   departureTime: string;
   arrivalTime: string;
+  departure?: FlightTimes;
+  arrival?: FlightTimes;
 }
 
 export interface WaitlistSnapshot {
@@ -17,6 +27,8 @@ export interface WaitlistSnapshot {
   capacity: number | null;
   available: number | null;
   checkedIn: number | null;
+  lists?: WaitlistList[];
+  diagnostics?: ParseDiagnostics;
 }
 
 export interface DatabaseRecord {
@@ -29,11 +41,265 @@ export interface DatabaseRecord {
   departure_time: string;
   arrival_time: string;
   segment_index: number;
+  segment_date: string | null;
+  scheduled_departure: string | null;
+  estimated_departure: string | null;
+  actual_departure: string | null;
+  scheduled_arrival: string | null;
+  estimated_arrival: string | null;
+  actual_arrival: string | null;
   waitlist_names: string;
+  waitlist_lists: string | null;
   first_class_capacity: number | null;
   first_class_available: number | null;
   first_class_checked_in: number | null;
   snapshot_time: string;
+  last_confirmed_at: string | null;
+  parse_confidence: number | null;
+  is_suspect: number;
+  parse_diagnostics: string | null;
+}
+
+// The columns of DatabaseRecord that come from waitlist_snapshots
+export type SnapshotColumn =
+  | 'id' | 'flight_id' | 'waitlist_names' | 'waitlist_lists'
+  | 'first_class_capacity' | 'first_class_available' | 'first_class_checked_in'
+  | 'snapshot_time' | 'last_confirmed_at' | 'parse_confidence' | 'is_suspect' | 'parse_diagnostics';
+
+/**
+ * A flight segment with its latest snapshot. A segment that has no snapshot
+ * yet has every snapshot column null, as SQLite's LEFT JOIN returns it.
+ */
+export type LatestSnapshotRecord = DatabaseRecord | (Omit<DatabaseRecord, SnapshotColumn> & Record<SnapshotColumn, null>);
+
+export interface ArchivedPageRecord {
+  id: number;
+  flight_number: string;
+  flight_date: string;
+  fetched_at: string;
+  source: string;
+  url: string;
+  html_gz: Buffer;
+  html_size: number;
+}
+
+export type ScrapeJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+export interface ScrapeJobRecord {
+  id: number;
+  flight_number: string;
+  flight_date: string;
+  priority: number;
+  state: ScrapeJobState;
+  attempts: number;
+  max_attempts: number;
+  profile: string | null;
+  next_run_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface CircuitTransitionRecord {
+  id: number;
+  circuit: string;
+  from_state: string;
+  to_state: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface BrowserProfileRecord {
+  id: number;
+  name: string;
+  fingerprint: string;
+  successes: number;
+  failures: number;
+  verification_failures: number;
+  consecutive_failures: number;
+  created_at: string;
+  last_used_at: string | null;
+  last_success_at: string | null;
+  retired_at: string | null;
+  retire_reason: string | null;
+}
+
+export interface BrowserProfileDailyRecord {
+  profile_id: number;
+  name: string;
+  day: string;
+  successes: number;
+  verification_failures: number;
+  errors: number;
+}
+
+export interface VerificationAttemptRecord {
+  id: number;
+  handler: string;
+  flight_number: string;
+  flight_date: string;
+  profile: string | null;
+  attempt: number;
+  outcome: 'passed' | 'failed' | 'denied' | 'error';
+  duration_ms: number;
+  screenshot_dir: string | null;
+  screenshot_count: number;
+  frames: string | null;
+  log: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+// Outcomes of one handler's first attempts or retries
+export interface VerificationStatsRecord {
+  handler: string;
+  attempt_kind: 'first' | 'retry';
+  attempts: number;
+  passed: number;
+  failed: number;
+  denied: number;
+  errors: number;
+  pass_rate: number;
+  avg_duration_ms: number;
+}
+
+export interface ProxyRecord {
+  id: number;
+  server: string;
+  successes: number;
+  failures: number;
+  verification_failures: number;
+  consecutive_failures: number;
+  created_at: string;
+  last_used_at: string | null;
+  last_success_at: string | null;
+  disabled_at: string | null;
+  disabled_reason: string | null;
+}
+
+export interface SnapshotEntryRecord {
+  id: number;
+  snapshot_id: number;
+  cabin: Cabin;
+  list_type: WaitlistType;
+  position: number;
+  name: string;
+  seat: string | null;
+  cleared: number;
+}
+
+export interface PassengerFlightRecord {
+  flight_number: string;
+  flight_date: string;
+  segment_index: number;
+  origin: string;
+  destination: string;
+  cabin: Cabin;
+  list_type: WaitlistType;
+  first_seen: string;
+  last_seen: string;
+  snapshots: number;
+  best_position: number;
+}
+
+export interface PositionHistoryRecord {
+  snapshot_id: number;
+  snapshot_time: string;
+  segment_index: number;
+  cabin: Cabin;
+  list_type: WaitlistType;
+  position: number;
+  cleared: number;
+}
+
+/**
+ * A stretch of consecutive snapshots in which one name held a position.
+ */
+export interface PositionHolding {
+  name: string;
+  from: string;
+  to: string;
+  snapshots: number;
+}
+
+export interface WaitlistEventRecord {
+  id: number;
+  flight_id: number;
+  snapshot_id: number;
+  event_type: WaitlistEventType;
+  cabin: Cabin | null;
+  list_type: WaitlistType | null;
+  name: string | null;
+  old_position: number | null;
+  new_position: number | null;
+  field: SeatCountField | null;
+  old_value: number | null;
+  new_value: number | null;
+  created_at: string;
+}
+
+export interface ClearanceRecord {
+  id: number;
+  flight_id: number;
+  snapshot_id: number;
+  passenger: string;
+  old_position: number | null;
+  evidence: ClearanceEvidence;
+  confidence: number;
+  seats_taken: number;
+  checked_in_rise: number;
+  detected_at: string;
+}
+
+export interface ClearanceStatsRecord {
+  flight_number: string;
+  origin: string;
+  destination: string;
+  flights: number;
+  clearances: number;
+  average_cleared: number;
+  deepest_position: number | null;
+}
+
+export interface ClearanceStatsOptions {
+  flightNumber?: string;
+  origin?: string;
+  destination?: string;
+  /** Flights dated within this many days (default 90) */
+  days?: number;
+  /** Clearances below this confidence don't count (default 0.5) */
+  minConfidence?: number;
+}
+
+export interface EliteStatusRecord {
+  passenger: string;
+  status: string;
+  flight_number: string;
+  flight_date: string;
+  added_time: string;
+}
+
+export interface UserRecord {
+  id: number;
+  username: string;
+  password_hash: string;
+  first_name: string;
+  last_name: string;
+  status_level: string;
+  created_at: string;
+}
+
+export interface PurgeSummary {
+  flights: number;
+  snapshots: number;
+  archivedPages: number;
+}
+
+export interface SaveSnapshotOptions {
+  archiveId?: number | null;
+  snapshotTime?: Date;
 }
 
 export interface FlightRecord {
@@ -41,14 +307,82 @@ export interface FlightRecord {
   flight_number: string;
   flight_date: string;
   origin: string;
+  destination: string;
   departure_time: string;
+  arrival_time: string;
+  segment_index: number;
+  segment_date: string | null;
+  /** Structured times (SQLite UTC timestamps); null when the page didn't show one */
+  scheduled_departure: string | null;
+  estimated_departure: string | null;
+  actual_departure: string | null;
+  scheduled_arrival: string | null;
+  estimated_arrival: string | null;
+  actual_arrival: string | null;
+  created_at: string;
+}
+
+export interface FlightScheduleChangeRecord {
+  id: number;
+  flight_id: number;
+  field: ScheduleField;
+  old_value: string | null;
+  new_value: string | null;
+  changed_at: string;
 }
 
+export interface ParseQualityRecord {
+  flight_number: string;
+  flight_date: string;
+  segment_index: number;
+  snapshots: number;
+  suspect: number;
+  avg_confidence: number | null;
+}
+
+export type RecentClearanceRecord = Pick<FlightRecord, 'flight_number' | 'flight_date' | 'origin' | 'destination'> &
+  Pick<ClearanceRecord, 'passenger' | 'old_position' | 'evidence' | 'confidence' | 'detected_at'>;
+
+export interface ArchiveSizeRecord {
+  pages: number;
+  raw_bytes: number;
+  stored_bytes: number;
+}
+
+/**
+ * Snapshots pointing at a flights row that no longer exists, grouped by the
+ * missing flight id and the archived page they were parsed from.
+ */
+export interface OrphanedSnapshotGroup {
+  flight_id: number;
+  archive_id: number | null;
+  flight_number: string | null;
+  flight_date: string | null;
+  snapshots: number;
+  first_snapshot: string;
+  last_snapshot: string;
+}
+
+export type SqliteConnection = SQLiteDatabase<sqlite3.Database, sqlite3.Statement>;
+
+// Connection methods that send a statement, see Database.waitForTransactions
+const STATEMENT_METHODS = new Set(['run', 'get', 'all', 'each', 'exec', 'prepare']);
+
+// Set while code runs inside Database.inTransaction
+const transactionScope = new AsyncLocalStorage<true>();
+
 export class Database {
-  public db: SQLiteDatabase<sqlite3.Database, sqlite3.Statement> | null = null;
+  private db: SqliteConnection | null = null;
   public isDbAvailable = false;
   private initPromise: Promise<void> | null = null;
+  // Settles when the open transaction ends; null while none is open
+  private transactionEnded: Promise<void> | null = null;
 
+  /**
+   * Opens the database and applies pending schema migrations.
+   * DB_AUTO_MIGRATE=false leaves them to `npm run db migrate up`, e.g. to
+   * review `npm run db migrate status` before upgrading.
+   */
   async initDb(): Promise<void> {
     if (this.initPromise) {
       return this.initPromise;
@@ -61,13 +395,16 @@ export class Database {
           return;
         }
 
-        const dbPath = path.join(process.cwd(), 'alaska_waitlist.db');
-        this.db = await open({
+        // The memory backend keeps nothing on disk, including the scrape queue and archive
+        const dbPath = process.env.STORAGE_BACKEND === 'memory' ? ':memory:' : path.join(process.cwd(), 'alaska_waitlist.db');
+        this.db = this.waitForTransactions(await open({
           filename: dbPath,
           driver: sqlite3.Database
-        });
+        }));
         
-        await this.createTables();
+        if (process.env.DB_AUTO_MIGRATE !== 'false') {
+          await runMigrations(this.db);
+        }
         this.isDbAvailable = true;
         debugLog('Database initialized successfully at: ' + dbPath);
         resolve();
@@ -83,113 +420,547 @@ export class Database {
     return this.initPromise;
   }
 
-  private async createTables(): Promise<void> {
-    if (!this.db) return;
+  /**
+   * Inserts or updates the flights row for a segment, keeping its id stable
+   * so earlier snapshots stay linked. Schedule fields that changed since the
+   * last save are recorded in flight_schedule_history before being updated,
+   * in the same transaction.
+   */
+  async saveFlightSegment(segment: FlightSegment, segmentIndex: number): Promise<number | null> {
+    const database = this.db;
+    if (!this.isDbAvailable || !database) return null;
     
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS flights (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        flight_number TEXT NOT NULL,
-        flight_date TEXT NOT NULL,
-        origin TEXT NOT NULL,
-        destination TEXT NOT NULL,
-        departure_time TEXT NOT NULL,
-        arrival_time TEXT NOT NULL,
-        segment_index INTEGER NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(flight_number, flight_date, segment_index)
-      );
+    try {
+      const schedule: Record<ScheduleField, string | null> = {
+        origin: segment.origin,
+        destination: segment.destination,
+        departure_time: segment.departureTime,
+        arrival_time: segment.arrivalTime,
+        segment_date: segment.segmentDate || segment.date,
+        ...flightTimeColumns(segment)
+      };
+
+      // The history rows and the update they describe are written together or not at all
+      return await this.inTransaction(async () => {
+        const existing = await database.get<FlightRecord>(
+          'SELECT * FROM flights WHERE flight_number = ? AND flight_date = ? AND segment_index = ?',
+          [segment.flightNumber, segment.date, segmentIndex]
+        );
+        if (existing) {
+          for (const field of SCHEDULE_FIELDS) {
+            if (existing[field] !== schedule[field]) {
+              await database.run(
+                'INSERT INTO flight_schedule_history (flight_id, field, old_value, new_value) VALUES (?, ?, ?, ?)',
+                [existing.id, field, existing[field], schedule[field]]
+              );
+              debugLog(`Flight ${segment.flightNumber} ${segment.date} segment ${segmentIndex}: ${field} changed from ${existing[field]} to ${schedule[field]}`);
+            }
+          }
+        }
 
-      CREATE TABLE IF NOT EXISTS waitlist_snapshots (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        flight_id INTEGER REFERENCES flights(id),
-        waitlist_names TEXT NOT NULL,
-        first_class_capacity INTEGER,
-        first_class_available INTEGER,
-        first_class_checked_in INTEGER,
-        snapshot_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (flight_id) REFERENCES flights(id) ON DELETE CASCADE
+        const result = await database.get<{ id: number }>(`
+          INSERT INTO flights 
+          (flight_number, flight_date, segment_index, ${SCHEDULE_FIELDS.join(', ')})
+          VALUES (?, ?, ?, ${SCHEDULE_FIELDS.map(() => '?').join(', ')})
+          ON CONFLICT (flight_number, flight_date, segment_index) DO UPDATE SET
+            ${SCHEDULE_FIELDS.map(field => `${field} = excluded.${field}`).join(',\n            ')}
+          RETURNING id`,
+          [segment.flightNumber, segment.date, segmentIndex, ...SCHEDULE_FIELDS.map(field => schedule[field])]
+        );
+        return result?.id || null;
+      });
+    } catch (error) {
+      debugLog('Error saving flight segment: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      return null;
+    }
+  }
+
+  async getFlightScheduleHistory(flightNumber: string, flightDate: string): Promise<(FlightScheduleChangeRecord & { segment_index: number })[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all(`
+      SELECT h.*, f.segment_index
+      FROM flight_schedule_history h
+      JOIN flights f ON f.id = h.flight_id
+      WHERE f.flight_number = ? AND f.flight_date = ?
+      ORDER BY h.changed_at, h.id
+    `, [flightNumber, flightDate]);
+  }
+
+  async getFlightSegments(flightNumber: string, flightDate: string): Promise<FlightRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<FlightRecord[]>(
+      'SELECT * FROM flights WHERE flight_number = ? AND flight_date = ? ORDER BY segment_index',
+      [flightNumber, flightDate]
+    );
+  }
+
+  /**
+   * Flight segments dated between the two dates (YYYY-MM-DD, inclusive).
+   */
+  async getFlightsBetween(fromDate: string, toDate: string): Promise<FlightRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<FlightRecord[]>(
+      'SELECT * FROM flights WHERE flight_date BETWEEN ? AND ? ORDER BY flight_date, flight_number, segment_index',
+      [fromDate, toDate]
+    );
+  }
+
+  async getOrphanedSnapshotGroups(): Promise<OrphanedSnapshotGroup[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<OrphanedSnapshotGroup[]>(`
+      SELECT w.flight_id, w.archive_id, p.flight_number, p.flight_date,
+             COUNT(*) as snapshots,
+             MIN(w.snapshot_time) as first_snapshot,
+             MAX(w.snapshot_time) as last_snapshot
+      FROM waitlist_snapshots w
+      LEFT JOIN flights f ON f.id = w.flight_id
+      LEFT JOIN page_archive p ON p.id = w.archive_id
+      WHERE f.id IS NULL
+      GROUP BY w.flight_id, w.archive_id
+      ORDER BY w.flight_id
+    `);
+  }
+
+  /**
+   * Points snapshots saved under a flight id that no longer exists at the
+   * flight's current row. Returns the number of snapshots moved.
+   */
+  async relinkSnapshots(oldFlightId: number, archiveId: number | null, newFlightId: number): Promise<number> {
+    if (!this.isDbAvailable || !this.db) return 0;
+
+    const result = await this.db.run(
+      'UPDATE waitlist_snapshots SET flight_id = ? WHERE flight_id = ? AND archive_id IS ?',
+      [newFlightId, oldFlightId, archiveId]
+    );
+    return result.changes || 0;
+  }
+
+  /**
+   * Stores a snapshot only when it differs from the flight's previous one
+   * (names, lists or seat counts); otherwise the previous snapshot's
+   * last_confirmed_at is moved forward. The changes are recorded as
+   * waitlist_events. Suspect parses are always stored, never compared and
+   * never produce events. The snapshot, its entries, events and clearances
+   * are written in one transaction; a failure rolls all of them back and is
+   * thrown to the caller.
+   */
+  async saveWaitlistSnapshot(flightId: number, waitlistInfo: WaitlistSnapshot, options: SaveSnapshotOptions = {}): Promise<void> {
+    const database = this.db;
+    if (!this.isDbAvailable || !database || !flightId) return;
+
+    // The snapshot and everything derived from it are stored together or not at all
+    await this.inTransaction(async () => {
+      const observedAt = options.snapshotTime ? toSqliteTimestamp(options.snapshotTime) : null;
+      const suspect = !!waitlistInfo.diagnostics?.suspect;
+      const names = JSON.stringify(waitlistInfo.names);
+      const lists = waitlistInfo.lists ? JSON.stringify(waitlistInfo.lists) : null;
+
+      const previous = suspect ? undefined : await database.get<DatabaseRecord & { id: number }>(`
+        SELECT * FROM waitlist_snapshots
+        WHERE flight_id = ? AND is_suspect = 0 AND snapshot_time <= COALESCE(?, CURRENT_TIMESTAMP)
+        ORDER BY snapshot_time DESC, id DESC
+        LIMIT 1
+      `, [flightId, observedAt]);
+
+      if (previous &&
+          previous.waitlist_names === names &&
+          previous.waitlist_lists === lists &&
+          previous.first_class_capacity === waitlistInfo.capacity &&
+          previous.first_class_available === waitlistInfo.available &&
+          previous.first_class_checked_in === waitlistInfo.checkedIn) {
+        await database.run(`
+          UPDATE waitlist_snapshots
+          SET last_confirmed_at = MAX(COALESCE(last_confirmed_at, snapshot_time), COALESCE(?, CURRENT_TIMESTAMP))
+          WHERE id = ?
+        `, [observedAt, previous.id]);
+        return;
+      }
+
+      const result = await database.run(`
+        INSERT INTO waitlist_snapshots 
+        (flight_id, waitlist_names, waitlist_lists, first_class_capacity, first_class_available, first_class_checked_in,
+         archive_id, parse_confidence, is_suspect, parse_diagnostics, snapshot_time, last_confirmed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), COALESCE(?, CURRENT_TIMESTAMP))`,
+        [
+          flightId,
+          names,
+          lists,
+          waitlistInfo.capacity,
+          waitlistInfo.available,
+          waitlistInfo.checkedIn,
+          options.archiveId ?? null,
+          waitlistInfo.diagnostics?.confidence ?? null,
+          suspect ? 1 : 0,
+          waitlistInfo.diagnostics ? JSON.stringify(waitlistInfo.diagnostics) : null,
+          observedAt,
+          observedAt
+        ]
       );
+      if (result.lastID) {
+        await this.saveSnapshotEntries(result.lastID, waitlistInfo);
+        if (previous) {
+          await this.saveWaitlistEvents(flightId, result.lastID, previous, waitlistInfo, observedAt);
+        }
+        if (!suspect) {
+          await this.saveClearances(flightId, result.lastID, previous || null, waitlistInfo, observedAt);
+        }
+      }
+    });
+  }
+
+  /**
+   * Re-derives a flight segment's events and clearances by replaying its
+   * snapshots in order, e.g. after re-parsing replaced some of them and the
+   * ones stored after them were compared against the old parse.
+   */
+  async rebuildWaitlistHistory(flightId: number): Promise<void> {
+    const database = this.db;
+    if (!this.isDbAvailable || !database) return;
 
-      CREATE TABLE IF NOT EXISTS elite_status (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        passenger TEXT NOT NULL,
-        status TEXT NOT NULL,
-        flight_number TEXT NOT NULL,
-        flight_date TEXT NOT NULL,
-        added_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(passenger, flight_number, flight_date)
+    await this.inTransaction(async () => {
+      await database.run('DELETE FROM waitlist_events WHERE flight_id = ?', [flightId]);
+      await database.run('DELETE FROM clearances WHERE flight_id = ?', [flightId]);
+
+      const snapshots = await database.all<(DatabaseRecord & { id: number })[]>(
+        'SELECT * FROM waitlist_snapshots WHERE flight_id = ? AND is_suspect = 0 ORDER BY snapshot_time, id',
+        [flightId]
       );
+      let previous: DatabaseRecord | null = null;
+      for (const snapshot of snapshots) {
+        // Stored lists keep their entries, so the row reads back as a snapshot
+        const current = comparableFromSnapshotRow(snapshot) as WaitlistSnapshot;
+        if (previous) {
+          await this.saveWaitlistEvents(flightId, snapshot.id, previous, current, snapshot.snapshot_time);
+        }
+        await this.saveClearances(flightId, snapshot.id, previous, current, snapshot.snapshot_time);
+        previous = snapshot;
+      }
+    });
+  }
+
+  private async saveWaitlistEvents(
+    flightId: number,
+    snapshotId: number,
+    previous: DatabaseRecord,
+    waitlistInfo: WaitlistSnapshot,
+    observedAt: string | null
+  ): Promise<void> {
+    if (!this.db) return;
+
+    const events = diffWaitlistSnapshots(comparableFromSnapshotRow(previous), waitlistInfo);
+    if (!events.length) return;
+
+    await this.db.run(
+      `INSERT INTO waitlist_events
+       (flight_id, snapshot_id, event_type, cabin, list_type, name, old_position, new_position, field, old_value, new_value, created_at)
+       VALUES ${events.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))').join(', ')}`,
+      events.flatMap(event => [
+        flightId,
+        snapshotId,
+        event.type,
+        event.cabin ?? null,
+        event.listType ?? null,
+        event.name ?? null,
+        event.oldPosition ?? null,
+        event.newPosition ?? null,
+        event.field ?? null,
+        event.oldValue ?? null,
+        event.newValue ?? null,
+        observedAt
+      ])
+    );
+  }
+
+  private async saveClearances(
+    flightId: number,
+    snapshotId: number,
+    previous: DatabaseRecord | null,
+    waitlistInfo: WaitlistSnapshot,
+    observedAt: string | null
+  ): Promise<void> {
+    if (!this.db) return;
 
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        username TEXT NOT NULL UNIQUE,
-        password_hash TEXT NOT NULL,
-        first_name TEXT NOT NULL,
-        last_name TEXT NOT NULL,
-        status_level TEXT NOT NULL CHECK (status_level IN ('MVP', 'MVP_GOLD', 'MVP_GOLD_75K')),
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    // Someone back on the list didn't clear after all, unless the page said so
+    if (waitlistInfo.names.length) {
+      await this.db.run(
+        `DELETE FROM clearances WHERE flight_id = ? AND evidence != 'marker'
+         AND passenger IN (${waitlistInfo.names.map(() => '?').join(', ')})`,
+        [flightId, ...waitlistInfo.names]
       );
+    }
 
-      CREATE INDEX IF NOT EXISTS idx_flights_lookup ON flights(flight_number, flight_date);
-      CREATE INDEX IF NOT EXISTS idx_snapshots_flight ON waitlist_snapshots(flight_id);
-      CREATE INDEX IF NOT EXISTS idx_snapshots_time ON waitlist_snapshots(snapshot_time);
-      CREATE INDEX IF NOT EXISTS idx_elite_status_flight ON elite_status(flight_number, flight_date);
-      CREATE INDEX IF NOT EXISTS idx_elite_status_passenger ON elite_status(passenger);
-    `);
+    for (const clearance of inferClearances(previous ? comparableFromSnapshotRow(previous) : null, waitlistInfo)) {
+      await this.db.run(`
+        INSERT INTO clearances
+        (flight_id, snapshot_id, passenger, old_position, evidence, confidence, seats_taken, checked_in_rise, detected_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+        ON CONFLICT (flight_id, passenger) DO UPDATE SET
+          snapshot_id = excluded.snapshot_id,
+          old_position = COALESCE(clearances.old_position, excluded.old_position),
+          evidence = excluded.evidence,
+          confidence = excluded.confidence,
+          seats_taken = excluded.seats_taken,
+          checked_in_rise = excluded.checked_in_rise
+        WHERE excluded.confidence > clearances.confidence
+      `, [
+        flightId, snapshotId, clearance.passenger, clearance.oldPosition, clearance.evidence,
+        clearance.confidence, clearance.seatsTaken, clearance.checkedInRise, observedAt
+      ]);
+      debugLog(`Flight ${flightId}: ${clearance.passenger} likely cleared (${clearance.evidence}, confidence ${clearance.confidence})`);
+    }
   }
 
-  async saveFlightSegment(segment: FlightSegment, segmentIndex: number): Promise<number | null> {
+  async getClearances(flightNumber: string, flightDate: string): Promise<(ClearanceRecord & { segment_index: number })[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all(`
+      SELECT c.*, f.segment_index
+      FROM clearances c
+      JOIN flights f ON f.id = c.flight_id
+      WHERE f.flight_number = ? AND f.flight_date = ?
+      ORDER BY f.segment_index, c.detected_at, c.old_position, c.passenger
+    `, [flightNumber, flightDate]);
+  }
+
+  /**
+   * How many upgrades clear per flight and how deep into the list, by flight
+   * number and route. Only clearances at or above `minConfidence` count, and
+   * only flights within the last `days` days with a stored snapshot.
+   */
+  async getClearanceStats(options: ClearanceStatsOptions = {}): Promise<ClearanceStatsRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<ClearanceStatsRecord[]>(`
+      SELECT f.flight_number, f.origin, f.destination,
+             COUNT(DISTINCT f.id) as flights,
+             COUNT(c.id) as clearances,
+             ROUND(CAST(COUNT(c.id) AS REAL) / COUNT(DISTINCT f.id), 1) as average_cleared,
+             MAX(c.old_position) as deepest_position
+      FROM flights f
+      LEFT JOIN clearances c ON c.flight_id = f.id AND c.confidence >= ?
+      WHERE f.flight_date >= date('now', ?)
+        AND EXISTS (SELECT 1 FROM waitlist_snapshots w WHERE w.flight_id = f.id)
+        AND (? IS NULL OR f.flight_number = ?)
+        AND (? IS NULL OR f.origin = ?)
+        AND (? IS NULL OR f.destination = ?)
+      GROUP BY f.flight_number, f.origin, f.destination
+      ORDER BY clearances DESC, f.flight_number
+    `, [
+      options.minConfidence ?? 0.5,
+      `-${options.days ?? 90} days`,
+      options.flightNumber ?? null, options.flightNumber ?? null,
+      options.origin ?? null, options.origin ?? null,
+      options.destination ?? null, options.destination ?? null
+    ]);
+  }
+
+  private async saveSnapshotEntries(snapshotId: number, waitlistInfo: WaitlistSnapshot): Promise<void> {
+    if (!this.db) return;
+
+    // Without list details only the First Class upgrade names are known
+    const lists = waitlistInfo.lists?.length
+      ? waitlistInfo.lists
+      : [{ cabin: 'first' as Cabin, listType: 'upgrade' as WaitlistType, entries: namesToEntries(waitlistInfo.names) }];
+    const rows = lists.flatMap(list => list.entries.map(entry => [
+      snapshotId, list.cabin, list.listType, entry.position, entry.name, entry.seat, entry.cleared ? 1 : 0
+    ]));
+    if (!rows.length) return;
+
+    await this.db.run(
+      `INSERT INTO snapshot_entries (snapshot_id, cabin, list_type, position, name, seat, cleared)
+       VALUES ${rows.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+      rows.flat()
+    );
+  }
+
+  async getFlightId(flightNumber: string, flightDate: string, segmentIndex: number): Promise<number | null> {
     if (!this.isDbAvailable || !this.db) return null;
-    
+
+    const row = await this.db.get<{ id: number }>(
+      'SELECT id FROM flights WHERE flight_number = ? AND flight_date = ? AND segment_index = ?',
+      [flightNumber, flightDate, segmentIndex]
+    );
+    return row?.id ?? null;
+  }
+
+  async saveArchivedPage(page: Omit<ArchivedPageRecord, 'id'>): Promise<number | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
     try {
       const result = await this.db.run(`
-        INSERT OR REPLACE INTO flights 
-        (flight_number, flight_date, origin, destination, departure_time, arrival_time, segment_index)
+        INSERT INTO page_archive
+        (flight_number, flight_date, fetched_at, source, url, html_gz, html_size)
         VALUES (?, ?, ?, ?, ?, ?, ?)`,
         [
-          segment.flightNumber,
-          segment.date,
-          segment.origin,
-          segment.destination,
-          segment.departureTime,
-          segment.arrivalTime,
-          segmentIndex
+          page.flight_number,
+          page.flight_date,
+          page.fetched_at,
+          page.source,
+          page.url,
+          page.html_gz,
+          page.html_size
         ]
       );
       return result.lastID || null;
     } catch (error) {
-      debugLog('Error saving flight segment: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      debugLog('Error archiving status page: ' + (error instanceof Error ? error.message : 'Unknown error'));
       return null;
     }
   }
 
-  async saveWaitlistSnapshot(flightId: number, waitlistInfo: WaitlistSnapshot): Promise<void> {
-    if (!this.isDbAvailable || !this.db || !flightId) return;
-    
-    try {
-      await this.db.run(`
-        INSERT INTO waitlist_snapshots 
-        (flight_id, waitlist_names, first_class_capacity, first_class_available, first_class_checked_in)
-        VALUES (?, ?, ?, ?, ?)`,
-        [
-          flightId,
-          JSON.stringify(waitlistInfo.names),
-          waitlistInfo.capacity,
-          waitlistInfo.available,
-          waitlistInfo.checkedIn
-        ]
-      );
-    } catch (error) {
-      debugLog('Error saving waitlist snapshot: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  async getArchivedPages(flightNumber?: string, flightDate?: string): Promise<ArchivedPageRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (flightNumber) {
+      conditions.push('flight_number = ?');
+      params.push(flightNumber);
     }
+    if (flightDate) {
+      conditions.push('flight_date = ?');
+      params.push(flightDate);
+    }
+
+    return this.db.all<ArchivedPageRecord[]>(`
+      SELECT * FROM page_archive
+      ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
+      ORDER BY fetched_at
+    `, params);
   }
 
-  async getLatestWaitlistData(flightNumber: string, flightDate: string): Promise<DatabaseRecord[]> {
+  async deleteSnapshotsForArchive(archiveId: number): Promise<number> {
+    if (!this.isDbAvailable || !this.db) return 0;
+
+    await this.db.run(
+      'DELETE FROM snapshot_entries WHERE snapshot_id IN (SELECT id FROM waitlist_snapshots WHERE archive_id = ?)',
+      [archiveId]
+    );
+    await this.db.run(
+      'DELETE FROM waitlist_events WHERE snapshot_id IN (SELECT id FROM waitlist_snapshots WHERE archive_id = ?)',
+      [archiveId]
+    );
+    await this.db.run(
+      'DELETE FROM clearances WHERE snapshot_id IN (SELECT id FROM waitlist_snapshots WHERE archive_id = ?)',
+      [archiveId]
+    );
+    const result = await this.db.run('DELETE FROM waitlist_snapshots WHERE archive_id = ?', [archiveId]);
+    return result.changes || 0;
+  }
+
+  /**
+   * Changes to a flight's waitlists and seat counts, oldest first.
+   */
+  async getWaitlistEvents(
+    flightNumber: string,
+    flightDate: string,
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<(WaitlistEventRecord & { segment_index: number })[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all(`
+      SELECT e.*, f.segment_index
+      FROM waitlist_events e
+      JOIN flights f ON f.id = e.flight_id
+      WHERE f.flight_number = ? AND f.flight_date = ? AND e.created_at >= ?
+      ORDER BY e.created_at, e.id
+      LIMIT ?
+    `, [flightNumber, flightDate, options.since ? toSqliteTimestamp(options.since) : '', options.limit ?? 500]);
+  }
+
+  async getSnapshotEntries(snapshotId: number): Promise<SnapshotEntryRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<SnapshotEntryRecord[]>(
+      'SELECT * FROM snapshot_entries WHERE snapshot_id = ? ORDER BY cabin, list_type, position',
+      [snapshotId]
+    );
+  }
+
+  /**
+   * Every flight segment and list a name has appeared on, most recent first.
+   */
+  async getPassengerFlights(name: string): Promise<PassengerFlightRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<PassengerFlightRecord[]>(`
+      SELECT f.flight_number, f.flight_date, f.segment_index, f.origin, f.destination,
+             e.cabin, e.list_type,
+             MIN(w.snapshot_time) as first_seen,
+             MAX(w.snapshot_time) as last_seen,
+             COUNT(*) as snapshots,
+             MIN(e.position) as best_position
+      FROM snapshot_entries e
+      JOIN waitlist_snapshots w ON w.id = e.snapshot_id AND w.is_suspect = 0
+      JOIN flights f ON f.id = w.flight_id
+      WHERE e.name = ?
+      GROUP BY f.id, e.cabin, e.list_type
+      ORDER BY f.flight_date DESC, f.flight_number, f.segment_index
+    `, [name]);
+  }
+
+  /**
+   * A name's position in every snapshot of a flight it appears in.
+   */
+  async getPositionHistory(flightNumber: string, flightDate: string, name: string): Promise<PositionHistoryRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<PositionHistoryRecord[]>(`
+      SELECT w.id as snapshot_id, w.snapshot_time, f.segment_index, e.cabin, e.list_type, e.position, e.cleared
+      FROM flights f
+      JOIN waitlist_snapshots w ON w.flight_id = f.id AND w.is_suspect = 0
+      JOIN snapshot_entries e ON e.snapshot_id = w.id
+      WHERE f.flight_number = ? AND f.flight_date = ? AND e.name = ?
+      ORDER BY f.segment_index, w.snapshot_time, w.id
+    `, [flightNumber, flightDate, name]);
+  }
+
+  /**
+   * Who held a position on a list over time: one holding per unbroken run
+   * of snapshots with the same name there. A snapshot where the position is
+   * empty or held by someone else ends the run.
+   */
+  async getPositionHoldings(
+    flightNumber: string,
+    flightDate: string,
+    position: number,
+    options: { segmentIndex?: number; cabin?: Cabin; listType?: WaitlistType } = {}
+  ): Promise<PositionHolding[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    const rows = await this.db.all<{ snapshot_time: string; name: string | null }[]>(`
+      SELECT w.snapshot_time, e.name
+      FROM flights f
+      JOIN waitlist_snapshots w ON w.flight_id = f.id AND w.is_suspect = 0
+      LEFT JOIN snapshot_entries e ON e.snapshot_id = w.id
+        AND e.cabin = ? AND e.list_type = ? AND e.position = ?
+      WHERE f.flight_number = ? AND f.flight_date = ? AND f.segment_index = ?
+      ORDER BY w.snapshot_time, w.id
+    `, [options.cabin ?? 'first', options.listType ?? 'upgrade', position, flightNumber, flightDate, options.segmentIndex ?? 0]);
+
+    const holdings: PositionHolding[] = [];
+    let current: PositionHolding | null = null;
+    for (const row of rows) {
+      if (current && row.name === current.name) {
+        current.to = row.snapshot_time;
+        current.snapshots++;
+      } else {
+        current = row.name ? { name: row.name, from: row.snapshot_time, to: row.snapshot_time, snapshots: 1 } : null;
+        if (current) holdings.push(current);
+      }
+    }
+    return holdings;
+  }
+
+  async getLatestWaitlistData(flightNumber: string, flightDate: string): Promise<LatestSnapshotRecord[]> {
     if (!this.isDbAvailable || !this.db) return [];
     
     try {
-      const result = await this.db.all(`
+      const result = await this.db.all<LatestSnapshotRecord[]>(`
         WITH LatestSnapshots AS (
           SELECT 
             w.*,
@@ -200,18 +971,26 @@ export class Database {
             f.departure_time,
             f.arrival_time,
             f.segment_index,
+            f.segment_date,
+            f.scheduled_departure,
+            f.estimated_departure,
+            f.actual_departure,
+            f.scheduled_arrival,
+            f.estimated_arrival,
+            f.actual_arrival,
             ROW_NUMBER() OVER (
               PARTITION BY f.id 
               ORDER BY w.snapshot_time DESC
             ) as rn
           FROM flights f
-          LEFT JOIN waitlist_snapshots w ON f.id = w.flight_id
+          -- Suspect parses are kept for inspection but never served as latest data
+          LEFT JOIN waitlist_snapshots w ON f.id = w.flight_id AND w.is_suspect = 0
           WHERE f.flight_number = ? AND f.flight_date = ?
         )
         SELECT * FROM LatestSnapshots 
         WHERE rn = 1
         ORDER BY segment_index
-      `, [flightNumber, flightDate]) as DatabaseRecord[];
+      `, [flightNumber, flightDate]);
       
       return result;
     } catch (error) {
@@ -220,6 +999,798 @@ export class Database {
     }
   }
 
+  /**
+   * The snapshot of a flight segment taken before `before` (a SQLite timestamp).
+   */
+  async getPreviousSnapshot(flightId: number, before: string): Promise<DatabaseRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const row = await this.db.get<DatabaseRecord>(`
+      SELECT *
+      FROM waitlist_snapshots
+      WHERE flight_id = ? AND snapshot_time < ?
+      ORDER BY snapshot_time DESC
+      LIMIT 1
+    `, [flightId, before]);
+    return row || null;
+  }
+
+  /**
+   * Elite statuses recorded for a flight, most recent first.
+   */
+  async getEliteStatuses(flightNumber: string, flightDate: string): Promise<EliteStatusRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<EliteStatusRecord[]>(`
+      SELECT passenger, status, flight_number, flight_date, added_time
+      FROM elite_status
+      WHERE flight_number = ? AND flight_date = ?
+      ORDER BY added_time DESC
+    `, [flightNumber, flightDate]);
+  }
+
+  async saveEliteStatuses(flightNumber: string, flightDate: string, statuses: Map<string, string>): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    for (const [passenger, status] of Array.from(statuses.entries())) {
+      await this.db.run(`
+        INSERT OR REPLACE INTO elite_status
+        (passenger, status, flight_number, flight_date, added_time)
+        VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      `, [passenger, status, flightNumber, flightDate]);
+    }
+  }
+
+  async createUser(user: Omit<UserRecord, 'id' | 'created_at'>): Promise<UserRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const result = await this.db.run(`
+      INSERT INTO users
+      (username, password_hash, first_name, last_name, status_level)
+      VALUES (?, ?, ?, ?, ?)
+    `, [user.username, user.password_hash, user.first_name, user.last_name, user.status_level]);
+
+    if (!result.lastID) return null;
+    const created = await this.db.get<UserRecord>('SELECT * FROM users WHERE id = ?', [result.lastID]);
+    return created || null;
+  }
+
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const user = await this.db.get<UserRecord>('SELECT * FROM users WHERE username = ?', [username]);
+    return user || null;
+  }
+
+  /**
+   * Adds a scrape job, or returns the existing unfinished job for the same
+   * flight. Re-enqueueing raises the job's priority to the higher of the two;
+   * a job waiting on a retry backoff is made due now when its priority is
+   * raised or when `runNow` is set, e.g. because a user asked again. A
+   * requested browser profile replaces the job's for its next attempt.
+   */
+  async enqueueScrapeJob(flightNumber: string, flightDate: string, priority: number, maxAttempts: number, runNow: boolean = false, profile: string | null = null): Promise<number | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const existing = await this.db.get<ScrapeJobRecord>(`
+      SELECT * FROM scrape_jobs
+      WHERE flight_number = ? AND flight_date = ? AND state IN ('queued', 'running', 'failed')
+    `, [flightNumber, flightDate]);
+
+    if (existing) {
+      if (priority > existing.priority || (runNow && existing.state === 'failed')) {
+        await this.db.run(`
+          UPDATE scrape_jobs
+          SET priority = MAX(priority, ?),
+              next_run_at = CASE WHEN state = 'failed' THEN CURRENT_TIMESTAMP ELSE next_run_at END,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `, [priority, existing.id]);
+      }
+      if (profile && profile !== existing.profile) {
+        await this.db.run(`
+          UPDATE scrape_jobs SET profile = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+        `, [profile, existing.id]);
+      }
+      return existing.id;
+    }
+
+    const result = await this.db.run(`
+      INSERT INTO scrape_jobs (flight_number, flight_date, priority, max_attempts, profile)
+      VALUES (?, ?, ?, ?, ?)
+    `, [flightNumber, flightDate, priority, maxAttempts, profile]);
+    return result.lastID || null;
+  }
+
+  /**
+   * Marks the most urgent due job as running and returns it.
+   */
+  async claimNextScrapeJob(): Promise<ScrapeJobRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const job = await this.db.get<ScrapeJobRecord>(`
+      UPDATE scrape_jobs
+      SET state = 'running',
+          attempts = attempts + 1,
+          started_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM scrape_jobs
+        WHERE state IN ('queued', 'failed') AND next_run_at <= CURRENT_TIMESTAMP
+        ORDER BY priority DESC, next_run_at, id
+        LIMIT 1
+      )
+      RETURNING *
+    `);
+    return job || null;
+  }
+
+  async completeScrapeJob(jobId: number): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run(`
+      UPDATE scrape_jobs
+      SET state = 'succeeded', last_error = NULL, finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [jobId]);
+  }
+
+  /**
+   * Records a failed attempt. With a retry time the job goes back to waiting
+   * ('failed'); without one it is given up on ('dead').
+   */
+  async failScrapeJob(jobId: number, error: string, retryAt: Date | null): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run(`
+      UPDATE scrape_jobs
+      SET state = ?,
+          last_error = ?,
+          next_run_at = COALESCE(?, next_run_at),
+          finished_at = CASE WHEN ? IS NULL THEN CURRENT_TIMESTAMP ELSE NULL END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [
+      retryAt ? 'failed' : 'dead',
+      error,
+      retryAt ? toSqliteTimestamp(retryAt) : null,
+      retryAt ? toSqliteTimestamp(retryAt) : null,
+      jobId
+    ]);
+  }
+
+  /**
+   * Puts a claimed job back in the queue without counting the attempt, for
+   * work that was never tried (e.g. because the scrape circuit is open).
+   */
+  async deferScrapeJob(jobId: number, reason: string, runAt: Date): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run(`
+      UPDATE scrape_jobs
+      SET state = 'queued',
+          attempts = MAX(attempts - 1, 0),
+          last_error = ?,
+          next_run_at = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [reason, toSqliteTimestamp(runAt), jobId]);
+  }
+
+  /**
+   * Jobs left 'running' by a process that died are put back in the queue.
+   */
+  async requeueInterruptedScrapeJobs(): Promise<number> {
+    if (!this.isDbAvailable || !this.db) return 0;
+
+    const result = await this.db.run(`
+      UPDATE scrape_jobs
+      SET state = 'queued', next_run_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE state = 'running'
+    `);
+    return result.changes || 0;
+  }
+
+  async getNextScrapeJobTime(): Promise<Date | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const row = await this.db.get<{ next_run_at: string | null }>(`
+      SELECT MIN(next_run_at) AS next_run_at FROM scrape_jobs WHERE state IN ('queued', 'failed')
+    `);
+    return row?.next_run_at ? fromSqliteTimestamp(row.next_run_at) : null;
+  }
+
+  async getScrapeJobs(state?: ScrapeJobState, limit: number = 50): Promise<ScrapeJobRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<ScrapeJobRecord[]>(`
+      SELECT * FROM scrape_jobs
+      ${state ? 'WHERE state = ?' : ''}
+      ORDER BY updated_at DESC, id DESC
+      LIMIT ?
+    `, state ? [state, limit] : [limit]);
+  }
+
+  async getScrapeJobCounts(): Promise<Record<string, number>> {
+    if (!this.isDbAvailable || !this.db) return {};
+
+    const rows = await this.db.all<{ state: string; count: number }[]>(`
+      SELECT state, COUNT(*) AS count FROM scrape_jobs GROUP BY state
+    `);
+    return Object.fromEntries(rows.map(row => [row.state, row.count]));
+  }
+
+  async recordCircuitTransition(circuit: string, fromState: string, toState: string, reason: string): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run(`
+      INSERT INTO circuit_breaker_events (circuit, from_state, to_state, reason)
+      VALUES (?, ?, ?, ?)
+    `, [circuit, fromState, toState, reason]);
+  }
+
+  async getLastCircuitTransition(circuit: string): Promise<CircuitTransitionRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const row = await this.db.get<CircuitTransitionRecord>(`
+      SELECT * FROM circuit_breaker_events WHERE circuit = ? ORDER BY id DESC LIMIT 1
+    `, [circuit]);
+    return row || null;
+  }
+
+  async getCircuitTransitions(limit: number = 50): Promise<CircuitTransitionRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<CircuitTransitionRecord[]>(`
+      SELECT * FROM circuit_breaker_events ORDER BY id DESC LIMIT ?
+    `, [limit]);
+  }
+
+  async createBrowserProfile(name: string, fingerprint: string): Promise<BrowserProfileRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const record = await this.db.get<BrowserProfileRecord>(`
+      INSERT INTO browser_profiles (name, fingerprint) VALUES (?, ?)
+      RETURNING *
+    `, [name, fingerprint]);
+    return record || null;
+  }
+
+  async getBrowserProfile(name: string): Promise<BrowserProfileRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const record = await this.db.get<BrowserProfileRecord>('SELECT * FROM browser_profiles WHERE name = ?', [name]);
+    return record || null;
+  }
+
+  async getActiveBrowserProfiles(): Promise<BrowserProfileRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<BrowserProfileRecord[]>('SELECT * FROM browser_profiles WHERE retired_at IS NULL ORDER BY id');
+  }
+
+  async getBrowserProfiles(): Promise<BrowserProfileRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<BrowserProfileRecord[]>('SELECT * FROM browser_profiles ORDER BY retired_at IS NOT NULL, id');
+  }
+
+  /**
+   * Updates a profile's running counters and its per-day history.
+   */
+  async recordBrowserProfileOutcome(profileId: number, outcome: 'success' | 'verification_failed' | 'error'): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    const success = outcome === 'success' ? 1 : 0;
+    const verificationFailure = outcome === 'verification_failed' ? 1 : 0;
+    const error = outcome === 'error' ? 1 : 0;
+
+    await this.db.run(`
+      UPDATE browser_profiles
+      SET successes = successes + ?,
+          failures = failures + ?,
+          verification_failures = verification_failures + ?,
+          consecutive_failures = CASE WHEN ? THEN 0 ELSE consecutive_failures + ? END,
+          last_used_at = CURRENT_TIMESTAMP,
+          last_success_at = CASE WHEN ? THEN CURRENT_TIMESTAMP ELSE last_success_at END
+      WHERE id = ?
+    `, [success, 1 - success, verificationFailure, success, verificationFailure, success, profileId]);
+
+    await this.db.run(`
+      INSERT INTO browser_profile_daily (profile_id, day, successes, verification_failures, errors)
+      VALUES (?, date('now'), ?, ?, ?)
+      ON CONFLICT (profile_id, day) DO UPDATE SET
+        successes = successes + excluded.successes,
+        verification_failures = verification_failures + excluded.verification_failures,
+        errors = errors + excluded.errors
+    `, [profileId, success, verificationFailure, error]);
+  }
+
+  async retireBrowserProfile(profileId: number, reason: string): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run(`
+      UPDATE browser_profiles SET retired_at = CURRENT_TIMESTAMP, retire_reason = ? WHERE id = ?
+    `, [reason, profileId]);
+  }
+
+  async getBrowserProfileHistory(days: number): Promise<BrowserProfileDailyRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<BrowserProfileDailyRecord[]>(`
+      SELECT d.*, p.name
+      FROM browser_profile_daily d
+      JOIN browser_profiles p ON p.id = d.profile_id
+      WHERE d.day >= date('now', ?)
+      ORDER BY d.day DESC, p.name
+    `, [`-${days} days`]);
+  }
+
+  async recordVerificationAttempt(attempt: Omit<VerificationAttemptRecord, 'id' | 'created_at'>): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run(`
+      INSERT INTO verification_attempts
+        (handler, flight_number, flight_date, profile, attempt, outcome, duration_ms, screenshot_dir, screenshot_count, frames, log, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      attempt.handler,
+      attempt.flight_number,
+      attempt.flight_date,
+      attempt.profile,
+      attempt.attempt,
+      attempt.outcome,
+      attempt.duration_ms,
+      attempt.screenshot_dir,
+      attempt.screenshot_count,
+      attempt.frames,
+      attempt.log,
+      attempt.error
+    ]);
+  }
+
+  async getVerificationAttempt(attemptId: number): Promise<VerificationAttemptRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const attempt = await this.db.get<VerificationAttemptRecord>('SELECT * FROM verification_attempts WHERE id = ?', [attemptId]);
+    return attempt || null;
+  }
+
+  /**
+   * Attempts recorded before `before` (a SQLite timestamp) that still have screenshots.
+   */
+  async getVerificationAttemptsWithScreenshots(before: string): Promise<VerificationAttemptRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<VerificationAttemptRecord[]>(`
+      SELECT * FROM verification_attempts WHERE screenshot_dir IS NOT NULL AND created_at < ?
+    `, [before]);
+  }
+
+  async clearVerificationScreenshots(attemptIds: number[]): Promise<number> {
+    if (!this.isDbAvailable || !this.db || !attemptIds.length) return 0;
+
+    const result = await this.db.run(`
+      UPDATE verification_attempts
+      SET screenshot_dir = NULL, screenshot_count = 0, frames = NULL
+      WHERE id IN (${attemptIds.map(() => '?').join(', ')})
+    `, attemptIds);
+    return result.changes || 0;
+  }
+
+  async getVerificationAttempts(limit: number = 50): Promise<VerificationAttemptRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<VerificationAttemptRecord[]>(`
+      SELECT * FROM verification_attempts ORDER BY id DESC LIMIT ?
+    `, [limit]);
+  }
+
+  /**
+   * Success rate and timing per handler (and per first/retry attempt) over
+   * the last `days` days.
+   */
+  async getVerificationStats(days: number): Promise<VerificationStatsRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<VerificationStatsRecord[]>(`
+      SELECT
+        handler,
+        CASE WHEN attempt = 1 THEN 'first' ELSE 'retry' END AS attempt_kind,
+        COUNT(*) AS attempts,
+        SUM(outcome = 'passed') AS passed,
+        SUM(outcome = 'failed') AS failed,
+        SUM(outcome = 'denied') AS denied,
+        SUM(outcome = 'error') AS errors,
+        ROUND(100.0 * SUM(outcome = 'passed') / COUNT(*), 1) AS pass_rate,
+        ROUND(AVG(duration_ms)) AS avg_duration_ms
+      FROM verification_attempts
+      WHERE created_at >= datetime('now', ?)
+      GROUP BY handler, attempt_kind
+      ORDER BY handler, attempt_kind
+    `, [`-${days} days`]);
+  }
+
+  async ensureProxy(server: string): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.run('INSERT OR IGNORE INTO proxies (server) VALUES (?)', [server]);
+  }
+
+  async getProxies(): Promise<ProxyRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<ProxyRecord[]>('SELECT * FROM proxies ORDER BY id');
+  }
+
+  /**
+   * Updates a proxy's counters and returns the updated row.
+   */
+  async recordProxyOutcome(proxyId: number, outcome: 'success' | 'verification_failed' | 'error'): Promise<ProxyRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const success = outcome === 'success' ? 1 : 0;
+    const record = await this.db.get<ProxyRecord>(`
+      UPDATE proxies
+      SET successes = successes + ?,
+          failures = failures + ?,
+          verification_failures = verification_failures + ?,
+          consecutive_failures = CASE WHEN ? THEN 0 ELSE consecutive_failures + 1 END,
+          last_used_at = CURRENT_TIMESTAMP,
+          last_success_at = CASE WHEN ? THEN CURRENT_TIMESTAMP ELSE last_success_at END
+      WHERE id = ?
+      RETURNING *
+    `, [success, 1 - success, outcome === 'verification_failed' ? 1 : 0, success, success, proxyId]);
+    return record || null;
+  }
+
+  /**
+   * Disables a proxy with a reason, or re-enables it when reason is null.
+   * Returns whether a proxy with that server exists.
+   */
+  async setProxyDisabled(server: string, reason: string | null): Promise<boolean> {
+    if (!this.isDbAvailable || !this.db) return false;
+
+    const result = await this.db.run(`
+      UPDATE proxies
+      SET disabled_at = CASE WHEN ? IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+          disabled_reason = ?,
+          consecutive_failures = CASE WHEN ? IS NULL THEN 0 ELSE consecutive_failures END
+      WHERE server = ?
+    `, [reason, reason, reason, server]);
+    return (result.changes || 0) > 0;
+  }
+
+  /**
+   * Row counts of the main tables, cheap enough to log on every request.
+   */
+  async getTableCounts(): Promise<Record<string, number>> {
+    if (!this.isDbAvailable || !this.db) return {};
+
+    const tables = ['flights', 'waitlist_snapshots', 'snapshot_entries', 'waitlist_events', 'clearances', 'page_archive'];
+    const row = await this.db.get<Record<string, number>>(
+      `SELECT ${tables.map(table => `(SELECT COUNT(*) FROM ${table}) AS ${table}`).join(', ')}`
+    );
+    return row || {};
+  }
+
+  async getArchiveSize(): Promise<ArchiveSizeRecord | null> {
+    if (!this.isDbAvailable || !this.db) return null;
+
+    const size = await this.db.get<ArchiveSizeRecord>(`
+      SELECT COUNT(*) AS pages, COALESCE(SUM(html_size), 0) AS raw_bytes, COALESCE(SUM(LENGTH(html_gz)), 0) AS stored_bytes
+      FROM page_archive
+    `);
+    return size || null;
+  }
+
+  /**
+   * Snapshots per flight segment in the last `days` days with how many were
+   * suspect, most suspect first.
+   */
+  async getParseQuality(days: number): Promise<ParseQualityRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<ParseQualityRecord[]>(`
+      SELECT 
+        f.flight_number,
+        f.flight_date,
+        f.segment_index,
+        COUNT(*) AS snapshots,
+        SUM(w.is_suspect) AS suspect,
+        ROUND(AVG(w.parse_confidence), 2) AS avg_confidence
+      FROM waitlist_snapshots w
+      JOIN flights f ON w.flight_id = f.id
+      WHERE w.snapshot_time >= datetime('now', ?)
+      GROUP BY f.id
+      ORDER BY suspect DESC, f.flight_date DESC
+    `, [`-${days} days`]);
+  }
+
+  /**
+   * Parse diagnostics of the suspect snapshots from the last `days` days.
+   */
+  async getSuspectDiagnostics(days: number): Promise<ParseDiagnostics[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    const rows = await this.db.all<{ parse_diagnostics: string }[]>(`
+      SELECT parse_diagnostics FROM waitlist_snapshots
+      WHERE is_suspect = 1 AND parse_diagnostics IS NOT NULL AND snapshot_time >= datetime('now', ?)
+    `, [`-${days} days`]);
+    return rows.map(row => JSON.parse(row.parse_diagnostics));
+  }
+
+  async getRecentClearances(limit: number = 25): Promise<RecentClearanceRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<RecentClearanceRecord[]>(`
+      SELECT f.flight_number, f.flight_date, f.origin, f.destination, c.passenger, c.old_position,
+             c.evidence, c.confidence, c.detected_at
+      FROM clearances c
+      JOIN flights f ON f.id = c.flight_id
+      ORDER BY c.detected_at DESC
+      LIMIT ?
+    `, [limit]);
+  }
+
+  /**
+   * Deletes every flight, snapshot and the operational state, keeping users,
+   * elite statuses, browser profiles and proxies.
+   */
+  async clearAllData(): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.exec(`
+      DELETE FROM snapshot_entries;
+      DELETE FROM waitlist_events;
+      DELETE FROM clearances;
+      DELETE FROM waitlist_snapshots;
+      DELETE FROM page_archive;
+      DELETE FROM scrape_jobs;
+      DELETE FROM circuit_breaker_events;
+      DELETE FROM verification_attempts;
+      DELETE FROM flight_schedule_history;
+      DELETE FROM flights;
+      VACUUM;
+    `);
+  }
+
+  async vacuum(): Promise<void> {
+    if (!this.isDbAvailable || !this.db) return;
+
+    await this.db.exec('VACUUM');
+  }
+
+  /**
+   * Applies pending schema migrations, for when DB_AUTO_MIGRATE=false left
+   * them to `npm run db migrate up`; returns the versions applied.
+   */
+  async migrate(): Promise<number[]> {
+    return this.withConnection(runMigrations);
+  }
+
+  async getMigrationStatus(): Promise<MigrationStatus[]> {
+    return this.withConnection(getMigrationStatus);
+  }
+
+  /**
+   * Closes the connection; the next initDb() opens it again.
+   */
+  async close(): Promise<void> {
+    const database = this.db;
+    this.db = null;
+    this.isDbAvailable = false;
+    this.initPromise = null;
+    await database?.close();
+  }
+
+  /**
+   * Hands the connection itself to maintenance work that operates below the
+   * tables: schema migrations, online backups and restores through SQLite's
+   * backup API, and export/import. Everything else goes through the methods
+   * above. Statements sent on it still wait for an open transaction.
+   */
+  async withConnection<T>(work: (connection: SqliteConnection) => Promise<T>): Promise<T> {
+    if (!this.isDbAvailable || !this.db) {
+      throw new Error('Database is not available');
+    }
+    return work(this.db);
+  }
+
+  /**
+   * Departed flight segments that haven't been compacted yet.
+   */
+  async getFlightsToCompact(departedBefore: string): Promise<FlightRecord[]> {
+    if (!this.isDbAvailable || !this.db) return [];
+
+    return this.db.all<FlightRecord[]>(
+      'SELECT * FROM flights WHERE flight_date < ? AND compacted_at IS NULL ORDER BY flight_date, flight_number, segment_index',
+      [departedBefore]
+    );
+  }
+
+  /**
+   * Thins a departed flight segment's snapshots down to the first, the last,
+   * those a clearance was inferred from and those where a list or the seat
+   * counts changed. Repeats and suspect parses are removed; their events move
+   * to the kept snapshot before them. Returns the number of snapshots removed.
+   */
+  async compactFlightSnapshots(flightId: number): Promise<number> {
+    const database = this.db;
+    if (!this.isDbAvailable || !database) return 0;
+
+    // Moving events and deleting snapshots must not stop halfway
+    return this.inTransaction(async () => {
+      const snapshots = await database.all<(DatabaseRecord & { id: number })[]>(
+        'SELECT * FROM waitlist_snapshots WHERE flight_id = ? ORDER BY snapshot_time, id',
+        [flightId]
+      );
+      const pinned = new Set((await database.all<{ snapshot_id: number }[]>(
+        'SELECT snapshot_id FROM clearances WHERE flight_id = ?',
+        [flightId]
+      )).map(row => row.snapshot_id));
+
+      const valid = snapshots.filter(snapshot => !snapshot.is_suspect);
+      const keyOf = (snapshot: DatabaseRecord) => JSON.stringify([
+        snapshot.waitlist_names, snapshot.waitlist_lists, snapshot.first_class_capacity, snapshot.first_class_available, snapshot.first_class_checked_in
+      ]);
+
+      const kept = new Set<number>();
+      let lastKept: (DatabaseRecord & { id: number }) | null = null;
+      for (const snapshot of valid) {
+        if (!lastKept || pinned.has(snapshot.id) || snapshot === valid[valid.length - 1] || keyOf(snapshot) !== keyOf(lastKept)) {
+          kept.add(snapshot.id);
+          lastKept = snapshot;
+        }
+      }
+      if (kept.size === snapshots.length) {
+        await database.run('UPDATE flights SET compacted_at = CURRENT_TIMESTAMP WHERE id = ?', [flightId]);
+        return 0;
+      }
+
+      let representative = snapshots.find(snapshot => kept.has(snapshot.id)) || null;
+      const removed: number[] = [];
+      for (const snapshot of snapshots) {
+        if (kept.has(snapshot.id)) {
+          representative = snapshot;
+          continue;
+        }
+        removed.push(snapshot.id);
+        if (!representative) continue;
+
+        await database.run('UPDATE waitlist_events SET snapshot_id = ? WHERE snapshot_id = ?', [representative.id, snapshot.id]);
+        if (!snapshot.is_suspect && keyOf(snapshot) === keyOf(representative)) {
+          await database.run(
+            'UPDATE waitlist_snapshots SET last_confirmed_at = MAX(COALESCE(last_confirmed_at, snapshot_time), ?) WHERE id = ?',
+            [snapshot.last_confirmed_at || snapshot.snapshot_time, representative.id]
+          );
+        }
+      }
+
+      const placeholders = removed.map(() => '?').join(', ');
+      await database.run(`DELETE FROM snapshot_entries WHERE snapshot_id IN (${placeholders})`, removed);
+      await database.run(`DELETE FROM waitlist_events WHERE snapshot_id IN (${placeholders})`, removed);
+      await database.run(`DELETE FROM waitlist_snapshots WHERE id IN (${placeholders})`, removed);
+      await database.run('UPDATE flights SET compacted_at = CURRENT_TIMESTAMP WHERE id = ?', [flightId]);
+      return removed.length;
+    });
+  }
+
+  /**
+   * Deletes a flight's archived pages that no stored snapshot was parsed from.
+   */
+  async deleteUnreferencedArchives(flightNumber: string, flightDate: string): Promise<number> {
+    if (!this.isDbAvailable || !this.db) return 0;
+
+    const result = await this.db.run(`
+      DELETE FROM page_archive
+      WHERE flight_number = ? AND flight_date = ?
+        AND id NOT IN (SELECT archive_id FROM waitlist_snapshots WHERE archive_id IS NOT NULL)
+    `, [flightNumber, flightDate]);
+    return result.changes || 0;
+  }
+
+  /**
+   * Deletes everything stored about flights dated before `flightDate`.
+   */
+  async purgeFlightsBefore(flightDate: string): Promise<PurgeSummary> {
+    const database = this.db;
+    if (!this.isDbAvailable || !database) return { flights: 0, snapshots: 0, archivedPages: 0 };
+
+    // All or nothing, so a failure can't leave snapshots without their flight or entries
+    return this.inTransaction(async () => {
+      const flightIds = 'SELECT id FROM flights WHERE flight_date < ?';
+      await database.run(`DELETE FROM snapshot_entries WHERE snapshot_id IN (SELECT id FROM waitlist_snapshots WHERE flight_id IN (${flightIds}))`, [flightDate]);
+      await database.run(`DELETE FROM waitlist_events WHERE flight_id IN (${flightIds})`, [flightDate]);
+      await database.run(`DELETE FROM clearances WHERE flight_id IN (${flightIds})`, [flightDate]);
+      await database.run(`DELETE FROM flight_schedule_history WHERE flight_id IN (${flightIds})`, [flightDate]);
+      const snapshots = await database.run(`DELETE FROM waitlist_snapshots WHERE flight_id IN (${flightIds})`, [flightDate]);
+      const archivedPages = await database.run('DELETE FROM page_archive WHERE flight_date < ?', [flightDate]);
+      await database.run('DELETE FROM elite_status WHERE flight_date < ?', [flightDate]);
+      const flights = await database.run('DELETE FROM flights WHERE flight_date < ?', [flightDate]);
+
+      return {
+        flights: flights.changes || 0,
+        snapshots: snapshots.changes || 0,
+        archivedPages: archivedPages.changes || 0
+      };
+    });
+  }
+
+  /**
+   * Runs `work` inside BEGIN/COMMIT, rolling back if it throws. Statements
+   * from outside `work` wait until the transaction has ended, so concurrent
+   * writes are neither committed nor rolled back with it. Called from inside
+   * `work` it runs in a savepoint of the open transaction instead.
+   */
+  async inTransaction<T>(work: () => Promise<T>): Promise<T> {
+    const database = this.db;
+    if (!this.isDbAvailable || !database) {
+      throw new Error('Database is not available');
+    }
+
+    if (transactionScope.getStore()) {
+      await database.exec('SAVEPOINT nested');
+      try {
+        const result = await work();
+        await database.exec('RELEASE nested');
+        return result;
+      } catch (error) {
+        await database.exec('ROLLBACK TO nested');
+        await database.exec('RELEASE nested');
+        throw error;
+      }
+    }
+
+    // Checked again after every wait, since another transaction may have started first
+    while (this.transactionEnded) {
+      await this.transactionEnded;
+    }
+    let end!: () => void;
+    this.transactionEnded = new Promise(resolve => {
+      end = resolve;
+    });
+
+    try {
+      return await transactionScope.run(true, async () => {
+        await database.exec('BEGIN');
+        try {
+          const result = await work();
+          await database.exec('COMMIT');
+          return result;
+        } catch (error) {
+          await database.exec('ROLLBACK');
+          throw error;
+        }
+      });
+    } finally {
+      this.transactionEnded = null;
+      end();
+    }
+  }
+
+  /**
+   * Makes statements sent on the connection from outside an open transaction
+   * wait for it to end. Everything shares this one connection, so otherwise a
+   * scrape's write issued mid-transaction would become part of it.
+   */
+  private waitForTransactions(connection: SqliteConnection): SqliteConnection {
+    return new Proxy(connection, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function' || !STATEMENT_METHODS.has(String(property))) {
+          return value;
+        }
+        return async (...args: unknown[]) => {
+          while (this.transactionEnded && !transactionScope.getStore()) {
+            await this.transactionEnded;
+          }
+          return value.apply(target, args);
+        };
+      }
+    });
+  }
+
   async getAllData(): Promise<{ flights: any[]; snapshots: any[] } | null> {
     if (!this.isDbAvailable || !this.db) return null;
     
@@ -1,5 +1,8 @@
-import { Database, DatabaseRecord } from './db';
+import type { DatabaseRecord } from './db';
+import type { Repository } from './repository';
+import { addDays, calendarDateIn, FlightTime } from './flight-time';
 import { debugLog } from './server-utils';
+import { compareWaitlists } from './waitlist-diff';
 
 export enum EliteStatus {
   MVP = 'MVP',
@@ -17,49 +20,9 @@ interface EliteStatusEntry {
   origin: string;
 }
 
-interface WaitlistDiff {
-  added: string[];
-  removed: string[];
-  reordered: {
-    passenger: string;
-    oldPosition: number;
-    newPosition: number;
-  }[];
-}
-
-const TIMEZONE_OFFSETS: { [key: string]: number } = {
-  'SFO': -8, // UTC-8
-  'LAX': -8,
-  'SEA': -8,
-  'PDX': -8,
-  'JFK': -5, // UTC-5
-  'BOS': -5,
-  'MIA': -5,
-  'ORD': -6, // UTC-6
-  'DFW': -6,
-  'DEN': -7, // UTC-7
-  'PHX': -7,
-  // Add more airports as needed
-};
-
-function getAirportTimezone(airportCode: string): number {
-  return TIMEZONE_OFFSETS[airportCode] || -8; // Default to PST if unknown
-}
-
-function calculateHoursBeforeDeparture(departureTime: string, departureDate: string, origin: string): number {
-  const tzOffset = getAirportTimezone(origin);
-  const now = new Date();
-  
-  // Create departure datetime by combining date and time
-  const [hours, minutes] = departureTime.split(':').map(Number);
-  const departure = new Date(departureDate);
-  departure.setHours(hours, minutes, 0, 0); // Set exact departure time
-  
-  // Adjust for timezone
-  const localDeparture = new Date(departure.getTime() + (tzOffset * 60 * 60 * 1000));
-  
-  // Calculate hours difference
-  return (localDeparture.getTime() - now.getTime()) / (1000 * 60 * 60);
+function calculateHoursBeforeDeparture(departureTime: string, departureDate: string, origin: string): number | null {
+  const departure = FlightTime.fromLocal(departureDate, departureTime, origin);
+  return departure ? departure.hoursUntil() : null;
 }
 
 function determineEliteStatus(
@@ -86,36 +49,7 @@ function determineEliteStatus(
   return EliteStatus.MVP;
 }
 
-function compareWaitlists(oldNames: string[], newNames: string[]): WaitlistDiff {
-  const diff: WaitlistDiff = {
-    added: [],
-    removed: [],
-    reordered: []
-  };
-  
-  // Find added and removed names
-  diff.added = newNames.filter(name => !oldNames.includes(name));
-  diff.removed = oldNames.filter(name => !newNames.includes(name));
-  
-  // Find reordered names
-  const commonNames = newNames.filter(name => oldNames.includes(name));
-  for (const name of commonNames) {
-    const oldPos = oldNames.indexOf(name);
-    const newPos = newNames.indexOf(name);
-    if (oldPos !== newPos) {
-      diff.reordered.push({
-        passenger: name,
-        oldPosition: oldPos,
-        newPosition: newPos
-      });
-    }
-  }
-  
-  return diff;
-}
-
 export async function processWaitlistSnapshot(
-  db: Database,
   flightNumber: string,
   flightDate: string,
   origin: string,
@@ -126,6 +60,10 @@ export async function processWaitlistSnapshot(
 ): Promise<Map<string, EliteStatus>> {
   const newStatuses = new Map<string, EliteStatus>();
   const hoursBeforeDeparture = calculateHoursBeforeDeparture(departureTime, flightDate, origin);
+  if (hoursBeforeDeparture === null) {
+    debugLog(`Unreadable departure "${departureTime}" on ${flightDate} from ${origin}; skipping elite status`);
+    return newStatuses;
+  }
   
   // If this is the first snapshot
   if (!previousSnapshot) {
@@ -148,7 +86,7 @@ export async function processWaitlistSnapshot(
   
   // Process existing passengers
   waitlistNames.forEach((passenger, position) => {
-    if (diff.added.includes(passenger)) {
+    if (diff.added.some(entry => entry.name === passenger)) {
       // New addition
       const status = determineEliteStatus(
         hoursBeforeDeparture,
@@ -174,55 +112,30 @@ export async function processWaitlistSnapshot(
   return newStatuses;
 }
 
-export async function trackEliteStatus(db: Database): Promise<void> {
+export async function trackEliteStatus(repository: Repository): Promise<void> {
   try {
-    const now = new Date();
-    const twoDaysFromNow = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
-    
-    // Get all flights in the next 2 days
-    const flights = await db.db?.all(`
-      SELECT DISTINCT 
-        f.flight_number,
-        f.flight_date,
-        f.origin,
-        f.departure_time
-      FROM flights f
-      WHERE f.flight_date BETWEEN ? AND ?
-      ORDER BY f.flight_date, f.flight_number
-    `, [
-      now.toISOString().split('T')[0],
-      twoDaysFromNow.toISOString().split('T')[0]
-    ]) || [];
+    // Flight dates are local to the origin, so start a day back to reach zones behind UTC
+    const today = calendarDateIn(new Date(), 'UTC');
+    const flights = await repository.flights.getBetween(addDays(today, -1), addDays(today, 2));
     
     for (const flight of flights) {
       // Get the latest snapshot for this flight
-      const latestSnapshot = await db.getLatestWaitlistData(
+      const latestSnapshot = await repository.snapshots.getLatest(
         flight.flight_number,
         flight.flight_date
       );
       
-      if (!latestSnapshot || !latestSnapshot[0]) continue;
+      if (!latestSnapshot[0]?.snapshot_time) continue;
       
       const snapshot = latestSnapshot[0];
       const waitlistNames = JSON.parse(snapshot.waitlist_names);
       
       // Get previous snapshot if exists
-      const previousSnapshot = await db.db?.get<DatabaseRecord>(`
-        SELECT *
-        FROM waitlist_snapshots
-        WHERE flight_id = ? AND snapshot_time < ?
-        ORDER BY snapshot_time DESC
-        LIMIT 1
-      `, [snapshot.flight_id, snapshot.snapshot_time]);
+      const previousSnapshot = await repository.snapshots.getPrevious(snapshot.flight_id!, snapshot.snapshot_time);
       
       // Get previous statuses
       const previousStatuses = new Map<string, EliteStatus>();
-      const prevStatusRows = await db.db?.all(`
-        SELECT passenger, status
-        FROM elite_status
-        WHERE flight_number = ? AND flight_date = ?
-        ORDER BY added_time DESC
-      `, [flight.flight_number, flight.flight_date]) || [];
+      const prevStatusRows = await repository.eliteStatuses.getForFlight(flight.flight_number, flight.flight_date);
       
       // Use the most recent status for each passenger
       for (const row of prevStatusRows) {
@@ -232,25 +145,21 @@ export async function trackEliteStatus(db: Database): Promise<void> {
       }
       
       // Process the snapshot
+      // The departure is local to the origin on the segment's own date
       const newStatuses = await processWaitlistSnapshot(
-        db,
         flight.flight_number,
-        flight.flight_date,
+        flight.segment_date || flight.flight_date,
         flight.origin,
         flight.departure_time,
         waitlistNames,
-        previousSnapshot || null,
+        previousSnapshot,
         previousStatuses
       );
       
+      if (newStatuses.size === 0) continue;
+
       // Save the new statuses
-      for (const [passenger, status] of newStatuses.entries()) {
-        await db.db?.run(`
-          INSERT OR REPLACE INTO elite_status
-          (passenger, status, flight_number, flight_date, added_time)
-          VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
-        `, [passenger, status, flight.flight_number, flight.flight_date]);
-      }
+      await repository.eliteStatuses.save(flight.flight_number, flight.flight_date, newStatuses);
       
       debugLog(`Processed elite status for flight ${flight.flight_number} on ${flight.flight_date}`);
     }
@@ -258,4 +167,4 @@ export async function trackEliteStatus(db: Database): Promise<void> {
     debugLog('Error tracking elite status: ' + (error instanceof Error ? error.message : 'Unknown error'));
     throw error;
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { AIRPORT_TIMEZONES } from './airport-timezones';
+
+/**
+ * Flight times as real instants. Status pages give local clock times
+ * ("6:05 pm") at each station, and flight dates are local calendar dates
+ * (YYYY-MM-DD) at the origin; this turns them into Dates using the station's
+ * IANA zone from airport-timezones, so T-minus math holds across zones and
+ * daylight saving changes. It only uses Intl, so it also runs in the browser.
+ */
+
+// Where the airline is based; used for stations missing from the dataset
+export const DEFAULT_TIME_ZONE = 'America/Los_Angeles';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(instant: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+  return parts;
+}
+
+// Minutes the zone is ahead of UTC at the instant, e.g. -420 in Seattle in summer
+function zoneOffsetMinutes(timeZone: string, instant: Date): number {
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  const parts = zonedParts(new Date(wholeSeconds), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return (asUtc - wholeSeconds) / 60000;
+}
+
+/**
+ * The instant a local date and clock time occur in a zone. Times skipped by
+ * a spring-forward change resolve to after the change; repeated times in the
+ * fall resolve to the first occurrence.
+ */
+function zonedTimeToInstant(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, day) + minutes * 60000;
+
+  // Offset changes are months apart, so the offsets a day either side are the only candidates
+  const offsets = [-DAY_MS, DAY_MS].map(shift => zoneOffsetMinutes(timeZone, new Date(localAsUtc + shift)));
+  const matches = offsets
+    .map(offset => localAsUtc - offset * 60000)
+    .filter((instant, i) => zoneOffsetMinutes(timeZone, new Date(instant)) === offsets[i]);
+  if (matches.length) return new Date(Math.min(...matches));
+
+  // Inside a skipped hour: read the clock time with the offset from before the change
+  return new Date(localAsUtc - Math.min(...offsets) * 60000);
+}
+
+export function getAirportTimeZone(station: string): string {
+  return AIRPORT_TIMEZONES[station.trim().toUpperCase()] || DEFAULT_TIME_ZONE;
+}
+
+export function isKnownAirport(station: string): boolean {
+  return station.trim().toUpperCase() in AIRPORT_TIMEZONES;
+}
+
+/**
+ * Converts a clock time like "6:05 pm" or "18:05" to minutes after midnight.
+ */
+export function parseClockMinutes(timeText: string): number | null {
+  const match = timeText.match(/(\d{1,2}):(\d{2})\s*([ap])?\.?\s*m?\.?/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  return hours * 60 + minutes;
+}
+
+function calendarDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Reads a calendar date as written on status pages and forms ("2024-12-29",
+ * "December 29, 2024", "Sun, Dec 29, 2024", "29 Dec 2024", "12/29/2024")
+ * and returns it as YYYY-MM-DD, or null if it isn't one. No time zone is
+ * involved: the date means the same day wherever the server runs.
+ */
+export function parseCalendarDate(text: string): string | null {
+  const value = text.trim();
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|T)/);
+  if (iso) return calendarDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return calendarDate(parseInt(us[3]), parseInt(us[1]), parseInt(us[2]));
+
+  const monthFirst = value.match(/([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/);
+  const dayFirst = value.match(/(\d{1,2})\s+([A-Za-z]{3,})\.?,?\s+(\d{4})/);
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst ? [dayFirst[2], dayFirst[1], dayFirst[3]] : [];
+  const month = monthName ? MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1 : 0;
+  return month ? calendarDate(parseInt(year!), month, parseInt(day!)) : null;
+}
+
+/** Shifts a YYYY-MM-DD date by whole days */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) of an instant in a zone; without a zone,
+ * in the runtime's own zone (the viewer's, in the browser).
+ */
+export function calendarDateIn(instant: Date, timeZone?: string): string {
+  const parts = zonedParts(instant, timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone);
+  return calendarDate(parts.year, parts.month, parts.day)!;
+}
+
+/** Formats a YYYY-MM-DD date for display, e.g. "Sun, Dec 29, 2024" */
+export function formatCalendarDate(date: string, options: Intl.DateTimeFormatOptions = {
+  weekday: 'short', month: 'short', day: 'numeric', year: 'numeric'
+}): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * A departure or arrival: the instant it happens plus the station's zone,
+ * for showing it in local time.
+ */
+export class FlightTime {
+  private constructor(
+    readonly instant: Date,
+    readonly timeZone: string,
+    /** False when the station isn't in the dataset and DEFAULT_TIME_ZONE was assumed */
+    readonly zoneKnown: boolean
+  ) {}
+
+  /**
+   * A local date (YYYY-MM-DD or any form parseCalendarDate reads) and clock
+   * time at a station. Returns null when either can't be read.
+   */
+  static fromLocal(date: string, time: string, station: string): FlightTime | null {
+    const localDate = parseCalendarDate(date);
+    const minutes = parseClockMinutes(time);
+    if (!localDate || minutes === null) return null;
+
+    const timeZone = getAirportTimeZone(station);
+    return new FlightTime(zonedTimeToInstant(localDate, minutes, timeZone), timeZone, isKnownAirport(station));
+  }
+
+  /** An instant already worked out, e.g. from an API response, shown in `timeZone` */
+  static inZone(instant: Date | string, timeZone: string): FlightTime {
+    return new FlightTime(new Date(instant), timeZone, true);
+  }
+
+  /**
+   * The arrival for a departure, given only the local clock time at the
+   * destination: the first time it occurs after the departure, which places
+   * overnight and date-line-crossing arrivals on the right day.
+   */
+  static arrival(departure: FlightTime, time: string, station: string): FlightTime | null {
+    const minutes = parseClockMinutes(time);
+    if (minutes === null) return null;
+
+    const timeZone = getAirportTimeZone(station);
+    const departureDate = calendarDateIn(departure.instant, timeZone);
+    for (let days = -1; days <= 2; days++) {
+      const instant = zonedTimeToInstant(addDays(departureDate, days), minutes, timeZone);
+      if (instant > departure.instant) {
+        return new FlightTime(instant, timeZone, isKnownAirport(station));
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The occurrence of a local clock time closest to `reference`, for an
+   * estimated or actual time given next to the scheduled one: a delay past
+   * midnight lands on the next day, an early time on the same day.
+   */
+  static near(reference: FlightTime, time: string, station: string): FlightTime | null {
+    const minutes = parseClockMinutes(time);
+    if (minutes === null) return null;
+
+    const timeZone = getAirportTimeZone(station);
+    const referenceDate = calendarDateIn(reference.instant, timeZone);
+    const [closest] = [-1, 0, 1]
+      .map(days => zonedTimeToInstant(addDays(referenceDate, days), minutes, timeZone))
+      .sort((a, b) => Math.abs(a.getTime() - reference.instant.getTime()) - Math.abs(b.getTime() - reference.instant.getTime()));
+    return new FlightTime(closest, timeZone, isKnownAirport(station));
+  }
+
+  /** The local calendar date at the station (YYYY-MM-DD) */
+  get localDate(): string {
+    return calendarDateIn(this.instant, this.timeZone);
+  }
+
+  /** Hours from `now` until this time; negative once it has passed */
+  hoursUntil(now: Date = new Date()): number {
+    return (this.instant.getTime() - now.getTime()) / (60 * 60 * 1000);
+  }
+
+  /** Local clock time with the zone, e.g. "6:05 PM PST" */
+  formatTime(): string {
+    return this.instant.toLocaleTimeString('en-US', {
+      timeZone: this.timeZone,
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    });
+  }
+
+  toISOString(): string {
+    return this.instant.toISOString();
+  }
+
+  toJSON(): string {
+    return this.toISOString();
+  }
+}
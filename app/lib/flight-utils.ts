@@ -1,20 +1,202 @@
 import { debugLog } from './server-utils';
-import { CheerioAPI } from 'cheerio';
+import { CheerioAPI, Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import { addDays, calendarDateIn, FlightTime, parseCalendarDate, parseClockMinutes } from './flight-time';
 
 export interface FlightSegment {
   flightNumber: string;
+  /** Itinerary date shown on the status page */
   date: string;
+  /** Position of the leg in the itinerary, starting at 0 */
+  segmentIndex: number;
+  /** Local departure date of this leg (YYYY-MM-DD); later than `date` for overnight connections */
+  segmentDate: string;
   origin: string;
   destination: string;
+  /** Scheduled local clock time, e.g. "6:05 pm" */
   departureTime: string;
   arrivalTime: string;
+  departure: FlightTimes;
+  arrival: FlightTimes;
 }
 
+/**
+ * Scheduled, estimated and actual times of a departure or arrival as ISO
+ * instants; null when the status page doesn't show one.
+ */
+export interface FlightTimes {
+  scheduled: string | null;
+  estimated: string | null;
+  actual: string | null;
+}
+
+export interface ParseDiagnostics {
+  segmentIndex: number;
+  /** Number of elements each selector matched */
+  selectors: Record<string, number>;
+  /** Headers of every waitlist container seen in the segment's accordion */
+  headers: string[];
+  missingFields: string[];
+  rowCount: number;
+  nameCount: number;
+  /** 0 (certainly broken) to 1 (everything matched) */
+  confidence: number;
+  suspect: boolean;
+  warnings: string[];
+}
+
+export type Cabin = 'first' | 'premium' | 'main' | 'unknown';
+export type WaitlistType = 'upgrade' | 'standby' | 'other';
+
+/**
+ * One row of a waitlist table.
+ */
+export interface WaitlistEntry {
+  position: number;
+  name: string;
+  /** Seat assignment when the page shows one, e.g. "2A" */
+  seat: string | null;
+  /** The row carries a cleared/confirmed marker */
+  cleared: boolean;
+  /** Any other cell text or marker labels on the row */
+  annotations: string[];
+}
+
+/**
+ * One list from a segment's accordion, e.g. First Class upgrade requests or
+ * the standby list.
+ */
+export interface WaitlistList {
+  cabin: Cabin;
+  listType: WaitlistType;
+  /** Header exactly as shown on the page */
+  header: string;
+  names: string[];
+  entries: WaitlistEntry[];
+  capacity: number | null;
+  available: number | null;
+  checkedIn: number | null;
+}
+
+/**
+ * `names`, `capacity`, `available` and `checkedIn` describe the First Class
+ * upgrade list; `lists` holds every list on the segment including that one.
+ */
 export interface WaitlistSnapshot {
   names: string[];
   capacity: number | null;
   available: number | null;
   checkedIn: number | null;
+  lists: WaitlistList[];
+  diagnostics?: ParseDiagnostics;
+}
+
+export interface WaitlistParseResult {
+  waitlist: WaitlistSnapshot | null;
+  diagnostics: ParseDiagnostics;
+}
+
+type TimeKind = keyof FlightTimes;
+
+// Labels the status page puts before a time, and which kind of time follows
+const TIME_LABELS: Record<string, TimeKind> = {
+  scheduled: 'scheduled',
+  estimated: 'estimated',
+  expected: 'estimated',
+  revised: 'estimated',
+  delayed: 'estimated',
+  new: 'estimated',
+  now: 'estimated',
+  actual: 'actual',
+  departed: 'actual',
+  arrived: 'actual',
+  landed: 'actual'
+};
+
+// Cheerio's text() joins elements without spaces, so a label may run straight into its
+// time and follow the previous one ("Scheduled6:05 pmDeparted6:10 pm"): no word boundaries
+const LABELED_TIME_PATTERN = new RegExp(
+  `(?:(${Object.keys(TIME_LABELS).join('|')})[\\s:]*)?(\\d{1,2}:\\d{2}(?:\\s*[ap]\\.?\\s*m\\.?)?)`,
+  'gi'
+);
+
+/**
+ * Reads the local clock times in a departure or arrival header, e.g.
+ * "Scheduled 6:05 pm Estimated 6:50 pm". Unlabeled times are the scheduled
+ * time and then the estimate, the way the page shows a retimed flight.
+ */
+export function parseTimeHeader(text: string): Record<TimeKind, string | null> {
+  const times: Record<TimeKind, string | null> = { scheduled: null, estimated: null, actual: null };
+  for (const match of Array.from(text.matchAll(LABELED_TIME_PATTERN))) {
+    const label = match[1]?.toLowerCase();
+    const kind = label ? TIME_LABELS[label] : times.scheduled === null ? 'scheduled' : 'estimated';
+    if (times[kind] === null) {
+      times[kind] = match[2].replace(/\s+/g, ' ').trim();
+    }
+  }
+  return times;
+}
+
+/**
+ * Places a header's times with `place`, except that estimated and actual
+ * times go nearest the scheduled one, so delays past midnight land on the
+ * right day.
+ */
+function placeTimes(
+  header: Record<TimeKind, string | null>,
+  station: string,
+  place: (time: string) => FlightTime | null
+): Record<TimeKind, FlightTime | null> {
+  const scheduled = header.scheduled ? place(header.scheduled) : null;
+  const placeNearScheduled = (time: string | null) => {
+    if (!time) return null;
+    return scheduled ? FlightTime.near(scheduled, time, station) : place(time);
+  };
+  return { scheduled, estimated: placeNearScheduled(header.estimated), actual: placeNearScheduled(header.actual) };
+}
+
+function toFlightTimes(times: Record<TimeKind, FlightTime | null>): FlightTimes {
+  return {
+    scheduled: times.scheduled?.toISOString() ?? null,
+    estimated: times.estimated?.toISOString() ?? null,
+    actual: times.actual?.toISOString() ?? null
+  };
+}
+
+/**
+ * Turns a leg's header times into instants. Departures are local to the
+ * origin on the leg's date; arrivals are the first after the departure.
+ */
+function resolveFlightTimes(
+  departureHeader: Record<TimeKind, string | null>,
+  arrivalHeader: Record<TimeKind, string | null>,
+  segmentDate: string,
+  origin: string,
+  destination: string
+): { departure: FlightTimes; arrival: FlightTimes } {
+  const departure = placeTimes(departureHeader, origin, time =>
+    segmentDate ? FlightTime.fromLocal(segmentDate, time, origin) : null
+  );
+  const departed = departure.scheduled || departure.estimated || departure.actual;
+  const arrival = placeTimes(arrivalHeader, destination, time =>
+    departed ? FlightTime.arrival(departed, time, destination) : null
+  );
+  return { departure: toFlightTimes(departure), arrival: toFlightTimes(arrival) };
+}
+
+/**
+ * Station codes of the whole itinerary in travel order, e.g. ["SEA", "ANC", "FAI"],
+ * taken from the callouts in the status header.
+ */
+function parseRouteStations($: CheerioAPI): string[] {
+  const stations: string[] = [];
+  $('.primary-status').find('.callout airport-helper, .callout-arrival airport-helper').each((_, helper) => {
+    const iata = $(helper).attr('iata') || '';
+    if (iata && stations[stations.length - 1] !== iata) {
+      stations.push(iata);
+    }
+  });
+  return stations;
 }
 
 export function parseFlightSegments($: CheerioAPI): FlightSegment[] {
@@ -22,24 +204,22 @@ export function parseFlightSegments($: CheerioAPI): FlightSegment[] {
     debugLog('Starting flight segment parsing');
     const segments: FlightSegment[] = [];
     
-    // Get all airport pairs from the status container first
-    const $statusContainer = $('.primary-status');
-    const airportPairs: { origin: string; destination: string }[] = [];
-    
-    if ($statusContainer.length) {
-      // First segment is from the first callout to the first callout-arrival
-      const firstOrigin = $statusContainer.find('.callout airport-helper').first().attr('iata') || '';
-      const firstDestination = $statusContainer.find('.callout-arrival airport-helper').first().attr('iata') || '';
-      airportPairs.push({ origin: firstOrigin, destination: firstDestination });
-      
-      // Second segment is from the second callout to the last callout
-      const secondOrigin = $statusContainer.find('.callout-arrival airport-helper').first().attr('iata') || '';
-      const secondDestination = $statusContainer.find('.callout airport-helper').last().attr('iata') || '';
-      airportPairs.push({ origin: secondOrigin, destination: secondDestination });
-    }
-    
     const mainRows = $('.main-row-status');
     debugLog(`Found ${mainRows.length} main-row-status elements`);
+
+    // The header route is only usable when it lists exactly one more station than there are legs
+    const flightRowCount = mainRows.filter((_, container) => $(container).find('auro-flight').length > 0).length;
+    const routeStations = parseRouteStations($);
+    const routeMatchesRows = routeStations.length === flightRowCount + 1;
+    debugLog(`Route stations: ${routeStations.join(' → ') || 'none'}${routeMatchesRows ? '' : ' (not used)'}`);
+
+    // Get the itinerary date from the timestamp element
+    const pageDate = $('.timestamp').first().text().trim();
+
+    let segmentIndex = 0;
+    let dayOffset = 0;
+    let previousDeparture: number | null = null;
+    let previousArrival: number | null = null;
     
     mainRows.each((i, container) => {
       const $container = $(container);
@@ -51,37 +231,76 @@ export function parseFlightSegments($: CheerioAPI): FlightSegment[] {
         // Get flight details
         const flightNumber = $flight.attr('flights')?.replace('AS ', '') || '';
         
-        // Get departure and arrival times from the span elements
-        const departureTime = $flight.find('span[slot="departureHeader"]').text().replace('Scheduled', '').trim();
-        const arrivalTime = $flight.find('span[slot="arrivalHeader"]').text().replace('Scheduled', '').trim();
-        
-        // Get airports from our pre-collected pairs
-        const airportPair = airportPairs[i] || { origin: '', destination: '' };
-        let { origin, destination } = airportPair;
+        // Get departure and arrival times from the span elements; a retimed flight shows more than one
+        const departureHeaderText = $flight.find('span[slot="departureHeader"]').text();
+        const arrivalHeaderText = $flight.find('span[slot="arrivalHeader"]').text();
+        const departureHeader = parseTimeHeader(departureHeaderText);
+        const arrivalHeader = parseTimeHeader(arrivalHeaderText);
+        const departureTime = departureHeader.scheduled || departureHeaderText.replace('Scheduled', '').trim();
+        const arrivalTime = arrivalHeader.scheduled || arrivalHeaderText.replace('Scheduled', '').trim();
         
-        // Fallback to flight attributes if needed
-        if (!origin) origin = $flight.attr('departurestation') || '';
-        if (!destination) destination = $flight.attr('arrivalstation') || '';
-        
-        // Get the date from the timestamp element
-        const date = $('.timestamp').first().text().trim();
+        // Stations come from the row itself, then from the itinerary route in the header
+        const rowStations = $container.find('airport-helper')
+          .map((_, helper) => $(helper).attr('iata') || '')
+          .get()
+          .filter(Boolean);
+        const origin = $flight.attr('departurestation')
+          || rowStations[0]
+          || (routeMatchesRows ? routeStations[segmentIndex] : '')
+          || '';
+        const destination = $flight.attr('arrivalstation')
+          || (rowStations.length > 1 ? rowStations[rowStations.length - 1] : '')
+          || (routeMatchesRows ? routeStations[segmentIndex + 1] : '')
+          || '';
+
+        // Local clock times at the connecting station tell us when a later leg departs on the next day
+        const departure = parseClockMinutes(departureTime);
+        const arrival = parseClockMinutes(arrivalTime);
+        if (segmentIndex > 0) {
+          const previousLegArrivedNextDay = previousDeparture !== null && previousArrival !== null && previousArrival < previousDeparture;
+          const connectionCrossesMidnight = departure !== null && previousArrival !== null && departure < previousArrival;
+          if (previousLegArrivedNextDay) dayOffset++;
+          if (connectionCrossesMidnight) dayOffset++;
+        }
+        previousDeparture = departure;
+        previousArrival = arrival;
+
+        const rowDate = $container.find('.timestamp').first().text().trim();
+        const date = pageDate || rowDate;
+        let segmentDate = '';
+        if (rowDate) {
+          segmentDate = convertDateFormat(rowDate);
+        } else if (date) {
+          segmentDate = addDays(convertDateFormat(date), dayOffset);
+        }
+
+        const times = resolveFlightTimes(departureHeader, arrivalHeader, segmentDate, origin, destination);
 
         debugLog(`Parsing flight ${i + 1}:
           Flight: AS${flightNumber}
+          Segment: ${segmentIndex} on ${segmentDate}
           Route: ${origin} → ${destination}
-          Times: ${departureTime} → ${arrivalTime}`);
+          Times: ${departureTime} → ${arrivalTime}
+          Estimated: ${departureHeader.estimated || '-'} → ${arrivalHeader.estimated || '-'}
+          Actual: ${departureHeader.actual || '-'} → ${arrivalHeader.actual || '-'}`);
         
         if (flightNumber && date) {
           const segment: FlightSegment = {
             flightNumber,
             date,
+            segmentIndex,
+            segmentDate,
             origin,
             destination,
             departureTime,
-            arrivalTime
+            arrivalTime,
+            departure: times.departure,
+            arrival: times.arrival
           };
           segments.push(segment);
         }
+
+        segmentIndex++;
       }
     });
 
@@ -93,73 +312,273 @@ export function parseFlightSegments($: CheerioAPI): FlightSegment[] {
   }
 }
 
-export function parseWaitlistForSegment($: CheerioAPI, segmentIndex: number): WaitlistSnapshot | null {
+const SUSPECT_CONFIDENCE_THRESHOLD = 0.5;
+
+function finalizeDiagnostics(diagnostics: ParseDiagnostics): ParseDiagnostics {
+  diagnostics.confidence = Math.max(0, Math.min(1, Math.round(diagnostics.confidence * 100) / 100));
+  diagnostics.suspect = diagnostics.confidence < SUSPECT_CONFIDENCE_THRESHOLD;
+  return diagnostics;
+}
+
+/**
+ * Works out which cabin and kind of list a container header describes.
+ * A bare "Upgrade requests" header is the First Class upgrade list.
+ */
+export function classifyWaitlistHeader(header: string): { cabin: Cabin; listType: WaitlistType } {
+  const text = header.toLowerCase();
+
+  let listType: WaitlistType = 'other';
+  if (text.includes('standby')) {
+    listType = 'standby';
+  } else if (text.includes('upgrade')) {
+    listType = 'upgrade';
+  }
+
+  let cabin: Cabin = 'unknown';
+  if (text.includes('premium')) {
+    cabin = 'premium';
+  } else if (text.includes('first')) {
+    cabin = 'first';
+  } else if (text.includes('main') || text.includes('coach')) {
+    cabin = 'main';
+  } else if (listType === 'upgrade') {
+    cabin = 'first';
+  } else if (listType === 'standby') {
+    cabin = 'main';
+  }
+
+  return { cabin, listType };
+}
+
+const CLEARED_PATTERN = /\b(cleared|confirmed|upgraded)\b/i;
+const SEAT_PATTERN = /^\d{1,2}[A-K]$/;
+
+/**
+ * Entries for lists stored before per-row detail was captured.
+ */
+export function namesToEntries(names: string[]): WaitlistEntry[] {
+  return names.map((name, i) => ({ position: i + 1, name, seat: null, cleared: false, annotations: [] }));
+}
+
+function findColumn(headers: string[], pattern: RegExp): number {
+  return headers.findIndex(header => pattern.test(header));
+}
+
+function parseWaitlistRow(
+  $: CheerioAPI,
+  row: Cheerio<Element>,
+  rowIndex: number,
+  columns: { position: number; name: number; seat: number }
+): WaitlistEntry | null {
+  const cells = row.find('td').map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim()).get();
+  const name = cells[columns.name] || '';
+  if (!name) {
+    return null;
+  }
+
+  const positionText = columns.position >= 0 ? cells[columns.position] : '';
+  const position = /^\d+$/.test(positionText || '') ? parseInt(positionText) : rowIndex + 1;
+
+  // Markers are often icons, so look at labels as well as text
+  const markerLabels = row.find('[aria-label], [title]')
+    .map((_, el) => $(el).attr('aria-label') || $(el).attr('title') || '')
+    .get()
+    .map(label => label.trim())
+    .filter(Boolean);
+  const rowClasses = row.attr('class') || '';
+
+  let seat = columns.seat >= 0 ? cells[columns.seat] || null : null;
+  const annotations: string[] = [];
+  cells.forEach((text, i) => {
+    if (!text || i === columns.name || i === columns.position || i === columns.seat) return;
+    if (!seat && SEAT_PATTERN.test(text)) {
+      seat = text;
+    } else {
+      annotations.push(text);
+    }
+  });
+  annotations.push(...markerLabels.filter(label => !annotations.includes(label)));
+
+  const cleared = CLEARED_PATTERN.test(rowClasses) || annotations.some(text => CLEARED_PATTERN.test(text));
+
+  return { position, name, seat, cleared, annotations };
+}
+
+function parseWaitlistContainer($: CheerioAPI, container: Cheerio<Element>, header: string): { list: WaitlistList; rowCount: number; spanCount: number } {
+  const list: WaitlistList = {
+    ...classifyWaitlistHeader(header),
+    header,
+    names: [],
+    entries: [],
+    capacity: null,
+    available: null,
+    checkedIn: null
+  };
+
+  // Parse capacity info
+  const capacitySpans = container.find('.waitlist-text-container span');
+  capacitySpans.each((_, span) => {
+    const text = $(span).text().trim();
+    debugLog(`Analyzing capacity text: "${text}"`);
+    
+    if (text.includes('capacity')) {
+      list.capacity = parseInt(text.match(/\d+/)?.[0] || '0');
+    } else if (text.includes('Available')) {
+      list.available = parseInt(text.match(/\d+/)?.[0] || '0');
+    } else if (text.includes('Checked-in')) {
+      list.checkedIn = parseInt(text.match(/\d+/)?.[0] || '0');
+    }
+  });
+
+  // Map columns by header text; the layout without headers is position, name
+  const headers = container.find('table.auro_table thead th').map((_, th) => $(th).text().trim().toLowerCase()).get();
+  const nameColumn = findColumn(headers, /name|passenger/);
+  const columns = {
+    position: headers.length ? findColumn(headers, /^(#|no\.?|pos(ition)?)$/) : 0,
+    name: nameColumn >= 0 ? nameColumn : 1,
+    seat: findColumn(headers, /seat/)
+  };
+
+  // Parse rows from the table
+  const rows = container.find('table.auro_table tbody tr');
+  debugLog(`Found ${rows.length} name rows in table`);
+  
+  rows.each((rowIndex, row) => {
+    const entry = parseWaitlistRow($, $(row), rowIndex, columns);
+    if (entry) {  // Remove the regex test to allow all names
+      debugLog(`Found name: ${entry.name}${entry.seat ? ` (seat ${entry.seat})` : ''}${entry.cleared ? ' [cleared]' : ''}`);
+      list.entries.push(entry);
+      list.names.push(entry.name);
+    }
+  });
+
+  return { list, rowCount: rows.length, spanCount: capacitySpans.length };
+}
+
+/**
+ * Parses every waitlist for a segment and reports how well the page matched
+ * the selectors the parser relies on. Confidence is judged on the First
+ * Class upgrade list, which every segment with a First Class cabin has.
+ */
+export function parseWaitlistWithDiagnostics($: CheerioAPI, segmentIndex: number): WaitlistParseResult {
+  const diagnostics: ParseDiagnostics = {
+    segmentIndex,
+    selectors: {},
+    headers: [],
+    missingFields: [],
+    rowCount: 0,
+    nameCount: 0,
+    confidence: 1,
+    suspect: false,
+    warnings: []
+  };
+
   try {
     debugLog(`Starting waitlist parsing for segment ${segmentIndex}`);
     // Get all accordions
     const accordions = $('.accordion-container-fs');
+    diagnostics.selectors['.accordion-container-fs'] = accordions.length;
     debugLog(`Found ${accordions.length} accordion sections`);
     
     const accordion = accordions.eq(segmentIndex);
     if (!accordion.length) {
       debugLog('❌ No accordion found for this segment');
-      return null;
+      diagnostics.confidence = 0;
+      diagnostics.warnings.push(`No .accordion-container-fs at index ${segmentIndex}`);
+      return { waitlist: null, diagnostics: finalizeDiagnostics(diagnostics) };
     }
 
-    // First try to find the specific upgrade requests container
-    const upgradeContainers = accordion.find('.waitlist-single-container').filter((_, container) => {
-      const headerText = $(container).find('h4').text().trim();
-      debugLog(`Found container with header: "${headerText}"`);
-      return headerText === 'Upgrade requests';
-    });
-
-    debugLog(`Found ${upgradeContainers.length} specific upgrade containers`);
+    const containers = accordion.find('.waitlist-single-container');
+    diagnostics.selectors['.waitlist-single-container'] = containers.length;
 
     const waitlistInfo: WaitlistSnapshot = {
       names: [],
       capacity: null,
       available: null,
-      checkedIn: null
+      checkedIn: null,
+      lists: []
     };
 
-    if (upgradeContainers.length) {
-      const container = upgradeContainers.first();
-      debugLog('\nProcessing upgrade container...');
+    let primaryStats: { rowCount: number; spanCount: number } | null = null;
+    for (const element of containers.toArray()) {
+      const container = $(element);
+      const headerText = container.find('h4').text().trim();
+      debugLog(`Found container with header: "${headerText}"`);
+      diagnostics.headers.push(headerText);
 
-      // Parse capacity info
-      container.find('.waitlist-text-container span').each((_, span) => {
-        const text = $(span).text().trim();
-        debugLog(`Analyzing capacity text: "${text}"`);
-        
-        if (text.includes('capacity')) {
-          waitlistInfo.capacity = parseInt(text.match(/\d+/)?.[0] || '0');
-        } else if (text.includes('Available')) {
-          waitlistInfo.available = parseInt(text.match(/\d+/)?.[0] || '0');
-        } else if (text.includes('Checked-in')) {
-          waitlistInfo.checkedIn = parseInt(text.match(/\d+/)?.[0] || '0');
-        }
-      });
+      const { list, rowCount, spanCount } = parseWaitlistContainer($, container, headerText);
+      waitlistInfo.lists.push(list);
 
-      // Parse names from the table
-      const rows = container.find('table.auro_table tbody tr');
-      debugLog(`Found ${rows.length} name rows in table`);
-      
-      rows.each((_, row) => {
-        const nameCell = $(row).find('td').eq(1);
-        const name = nameCell.text().trim();
-        if (name) {  // Remove the regex test to allow all names
-          debugLog(`Found name: ${name}`);
-          waitlistInfo.names.push(name);
+      if (!primaryStats && list.cabin === 'first' && list.listType === 'upgrade') {
+        primaryStats = { rowCount, spanCount };
+        waitlistInfo.names = list.names;
+        waitlistInfo.capacity = list.capacity;
+        waitlistInfo.available = list.available;
+        waitlistInfo.checkedIn = list.checkedIn;
+      }
+    }
+
+    const firstClassLists = waitlistInfo.lists.filter(list => list.cabin === 'first' && list.listType === 'upgrade').length;
+    diagnostics.selectors['First Class upgrade list'] = firstClassLists;
+    debugLog(`Found ${waitlistInfo.lists.length} lists, ${firstClassLists} First Class upgrade lists`);
+
+    if (primaryStats) {
+      diagnostics.selectors['.waitlist-text-container span'] = primaryStats.spanCount;
+      diagnostics.selectors['table.auro_table tbody tr'] = primaryStats.rowCount;
+      diagnostics.rowCount = primaryStats.rowCount;
+      diagnostics.nameCount = waitlistInfo.names.length;
+
+      for (const field of ['capacity', 'available', 'checkedIn'] as const) {
+        if (waitlistInfo[field] === null) {
+          diagnostics.missingFields.push(field);
+          diagnostics.confidence -= 0.2;
         }
-      });
+      }
+
+      if (diagnostics.rowCount > 0 && diagnostics.nameCount === 0) {
+        diagnostics.warnings.push(`${diagnostics.rowCount} table rows but no names in the name column`);
+        diagnostics.confidence -= 0.5;
+      } else if (diagnostics.nameCount < diagnostics.rowCount) {
+        diagnostics.warnings.push(`${diagnostics.rowCount - diagnostics.nameCount} table rows without a name`);
+        diagnostics.confidence -= 0.1;
+      }
+    } else if (containers.length) {
+      // Lists are present but none is recognisable as the upgrade list: most likely renamed
+      diagnostics.missingFields.push('names', 'capacity', 'available', 'checkedIn');
+      diagnostics.warnings.push(`No First Class upgrade list among: ${diagnostics.headers.map(h => `"${h}"`).join(', ')}`);
+      diagnostics.confidence = 0.2;
+    } else {
+      // Could be a flight without any lists yet, or the container class changed
+      diagnostics.missingFields.push('names', 'capacity', 'available', 'checkedIn');
+      diagnostics.warnings.push('No .waitlist-single-container in accordion');
+      diagnostics.confidence = 0.5;
     }
 
-    debugLog('\nFinal waitlist info: ' + JSON.stringify(waitlistInfo));
-    return waitlistInfo;
+    waitlistInfo.diagnostics = finalizeDiagnostics(diagnostics);
+    debugLog('\nFinal waitlist info: ' + JSON.stringify({ ...waitlistInfo, diagnostics: undefined }));
+    return { waitlist: waitlistInfo, diagnostics: waitlistInfo.diagnostics };
   } catch (error) {
     debugLog(`Error parsing waitlist: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    return null;
+    diagnostics.confidence = 0;
+    diagnostics.warnings.push('Parser error: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    return { waitlist: null, diagnostics: finalizeDiagnostics(diagnostics) };
+  }
+}
+
+export function parseWaitlistForSegment($: CheerioAPI, segmentIndex: number): WaitlistSnapshot | null {
+  return parseWaitlistWithDiagnostics($, segmentIndex).waitlist;
+}
+
+/**
+ * Normalizes a page or form date ("December 29, 2024", "2024-12-29") to
+ * YYYY-MM-DD without going through the server's time zone.
+ */
+export function convertDateFormat(dateStr: string): string {
+  const date = parseCalendarDate(dateStr);
+  if (!date) {
+    throw new Error(`Invalid date format: ${dateStr}`);
   }
+  return date;
 }
 
 export function parseFlightNumber(input: string): string {
@@ -176,8 +595,7 @@ export function isValidFlightNumber(flightNumber: string): boolean {
 }
 
 export function isValidDate(date: string): boolean {
-  const d = new Date(date);
-  return d instanceof Date && !isNaN(d.getTime());
+  return parseCalendarDate(date) !== null;
 }
 
 export function validateFlightInput(flightNumber: string, date: string): string | null {
@@ -193,12 +611,11 @@ export function validateFlightInput(flightNumber: string, date: string): string
     return 'Invalid date format';
   }
 
-  const inputDate = new Date(date);
-  const today = new Date();
-  const yesterday = new Date();
-  yesterday.setDate(today.getDate() - 1);
-  const maxDate = new Date();
-  maxDate.setDate(today.getDate() + 3);
+  // Calendar dates compare as strings; today is the viewer's today
+  const inputDate = convertDateFormat(date);
+  const today = calendarDateIn(new Date());
+  const yesterday = addDays(today, -1);
+  const maxDate = addDays(today, 3);
 
   if (inputDate < yesterday) {
     return 'Date cannot be more than 1 day in the past';
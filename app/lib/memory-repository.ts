@@ -0,0 +1,427 @@
+import type {
+  ClearanceRecord,
+  ClearanceStatsRecord,
+  DatabaseRecord,
+  EliteStatusRecord,
+  FlightRecord,
+  FlightScheduleChangeRecord,
+  UserRecord,
+  WaitlistEventRecord,
+  WaitlistSnapshot
+} from './db';
+import { inferClearances } from './clearances';
+import { flightTimeColumns, SCHEDULE_FIELDS, toSqliteTimestamp } from './record-format';
+import type { Repository } from './repository';
+import { comparableFromSnapshotRow, diffWaitlistSnapshots } from './waitlist-diff';
+
+/**
+ * The repository in plain collections, for tests and ephemeral demo mode
+ * (STORAGE_BACKEND=memory). It keeps the SQLite backend's behavior that
+ * callers rely on: stable flight ids, snapshots stored only when something
+ * changed, suspect parses never served as latest data, unique usernames, and
+ * schedule changes, waitlist events and clearances derived on save the same
+ * way. Per-passenger snapshot entries aren't kept; only the db CLI reads them.
+ * It doesn't import db.ts, so it works without the native SQLite driver.
+ */
+
+type StoredSnapshot = Pick<DatabaseRecord,
+  'waitlist_names' | 'waitlist_lists' | 'first_class_capacity' | 'first_class_available' | 'first_class_checked_in' |
+  'snapshot_time' | 'last_confirmed_at' | 'parse_confidence' | 'is_suspect' | 'parse_diagnostics'
+> & {
+  id: number;
+  flight_id: number;
+  archive_id: number | null;
+};
+
+// What a segment without snapshots looks like in SQLite's LEFT JOIN
+const NO_SNAPSHOT = {
+  id: null,
+  flight_id: null,
+  archive_id: null,
+  waitlist_names: null,
+  waitlist_lists: null,
+  first_class_capacity: null,
+  first_class_available: null,
+  first_class_checked_in: null,
+  snapshot_time: null,
+  last_confirmed_at: null,
+  parse_confidence: null,
+  is_suspect: null,
+  parse_diagnostics: null
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Newest first; ties go to the later insert
+function byTimeDescending(a: StoredSnapshot, b: StoredSnapshot): number {
+  return b.snapshot_time.localeCompare(a.snapshot_time) || b.id - a.id;
+}
+
+// Ascending with nulls first, like SQLite's ORDER BY
+function byNullableNumber(a: number | null, b: number | null): number {
+  return (a ?? -Infinity) - (b ?? -Infinity) || 0;
+}
+
+export class MemoryRepository implements Repository {
+  readonly backend = 'memory' as const;
+
+  private flightRows: FlightRecord[] = [];
+  private scheduleChangeRows: FlightScheduleChangeRecord[] = [];
+  private snapshotRows: StoredSnapshot[] = [];
+  private eventRows: WaitlistEventRecord[] = [];
+  private clearanceRows: ClearanceRecord[] = [];
+  private eliteStatusRows = new Map<string, EliteStatusRecord>();
+  private userRows: UserRecord[] = [];
+  private nextId = { flight: 1, scheduleChange: 1, snapshot: 1, event: 1, clearance: 1, user: 1 };
+
+  readonly flights: Repository['flights'] = {
+    save: async (segment, segmentIndex) => {
+      const schedule = {
+        origin: segment.origin,
+        destination: segment.destination,
+        departure_time: segment.departureTime,
+        arrival_time: segment.arrivalTime,
+        segment_date: segment.segmentDate || segment.date,
+        ...flightTimeColumns(segment)
+      };
+
+      const existing = this.findFlight(segment.flightNumber, segment.date, segmentIndex);
+      if (existing) {
+        const changedAt = toSqliteTimestamp(new Date());
+        for (const field of SCHEDULE_FIELDS) {
+          if (existing[field] !== schedule[field]) {
+            this.scheduleChangeRows.push({
+              id: this.nextId.scheduleChange++,
+              flight_id: existing.id,
+              field,
+              old_value: existing[field],
+              new_value: schedule[field],
+              changed_at: changedAt
+            });
+          }
+        }
+        Object.assign(existing, schedule);
+        return existing.id;
+      }
+
+      const flight: FlightRecord = {
+        id: this.nextId.flight++,
+        flight_number: segment.flightNumber,
+        flight_date: segment.date,
+        segment_index: segmentIndex,
+        ...schedule,
+        created_at: toSqliteTimestamp(new Date())
+      };
+      this.flightRows.push(flight);
+      return flight.id;
+    },
+
+    getId: async (flightNumber, flightDate, segmentIndex) =>
+      this.findFlight(flightNumber, flightDate, segmentIndex)?.id ?? null,
+
+    getSegments: async (flightNumber, flightDate) => this.segmentsOf(flightNumber, flightDate).map(flight => ({ ...flight })),
+
+    getBetween: async (fromDate, toDate) => this.flightRows
+      .filter(flight => flight.flight_date >= fromDate && flight.flight_date <= toDate)
+      .sort((a, b) =>
+        a.flight_date.localeCompare(b.flight_date) ||
+        a.flight_number.localeCompare(b.flight_number) ||
+        a.segment_index - b.segment_index
+      )
+      .map(flight => ({ ...flight })),
+
+    getScheduleHistory: async (flightNumber, flightDate) => this.withSegmentIndex(this.scheduleChangeRows, flightNumber, flightDate)
+      .sort((a, b) => a.changed_at.localeCompare(b.changed_at) || a.id - b.id)
+  };
+
+  readonly snapshots: Repository['snapshots'] = {
+    save: async (flightId, waitlist, options = {}) => {
+      if (!flightId) return;
+
+      const observedAt = toSqliteTimestamp(options.snapshotTime ?? new Date());
+      const suspect = !!waitlist.diagnostics?.suspect;
+      const names = JSON.stringify(waitlist.names);
+      const lists = waitlist.lists ? JSON.stringify(waitlist.lists) : null;
+
+      const previous = suspect ? undefined : this.snapshotRows
+        .filter(snapshot => snapshot.flight_id === flightId && !snapshot.is_suspect && snapshot.snapshot_time <= observedAt)
+        .sort(byTimeDescending)[0];
+
+      if (previous &&
+          previous.waitlist_names === names &&
+          previous.waitlist_lists === lists &&
+          previous.first_class_capacity === waitlist.capacity &&
+          previous.first_class_available === waitlist.available &&
+          previous.first_class_checked_in === waitlist.checkedIn) {
+        const confirmedAt = previous.last_confirmed_at || previous.snapshot_time;
+        previous.last_confirmed_at = confirmedAt > observedAt ? confirmedAt : observedAt;
+        return;
+      }
+
+      const snapshot: StoredSnapshot = {
+        id: this.nextId.snapshot++,
+        flight_id: flightId,
+        archive_id: options.archiveId ?? null,
+        waitlist_names: names,
+        waitlist_lists: lists,
+        first_class_capacity: waitlist.capacity,
+        first_class_available: waitlist.available,
+        first_class_checked_in: waitlist.checkedIn,
+        snapshot_time: observedAt,
+        last_confirmed_at: observedAt,
+        parse_confidence: waitlist.diagnostics?.confidence ?? null,
+        is_suspect: suspect ? 1 : 0,
+        parse_diagnostics: waitlist.diagnostics ? JSON.stringify(waitlist.diagnostics) : null
+      };
+      this.snapshotRows.push(snapshot);
+
+      if (previous) {
+        this.saveEvents(snapshot, previous, waitlist);
+      }
+      if (!suspect) {
+        this.saveClearances(snapshot, previous || null, waitlist);
+      }
+    },
+
+    getLatest: async (flightNumber, flightDate) => this.segmentsOf(flightNumber, flightDate).map(flight => {
+      const [latest] = this.snapshotRows
+        .filter(snapshot => snapshot.flight_id === flight.id && !snapshot.is_suspect)
+        .sort(byTimeDescending);
+      return this.withFlight(latest || NO_SNAPSHOT, flight);
+    }),
+
+    getPrevious: async (flightId, before) => {
+      const flight = this.flightRows.find(row => row.id === flightId);
+      const [previous] = this.snapshotRows
+        .filter(snapshot => snapshot.flight_id === flightId && snapshot.snapshot_time < before)
+        .sort(byTimeDescending);
+      return flight && previous ? this.withFlight(previous, flight) : null;
+    },
+
+    deleteForArchive: async archiveId => {
+      const deleted = new Set(this.snapshotRows.filter(snapshot => snapshot.archive_id === archiveId).map(snapshot => snapshot.id));
+      this.snapshotRows = this.snapshotRows.filter(snapshot => !deleted.has(snapshot.id));
+      this.eventRows = this.eventRows.filter(event => !deleted.has(event.snapshot_id));
+      this.clearanceRows = this.clearanceRows.filter(clearance => !deleted.has(clearance.snapshot_id));
+      return deleted.size;
+    },
+
+    rebuildHistory: async flightId => {
+      this.eventRows = this.eventRows.filter(event => event.flight_id !== flightId);
+      this.clearanceRows = this.clearanceRows.filter(clearance => clearance.flight_id !== flightId);
+
+      const snapshots = this.snapshotRows
+        .filter(snapshot => snapshot.flight_id === flightId && !snapshot.is_suspect)
+        .sort((a, b) => a.snapshot_time.localeCompare(b.snapshot_time) || a.id - b.id);
+      let previous: StoredSnapshot | null = null;
+      for (const snapshot of snapshots) {
+        // Stored lists keep their entries, so the row reads back as a snapshot
+        const current = comparableFromSnapshotRow(snapshot) as WaitlistSnapshot;
+        if (previous) {
+          this.saveEvents(snapshot, previous, current);
+        }
+        this.saveClearances(snapshot, previous, current);
+        previous = snapshot;
+      }
+    },
+
+    getEvents: async (flightNumber, flightDate, options = {}) => {
+      const since = options.since ? toSqliteTimestamp(options.since) : '';
+      return this.withSegmentIndex(this.eventRows.filter(event => event.created_at >= since), flightNumber, flightDate)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+        .slice(0, options.limit ?? 500);
+    }
+  };
+
+  readonly clearances: Repository['clearances'] = {
+    getForFlight: async (flightNumber, flightDate) => this.withSegmentIndex(this.clearanceRows, flightNumber, flightDate)
+      .sort((a, b) =>
+        a.segment_index - b.segment_index ||
+        a.detected_at.localeCompare(b.detected_at) ||
+        byNullableNumber(a.old_position, b.old_position) ||
+        a.passenger.localeCompare(b.passenger)
+      ),
+
+    getStats: async (options = {}) => {
+      const minConfidence = options.minConfidence ?? 0.5;
+      const fromDate = new Date(Date.now() - (options.days ?? 90) * DAY_MS).toISOString().slice(0, 10);
+      const routes = new Map<string, ClearanceStatsRecord>();
+
+      for (const flight of this.flightRows) {
+        if (flight.flight_date < fromDate ||
+            (options.flightNumber !== undefined && flight.flight_number !== options.flightNumber) ||
+            (options.origin !== undefined && flight.origin !== options.origin) ||
+            (options.destination !== undefined && flight.destination !== options.destination) ||
+            !this.snapshotRows.some(snapshot => snapshot.flight_id === flight.id)) {
+          continue;
+        }
+
+        const key = `${flight.flight_number}|${flight.origin}|${flight.destination}`;
+        const stats = routes.get(key) ?? {
+          flight_number: flight.flight_number,
+          origin: flight.origin,
+          destination: flight.destination,
+          flights: 0,
+          clearances: 0,
+          average_cleared: 0,
+          deepest_position: null
+        };
+        stats.flights++;
+        for (const clearance of this.clearanceRows) {
+          if (clearance.flight_id !== flight.id || clearance.confidence < minConfidence) continue;
+          stats.clearances++;
+          if (clearance.old_position !== null && (stats.deepest_position === null || clearance.old_position > stats.deepest_position)) {
+            stats.deepest_position = clearance.old_position;
+          }
+        }
+        routes.set(key, stats);
+      }
+
+      return Array.from(routes.values())
+        .map(stats => ({ ...stats, average_cleared: Math.round(stats.clearances / stats.flights * 10) / 10 }))
+        .sort((a, b) => b.clearances - a.clearances || a.flight_number.localeCompare(b.flight_number));
+    }
+  };
+
+  readonly eliteStatuses: Repository['eliteStatuses'] = {
+    getForFlight: async (flightNumber, flightDate) => Array.from(this.eliteStatusRows.values())
+      .filter(row => row.flight_number === flightNumber && row.flight_date === flightDate)
+      .sort((a, b) => b.added_time.localeCompare(a.added_time))
+      .map(row => ({ ...row })),
+
+    save: async (flightNumber, flightDate, statuses) => {
+      const addedTime = toSqliteTimestamp(new Date());
+      for (const [passenger, status] of Array.from(statuses.entries())) {
+        this.eliteStatusRows.set(`${passenger}|${flightNumber}|${flightDate}`, {
+          passenger,
+          status,
+          flight_number: flightNumber,
+          flight_date: flightDate,
+          added_time: addedTime
+        });
+      }
+    }
+  };
+
+  readonly users: Repository['users'] = {
+    create: async user => {
+      if (this.userRows.some(row => row.username === user.username)) {
+        throw new Error(`Username ${user.username} already exists`);
+      }
+
+      const created: UserRecord = { ...user, id: this.nextId.user++, created_at: toSqliteTimestamp(new Date()) };
+      this.userRows.push(created);
+      return { ...created };
+    },
+
+    getByUsername: async username => {
+      const user = this.userRows.find(row => row.username === username);
+      return user ? { ...user } : null;
+    }
+  };
+
+  async getCounts(): Promise<Record<string, number>> {
+    return {
+      flights: this.flightRows.length,
+      waitlist_snapshots: this.snapshotRows.length,
+      waitlist_events: this.eventRows.length,
+      clearances: this.clearanceRows.length
+    };
+  }
+
+  private saveEvents(snapshot: StoredSnapshot, previous: StoredSnapshot, waitlist: WaitlistSnapshot): void {
+    for (const event of diffWaitlistSnapshots(comparableFromSnapshotRow(previous), waitlist)) {
+      this.eventRows.push({
+        id: this.nextId.event++,
+        flight_id: snapshot.flight_id,
+        snapshot_id: snapshot.id,
+        event_type: event.type,
+        cabin: event.cabin ?? null,
+        list_type: event.listType ?? null,
+        name: event.name ?? null,
+        old_position: event.oldPosition ?? null,
+        new_position: event.newPosition ?? null,
+        field: event.field ?? null,
+        old_value: event.oldValue ?? null,
+        new_value: event.newValue ?? null,
+        created_at: snapshot.snapshot_time
+      });
+    }
+  }
+
+  private saveClearances(snapshot: StoredSnapshot, previous: StoredSnapshot | null, waitlist: WaitlistSnapshot): void {
+    // Someone back on the list didn't clear after all, unless the page said so
+    this.clearanceRows = this.clearanceRows.filter(clearance =>
+      clearance.flight_id !== snapshot.flight_id || clearance.evidence === 'marker' || !waitlist.names.includes(clearance.passenger)
+    );
+
+    for (const clearance of inferClearances(previous ? comparableFromSnapshotRow(previous) : null, waitlist)) {
+      const existing = this.clearanceRows.find(row => row.flight_id === snapshot.flight_id && row.passenger === clearance.passenger);
+      if (!existing) {
+        this.clearanceRows.push({
+          id: this.nextId.clearance++,
+          flight_id: snapshot.flight_id,
+          snapshot_id: snapshot.id,
+          passenger: clearance.passenger,
+          old_position: clearance.oldPosition,
+          evidence: clearance.evidence,
+          confidence: clearance.confidence,
+          seats_taken: clearance.seatsTaken,
+          checked_in_rise: clearance.checkedInRise,
+          detected_at: snapshot.snapshot_time
+        });
+      } else if (clearance.confidence > existing.confidence) {
+        // A surer inference replaces a weaker one but keeps the position it was first seen at
+        Object.assign(existing, {
+          snapshot_id: snapshot.id,
+          old_position: existing.old_position ?? clearance.oldPosition,
+          evidence: clearance.evidence,
+          confidence: clearance.confidence,
+          seats_taken: clearance.seatsTaken,
+          checked_in_rise: clearance.checkedInRise
+        });
+      }
+    }
+  }
+
+  private findFlight(flightNumber: string, flightDate: string, segmentIndex: number): FlightRecord | undefined {
+    return this.flightRows.find(flight =>
+      flight.flight_number === flightNumber && flight.flight_date === flightDate && flight.segment_index === segmentIndex
+    );
+  }
+
+  private segmentsOf(flightNumber: string, flightDate: string): FlightRecord[] {
+    return this.flightRows
+      .filter(flight => flight.flight_number === flightNumber && flight.flight_date === flightDate)
+      .sort((a, b) => a.segment_index - b.segment_index);
+  }
+
+  // Copies of a flight's rows with their segment index, like SQLite's join on flights
+  private withSegmentIndex<T extends { flight_id: number }>(rows: T[], flightNumber: string, flightDate: string): (T & { segment_index: number })[] {
+    const segments = new Map(this.segmentsOf(flightNumber, flightDate).map(flight => [flight.id, flight.segment_index]));
+    return rows
+      .filter(row => segments.has(row.flight_id))
+      .map(row => ({ ...row, segment_index: segments.get(row.flight_id)! }));
+  }
+
+  // Shapes a snapshot like the SQLite backend's join of waitlist_snapshots and flights
+  private withFlight<T extends StoredSnapshot | typeof NO_SNAPSHOT>(snapshot: T, flight: FlightRecord) {
+    return {
+      ...snapshot,
+      flight_number: flight.flight_number,
+      flight_date: flight.flight_date,
+      origin: flight.origin,
+      destination: flight.destination,
+      departure_time: flight.departure_time,
+      arrival_time: flight.arrival_time,
+      segment_index: flight.segment_index,
+      segment_date: flight.segment_date,
+      scheduled_departure: flight.scheduled_departure,
+      estimated_departure: flight.estimated_departure,
+      actual_departure: flight.actual_departure,
+      scheduled_arrival: flight.scheduled_arrival,
+      estimated_arrival: flight.estimated_arrival,
+      actual_arrival: flight.actual_arrival
+    };
+  }
+}
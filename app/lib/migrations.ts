@@ -0,0 +1,779 @@
+import sqlite3 from 'sqlite3';
+import { Database as SQLiteDatabase } from 'sqlite';
+import fs from 'fs';
+import path from 'path';
+import { debugLog } from './server-utils';
+import { AIRPORT_TIMEZONES } from './airport-timezones';
+
+/**
+ * Versioned schema migrations. Each migration runs once, in order, inside a
+ * transaction, and is recorded in schema_migrations. Add new migrations to the
+ * end of MIGRATIONS with the next version number; never edit or reorder one
+ * that has shipped. Migrations are applied automatically by Database.initDb
+ * (unless DB_AUTO_MIGRATE=false) or with `npm run db migrate up`, after the
+ * database file is copied to DB_BACKUP_DIR.
+ */
+
+type SqliteConnection = SQLiteDatabase<sqlite3.Database, sqlite3.Statement>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: SqliteConnection): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+export const DB_BACKUP_DIR = path.resolve(process.cwd(), process.env.DB_BACKUP_DIR || 'backups');
+
+/**
+ * Adds a column unless the table already has it. Only the baseline needs
+ * this; later migrations know which columns exist.
+ */
+export async function addColumnIfMissing(db: SqliteConnection, table: string, column: string, definition: string): Promise<void> {
+  const columns = await db.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+  if (!columns.some(c => c.name === column)) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    debugLog(`Added column ${table}.${column}`);
+  }
+}
+
+// The schema as it was before migrations existed; every statement is idempotent
+// so the baseline can be applied to databases created by any earlier version.
+const BASELINE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS flights (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flight_number TEXT NOT NULL,
+    flight_date TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    destination TEXT NOT NULL,
+    departure_time TEXT NOT NULL,
+    arrival_time TEXT NOT NULL,
+    segment_index INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(flight_number, flight_date, segment_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS waitlist_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flight_id INTEGER REFERENCES flights(id),
+    waitlist_names TEXT NOT NULL,
+    first_class_capacity INTEGER,
+    first_class_available INTEGER,
+    first_class_checked_in INTEGER,
+    snapshot_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (flight_id) REFERENCES flights(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS elite_status (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    passenger TEXT NOT NULL,
+    status TEXT NOT NULL,
+    flight_number TEXT NOT NULL,
+    flight_date TEXT NOT NULL,
+    added_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(passenger, flight_number, flight_date)
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    first_name TEXT NOT NULL,
+    last_name TEXT NOT NULL,
+    status_level TEXT NOT NULL CHECK (status_level IN ('MVP', 'MVP_GOLD', 'MVP_GOLD_75K')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS page_archive (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flight_number TEXT NOT NULL,
+    flight_date TEXT NOT NULL,
+    fetched_at TIMESTAMP NOT NULL,
+    source TEXT NOT NULL,
+    url TEXT NOT NULL,
+    html_gz BLOB NOT NULL,
+    html_size INTEGER NOT NULL
+  );
+
+  -- 'failed' jobs are waiting for a retry at next_run_at; 'dead' jobs ran out of attempts
+  CREATE TABLE IF NOT EXISTS scrape_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    flight_number TEXT NOT NULL,
+    flight_date TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    state TEXT NOT NULL DEFAULT 'queued' CHECK (state IN ('queued', 'running', 'succeeded', 'failed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP,
+    finished_at TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS circuit_breaker_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    circuit TEXT NOT NULL,
+    from_state TEXT NOT NULL,
+    to_state TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- failures counts every failed scrape; verification_failures only bot-check failures
+  CREATE TABLE IF NOT EXISTS browser_profiles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    fingerprint TEXT NOT NULL,
+    successes INTEGER NOT NULL DEFAULT 0,
+    failures INTEGER NOT NULL DEFAULT 0,
+    verification_failures INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP,
+    last_success_at TIMESTAMP,
+    retired_at TIMESTAMP,
+    retire_reason TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS browser_profile_daily (
+    profile_id INTEGER NOT NULL REFERENCES browser_profiles(id),
+    day TEXT NOT NULL,
+    successes INTEGER NOT NULL DEFAULT 0,
+    verification_failures INTEGER NOT NULL DEFAULT 0,
+    errors INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (profile_id, day)
+  );
+
+  CREATE TABLE IF NOT EXISTS verification_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    handler TEXT NOT NULL,
+    flight_number TEXT NOT NULL,
+    flight_date TEXT NOT NULL,
+    profile TEXT,
+    attempt INTEGER NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('passed', 'failed', 'denied', 'error')),
+    duration_ms INTEGER NOT NULL,
+    screenshot_dir TEXT,
+    screenshot_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Credentials are kept out of the database; server is scheme://host:port
+  CREATE TABLE IF NOT EXISTS proxies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    server TEXT NOT NULL UNIQUE,
+    successes INTEGER NOT NULL DEFAULT 0,
+    failures INTEGER NOT NULL DEFAULT 0,
+    verification_failures INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP,
+    last_success_at TIMESTAMP,
+    disabled_at TIMESTAMP,
+    disabled_reason TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_flights_lookup ON flights(flight_number, flight_date);
+  CREATE INDEX IF NOT EXISTS idx_snapshots_flight ON waitlist_snapshots(flight_id);
+  CREATE INDEX IF NOT EXISTS idx_snapshots_time ON waitlist_snapshots(snapshot_time);
+  CREATE INDEX IF NOT EXISTS idx_elite_status_flight ON elite_status(flight_number, flight_date);
+  CREATE INDEX IF NOT EXISTS idx_elite_status_passenger ON elite_status(passenger);
+  CREATE INDEX IF NOT EXISTS idx_page_archive_flight ON page_archive(flight_number, flight_date, fetched_at);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_jobs_active ON scrape_jobs(flight_number, flight_date)
+    WHERE state IN ('queued', 'running', 'failed');
+  CREATE INDEX IF NOT EXISTS idx_scrape_jobs_next ON scrape_jobs(state, priority, next_run_at);
+  CREATE INDEX IF NOT EXISTS idx_circuit_events ON circuit_breaker_events(circuit, id);
+  CREATE INDEX IF NOT EXISTS idx_verification_attempts_time ON verification_attempts(created_at);
+`;
+
+/*
+ * Backfills run on the logic they shipped with, copied here rather than
+ * imported: a database that applies an old migration late must end up the
+ * same as one that applied it on time, whatever the live modules do since.
+ */
+
+// The waitlist_snapshots columns the backfills of migrations 4 and 5 read
+interface SnapshotRow {
+  id: number;
+  flight_id: number;
+  waitlist_names: string;
+  waitlist_lists: string | null;
+  first_class_capacity: number | null;
+  first_class_available: number | null;
+  first_class_checked_in: number | null;
+  snapshot_time: string;
+}
+
+// A stored list; rows written before per-row detail was captured have no entries
+interface StoredList {
+  cabin: string;
+  listType: string;
+  names: string[];
+  entries?: { name: string; position: number; cleared?: boolean }[];
+}
+
+interface StoredWaitlist {
+  names: string[];
+  lists: StoredList[] | null;
+  capacity: number | null;
+  available: number | null;
+  checkedIn: number | null;
+}
+
+const SNAPSHOT_ROWS_SQL = `
+  SELECT id, flight_id, waitlist_names, waitlist_lists, first_class_capacity, first_class_available,
+         first_class_checked_in, snapshot_time
+  FROM waitlist_snapshots
+  WHERE is_suspect = 0
+  ORDER BY flight_id, snapshot_time, id
+`;
+
+// Throws on unparseable JSON in an old row
+function readSnapshotRow(row: SnapshotRow): StoredWaitlist {
+  return {
+    names: JSON.parse(row.waitlist_names),
+    lists: row.waitlist_lists ? JSON.parse(row.waitlist_lists) : null,
+    capacity: row.first_class_capacity,
+    available: row.first_class_available,
+    checkedIn: row.first_class_checked_in
+  };
+}
+
+interface Migration4Event {
+  type: 'added' | 'removed' | 'moved' | 'capacity_changed';
+  cabin?: string;
+  listType?: string;
+  name?: string;
+  oldPosition?: number | null;
+  newPosition?: number | null;
+  field?: 'capacity' | 'available' | 'checkedIn';
+  oldValue?: number | null;
+  newValue?: number | null;
+}
+
+// diffWaitlistSnapshots as migration 4 shipped it
+function migration4Events(previous: StoredWaitlist, current: StoredWaitlist): Migration4Event[] {
+  const listsOf = (waitlist: StoredWaitlist) =>
+    waitlist.lists?.length ? waitlist.lists : [{ cabin: 'first', listType: 'upgrade', names: waitlist.names }];
+  const previousLists = listsOf(previous);
+  const currentLists = listsOf(current);
+  const events: Migration4Event[] = [];
+
+  const keys = new Set([...previousLists, ...currentLists].map(list => `${list.cabin}|${list.listType}`));
+  for (const key of Array.from(keys)) {
+    const [cabin, listType] = key.split('|');
+    const namesIn = (lists: StoredList[]) => lists.find(list => list.cabin === cabin && list.listType === listType)?.names || [];
+    const oldNames = namesIn(previousLists);
+    const newNames = namesIn(currentLists);
+    const oldPositions = new Map(oldNames.map((name, i) => [name, i + 1]));
+    const newPositions = new Map(newNames.map((name, i) => [name, i + 1]));
+
+    for (const name of oldNames.filter(name => !newPositions.has(name))) {
+      events.push({ type: 'removed', cabin, listType, name, oldPosition: oldPositions.get(name)!, newPosition: null });
+    }
+    for (const name of newNames.filter(name => !oldPositions.has(name))) {
+      events.push({ type: 'added', cabin, listType, name, oldPosition: null, newPosition: newPositions.get(name)! });
+    }
+    for (const name of newNames.filter(name => oldPositions.has(name) && oldPositions.get(name) !== newPositions.get(name))) {
+      events.push({ type: 'moved', cabin, listType, name, oldPosition: oldPositions.get(name)!, newPosition: newPositions.get(name)! });
+    }
+  }
+
+  for (const field of ['capacity', 'available', 'checkedIn'] as const) {
+    if (previous[field] !== current[field]) {
+      events.push({ type: 'capacity_changed', field, oldValue: previous[field], newValue: current[field] });
+    }
+  }
+  return events;
+}
+
+interface Migration5Clearance {
+  passenger: string;
+  oldPosition: number | null;
+  evidence: 'marker' | 'seat_counts' | 'position';
+  confidence: number;
+  seatsTaken: number;
+  checkedInRise: number;
+}
+
+// inferClearances as migration 5 shipped it
+function migration5Clearances(previous: StoredWaitlist | null, current: StoredWaitlist): Migration5Clearance[] {
+  const upgradeList = (waitlist: StoredWaitlist) => waitlist.lists?.find(list => list.cabin === 'first' && list.listType === 'upgrade');
+  const upgradeNames = (waitlist: StoredWaitlist) => upgradeList(waitlist)?.names || waitlist.names;
+  const increase = (from: number | null, to: number | null) => from !== null && to !== null ? Math.max(0, to - from) : 0;
+  const inferences: Migration5Clearance[] = [];
+
+  for (const entry of upgradeList(current)?.entries || []) {
+    if (entry.cleared) {
+      inferences.push({ passenger: entry.name, oldPosition: entry.position, evidence: 'marker', confidence: 1, seatsTaken: 0, checkedInRise: 0 });
+    }
+  }
+  if (!previous) return inferences;
+
+  const currentNames = new Set(upgradeNames(current));
+  const removed = upgradeNames(previous)
+    .map((name, i) => ({ name, position: i + 1 }))
+    .filter(({ name }) => !currentNames.has(name) && !inferences.some(inference => inference.passenger === name));
+  if (!removed.length) return inferences;
+
+  const seatsTaken = increase(current.available, previous.available);
+  const checkedInRise = increase(previous.checkedIn, current.checkedIn);
+  const seatsFilled = Math.max(seatsTaken, checkedInRise);
+  removed.forEach(({ name, position }, i) => {
+    const withinAvailable = previous.available !== null && position <= previous.available;
+    if (i < seatsFilled) {
+      const confidence = (seatsTaken > 0 && checkedInRise > 0 ? 0.8 : 0.6) + (withinAvailable ? 0.1 : 0);
+      inferences.push({ passenger: name, oldPosition: position, evidence: 'seat_counts', confidence, seatsTaken, checkedInRise });
+    } else if (withinAvailable) {
+      inferences.push({ passenger: name, oldPosition: position, evidence: 'position', confidence: 0.3, seatsTaken, checkedInRise });
+    }
+  });
+  return inferences;
+}
+
+// The flights columns the backfill of migration 7 reads
+interface FlightTimesRow {
+  id: number;
+  flight_date: string;
+  segment_date: string | null;
+  origin: string | null;
+  destination: string | null;
+  departure_time: string | null;
+  arrival_time: string | null;
+}
+
+const MIGRATION_7_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MIGRATION_7_DAY_MS = 24 * 60 * 60 * 1000;
+const migration7Formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Stations are read live: the dataset is only ever added to
+function migration7Zone(station: string): string {
+  return AIRPORT_TIMEZONES[station.trim().toUpperCase()] || 'America/Los_Angeles';
+}
+
+function migration7Parts(instantMs: number, timeZone: string): Record<string, number> {
+  let formatter = migration7Formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    migration7Formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instantMs))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  }
+  return parts;
+}
+
+function migration7CalendarDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+}
+
+// parseCalendarDate as migration 7 shipped it
+function migration7Date(text: string): string | null {
+  const value = text.trim();
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|T)/);
+  if (iso) return migration7CalendarDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return migration7CalendarDate(parseInt(us[3]), parseInt(us[1]), parseInt(us[2]));
+
+  const monthFirst = value.match(/([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/);
+  const dayFirst = value.match(/(\d{1,2})\s+([A-Za-z]{3,})\.?,?\s+(\d{4})/);
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst ? [dayFirst[2], dayFirst[1], dayFirst[3]] : [];
+  const month = monthName ? MIGRATION_7_MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1 : 0;
+  return month ? migration7CalendarDate(parseInt(year!), month, parseInt(day!)) : null;
+}
+
+// parseClockMinutes as migration 7 shipped it
+function migration7Minutes(text: string): number | null {
+  const match = text.match(/(\d{1,2}):(\d{2})\s*([ap])?\.?\s*m?\.?/i);
+  if (!match) return null;
+  let hours = parseInt(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  return hours * 60 + parseInt(match[2]);
+}
+
+function migration7OffsetMinutes(timeZone: string, instantMs: number): number {
+  const wholeSeconds = Math.floor(instantMs / 1000) * 1000;
+  const parts = migration7Parts(wholeSeconds, timeZone);
+  return (Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second) - wholeSeconds) / 60000;
+}
+
+// The instant (ms) a local date and clock time occur in a zone, as FlightTime placed it
+function migration7Instant(date: string, minutes: number, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, day) + minutes * 60000;
+  const offsets = [-MIGRATION_7_DAY_MS, MIGRATION_7_DAY_MS].map(shift => migration7OffsetMinutes(timeZone, localAsUtc + shift));
+  const matches = offsets
+    .map(offset => localAsUtc - offset * 60000)
+    .filter((instant, i) => migration7OffsetMinutes(timeZone, instant) === offsets[i]);
+  return matches.length ? Math.min(...matches) : localAsUtc - Math.min(...offsets) * 60000;
+}
+
+// FlightTime.fromLocal and FlightTime.arrival as migration 7 shipped them
+function migration7ScheduledTimes(flight: FlightTimesRow): { departure: number | null; arrival: number | null } {
+  const date = migration7Date(flight.segment_date || flight.flight_date);
+  const departureMinutes = migration7Minutes(flight.departure_time || '');
+  if (!date || departureMinutes === null) return { departure: null, arrival: null };
+  const departure = migration7Instant(date, departureMinutes, migration7Zone(flight.origin || ''));
+
+  const arrivalMinutes = migration7Minutes(flight.arrival_time || '');
+  if (arrivalMinutes === null) return { departure, arrival: null };
+  const arrivalZone = migration7Zone(flight.destination || '');
+  const parts = migration7Parts(departure, arrivalZone);
+  const departureDate = Date.UTC(parts.year, parts.month - 1, parts.day);
+  for (let days = -1; days <= 2; days++) {
+    const arrival = migration7Instant(new Date(departureDate + days * MIGRATION_7_DAY_MS).toISOString().split('T')[0], arrivalMinutes, arrivalZone);
+    if (arrival > departure) return { departure, arrival };
+  }
+  return { departure, arrival: null };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    async up(db) {
+      await db.exec(BASELINE_SCHEMA);
+
+      // Columns added to the schema before migrations existed
+      await addColumnIfMissing(db, 'waitlist_snapshots', 'archive_id', 'INTEGER REFERENCES page_archive(id)');
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_snapshots_archive ON waitlist_snapshots(archive_id)');
+      await addColumnIfMissing(db, 'waitlist_snapshots', 'parse_confidence', 'REAL');
+      await addColumnIfMissing(db, 'waitlist_snapshots', 'is_suspect', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumnIfMissing(db, 'waitlist_snapshots', 'parse_diagnostics', 'TEXT');
+      await addColumnIfMissing(db, 'flights', 'segment_date', 'TEXT');
+      await addColumnIfMissing(db, 'waitlist_snapshots', 'waitlist_lists', 'TEXT');
+      await addColumnIfMissing(db, 'verification_attempts', 'frames', 'TEXT');
+      await addColumnIfMissing(db, 'verification_attempts', 'log', 'TEXT');
+    }
+  },
+  {
+    version: 2,
+    name: 'snapshot_entries',
+    async up(db) {
+      await db.exec(`
+        -- One row per name per list in a snapshot; waitlist_names/waitlist_lists keep the original JSON
+        CREATE TABLE snapshot_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          snapshot_id INTEGER NOT NULL REFERENCES waitlist_snapshots(id) ON DELETE CASCADE,
+          cabin TEXT NOT NULL,
+          list_type TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          seat TEXT,
+          cleared INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX idx_snapshot_entries_snapshot ON snapshot_entries(snapshot_id);
+        CREATE INDEX idx_snapshot_entries_name ON snapshot_entries(name, snapshot_id);
+        CREATE INDEX idx_snapshot_entries_position ON snapshot_entries(cabin, list_type, position, snapshot_id);
+      `);
+
+      // Snapshots parsed with list details get every list; older ones only have the First Class upgrade names
+      await db.exec(`
+        INSERT INTO snapshot_entries (snapshot_id, cabin, list_type, position, name, seat, cleared)
+        SELECT w.id, json_extract(l.value, '$.cabin'), json_extract(l.value, '$.listType'),
+               json_extract(e.value, '$.position'), json_extract(e.value, '$.name'),
+               json_extract(e.value, '$.seat'), COALESCE(json_extract(e.value, '$.cleared'), 0)
+        FROM waitlist_snapshots w, json_each(w.waitlist_lists) l, json_each(l.value, '$.entries') e
+        WHERE w.waitlist_lists IS NOT NULL AND json_valid(w.waitlist_lists);
+
+        INSERT INTO snapshot_entries (snapshot_id, cabin, list_type, position, name)
+        SELECT w.id, 'first', 'upgrade', n.key + 1, n.value
+        FROM waitlist_snapshots w, json_each(w.waitlist_names) n
+        WHERE (w.waitlist_lists IS NULL OR NOT json_valid(w.waitlist_lists)) AND json_valid(w.waitlist_names);
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'flight_schedule_history',
+    async up(db) {
+      await db.exec(`
+        -- Previous values of a flight's schedule fields; flights holds the current ones
+        CREATE TABLE flight_schedule_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          flight_id INTEGER NOT NULL REFERENCES flights(id),
+          field TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_flight_schedule_history_flight ON flight_schedule_history(flight_id, changed_at);
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: 'waitlist_events',
+    async up(db) {
+      await db.exec(`
+        ALTER TABLE waitlist_snapshots ADD COLUMN last_confirmed_at TIMESTAMP;
+        UPDATE waitlist_snapshots SET last_confirmed_at = snapshot_time;
+
+        -- Name events carry cabin/list_type/name/positions; capacity_changed events carry field/old_value/new_value
+        CREATE TABLE waitlist_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          flight_id INTEGER NOT NULL REFERENCES flights(id),
+          snapshot_id INTEGER NOT NULL REFERENCES waitlist_snapshots(id),
+          event_type TEXT NOT NULL CHECK (event_type IN ('added', 'removed', 'moved', 'capacity_changed')),
+          cabin TEXT,
+          list_type TEXT,
+          name TEXT,
+          old_position INTEGER,
+          new_position INTEGER,
+          field TEXT,
+          old_value INTEGER,
+          new_value INTEGER,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_waitlist_events_flight ON waitlist_events(flight_id, created_at);
+        CREATE INDEX idx_waitlist_events_name ON waitlist_events(name);
+      `);
+
+      // Derive events from the snapshots stored so far
+      const snapshots = await db.all<SnapshotRow[]>(SNAPSHOT_ROWS_SQL);
+      for (let i = 1; i < snapshots.length; i++) {
+        const [previous, current] = [snapshots[i - 1], snapshots[i]];
+        if (previous.flight_id !== current.flight_id) continue;
+
+        let events: Migration4Event[];
+        try {
+          events = migration4Events(readSnapshotRow(previous), readSnapshotRow(current));
+        } catch (error) {
+          // Unparseable JSON in an old row
+          continue;
+        }
+        for (const event of events) {
+          await db.run(`
+            INSERT INTO waitlist_events
+            (flight_id, snapshot_id, event_type, cabin, list_type, name, old_position, new_position, field, old_value, new_value, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [
+            current.flight_id, current.id, event.type, event.cabin ?? null, event.listType ?? null, event.name ?? null,
+            event.oldPosition ?? null, event.newPosition ?? null, event.field ?? null, event.oldValue ?? null,
+            event.newValue ?? null, current.snapshot_time
+          ]);
+        }
+      }
+    }
+  },
+  {
+    version: 5,
+    name: 'clearances',
+    async up(db) {
+      await db.exec(`
+        -- Inferred First Class upgrade clearances, at most one per passenger per flight segment
+        CREATE TABLE clearances (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          flight_id INTEGER NOT NULL REFERENCES flights(id),
+          snapshot_id INTEGER NOT NULL REFERENCES waitlist_snapshots(id),
+          passenger TEXT NOT NULL,
+          old_position INTEGER,
+          evidence TEXT NOT NULL CHECK (evidence IN ('marker', 'seat_counts', 'position')),
+          confidence REAL NOT NULL,
+          seats_taken INTEGER NOT NULL DEFAULT 0,
+          checked_in_rise INTEGER NOT NULL DEFAULT 0,
+          detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(flight_id, passenger)
+        );
+
+        CREATE INDEX idx_clearances_passenger ON clearances(passenger);
+      `);
+
+      // Infer clearances from the snapshots stored so far, replaying them in order per flight
+      const snapshots = await db.all<SnapshotRow[]>(SNAPSHOT_ROWS_SQL);
+      const found = new Map<string, Migration5Clearance & { flightId: number; snapshotId: number; detectedAt: string }>();
+      for (let i = 0; i < snapshots.length; i++) {
+        const row = snapshots[i];
+        const previousRow = i > 0 && snapshots[i - 1].flight_id === row.flight_id ? snapshots[i - 1] : null;
+
+        let current: StoredWaitlist;
+        let inferences: Migration5Clearance[];
+        try {
+          current = readSnapshotRow(row);
+          inferences = migration5Clearances(previousRow ? readSnapshotRow(previousRow) : null, current);
+        } catch (error) {
+          // Unparseable JSON in an old row
+          continue;
+        }
+
+        for (const name of current.names) {
+          const existing = found.get(`${row.flight_id}|${name}`);
+          if (existing && existing.evidence !== 'marker') found.delete(`${row.flight_id}|${name}`);
+        }
+        for (const inference of inferences) {
+          const key = `${row.flight_id}|${inference.passenger}`;
+          if ((found.get(key)?.confidence ?? -1) < inference.confidence) {
+            found.set(key, { ...inference, flightId: row.flight_id, snapshotId: row.id, detectedAt: row.snapshot_time });
+          }
+        }
+      }
+
+      for (const clearance of Array.from(found.values())) {
+        await db.run(`
+          INSERT INTO clearances
+          (flight_id, snapshot_id, passenger, old_position, evidence, confidence, seats_taken, checked_in_rise, detected_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          clearance.flightId, clearance.snapshotId, clearance.passenger, clearance.oldPosition, clearance.evidence,
+          clearance.confidence, clearance.seatsTaken, clearance.checkedInRise, clearance.detectedAt
+        ]);
+      }
+    }
+  },
+  {
+    version: 6,
+    name: 'flight_compaction',
+    async up(db) {
+      await db.exec(`
+        -- Set once a departed flight's snapshots have been downsampled by the retention job
+        ALTER TABLE flights ADD COLUMN compacted_at TIMESTAMP;
+        CREATE INDEX idx_flights_date ON flights(flight_date);
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'flight_times',
+    async up(db) {
+      await db.exec(`
+        -- Scheduled, estimated and actual times of each leg (UTC); changes go to flight_schedule_history
+        ALTER TABLE flights ADD COLUMN scheduled_departure TIMESTAMP;
+        ALTER TABLE flights ADD COLUMN estimated_departure TIMESTAMP;
+        ALTER TABLE flights ADD COLUMN actual_departure TIMESTAMP;
+        ALTER TABLE flights ADD COLUMN scheduled_arrival TIMESTAMP;
+        ALTER TABLE flights ADD COLUMN estimated_arrival TIMESTAMP;
+        ALTER TABLE flights ADD COLUMN actual_arrival TIMESTAMP;
+      `);
+
+      // Scheduled times of existing flights from their local clock times; the first time in the text is the scheduled one
+      const flights = await db.all<FlightTimesRow[]>(
+        'SELECT id, flight_date, segment_date, origin, destination, departure_time, arrival_time FROM flights'
+      );
+      const column = (time: number | null) => time !== null ? new Date(time).toISOString().replace('T', ' ').slice(0, 19) : null;
+      for (const flight of flights) {
+        const { departure, arrival } = migration7ScheduledTimes(flight);
+        if (departure !== null) {
+          await db.run(
+            'UPDATE flights SET scheduled_departure = ?, scheduled_arrival = ? WHERE id = ?',
+            [column(departure), column(arrival), flight.id]
+          );
+        }
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'scrape_job_profile',
+    async up(db) {
+      await db.exec(`
+        -- Browser profile a job was asked to scrape with; NULL lets the scraper choose
+        ALTER TABLE scrape_jobs ADD COLUMN profile TEXT;
+      `);
+    }
+  }
+];
+
+async function ensureMigrationsTable(db: SqliteConnection): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Every known migration with when it was applied (null if pending).
+ */
+export async function getMigrationStatus(db: SqliteConnection): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(db);
+  const applied = await db.all<{ version: number; applied_at: string }[]>('SELECT version, applied_at FROM schema_migrations');
+
+  return MIGRATIONS.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied_at: applied.find(row => row.version === migration.version)?.applied_at || null
+  }));
+}
+
+async function getPendingMigrations(db: SqliteConnection): Promise<Migration[]> {
+  await ensureMigrationsTable(db);
+  const applied = await db.all<{ version: number }[]>('SELECT version FROM schema_migrations');
+  const latestKnown = MIGRATIONS[MIGRATIONS.length - 1].version;
+  const newer = applied.filter(row => row.version > latestKnown);
+  if (newer.length) {
+    debugLog(`Database has migrations newer than this code (${newer.map(row => row.version).join(', ')}); was it opened by a later version?`, 'error');
+  }
+
+  return MIGRATIONS.filter(migration => !applied.some(row => row.version === migration.version));
+}
+
+/**
+ * Copies the database to DB_BACKUP_DIR before it is migrated. VACUUM INTO
+ * writes a consistent copy even while other connections are open.
+ */
+async function backupBeforeMigrating(db: SqliteConnection, fromVersion: number): Promise<string> {
+  fs.mkdirSync(DB_BACKUP_DIR, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(DB_BACKUP_DIR, `alaska_waitlist-v${fromVersion}-${stamp}.db`);
+  await db.run('VACUUM INTO ?', backupPath);
+  return backupPath;
+}
+
+/**
+ * Applies pending migrations in order and returns the versions applied. A
+ * database that already has tables is backed up first; a failing migration
+ * is rolled back and stops the run.
+ */
+export async function runMigrations(db: SqliteConnection): Promise<number[]> {
+  const pending = await getPendingMigrations(db);
+  if (!pending.length) return [];
+
+  const existingTables = await db.get<{ count: number }>(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')"
+  );
+  if (existingTables?.count) {
+    const current = await db.get<{ version: number | null }>('SELECT MAX(version) as version FROM schema_migrations');
+    const backupPath = await backupBeforeMigrating(db, current?.version || 0);
+    debugLog(`Backed up database to ${backupPath} before migrating`);
+  }
+
+  const applied: number[] = [];
+  for (const migration of pending) {
+    debugLog(`Applying migration ${migration.version} (${migration.name})...`);
+    await db.exec('BEGIN');
+    try {
+      await migration.up(db);
+      await db.run('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', migration.version, migration.name);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+    applied.push(migration.version);
+  }
+
+  debugLog(`Applied ${applied.length} migration(s), schema is at version ${applied[applied.length - 1]}`);
+  return applied;
+}
@@ -0,0 +1,45 @@
+import db from './db';
+import type { Database } from './db';
+
+/**
+ * The parts of Database that modules outside the storage layer may use.
+ * Flights, snapshots, clearances, elite statuses and users go through
+ * getRepository(); what is left is state that only ever lives in
+ * alaska_waitlist.db, whatever STORAGE_BACKEND says. Only the repository's
+ * SQLite backend and the db CLI (db-utils.ts) import Database itself.
+ */
+
+/**
+ * The scraper's operational state: the scrape queue, the page archive,
+ * circuit breaker transitions, proxies, browser profiles, verification
+ * attempts, and retention of the SQLite history.
+ */
+export type OperationalStore = Pick<Database,
+  | 'initDb'
+  // scrape-queue.ts
+  | 'enqueueScrapeJob' | 'claimNextScrapeJob' | 'completeScrapeJob' | 'failScrapeJob' | 'deferScrapeJob'
+  | 'requeueInterruptedScrapeJobs' | 'getNextScrapeJobTime'
+  // page-archive.ts
+  | 'saveArchivedPage' | 'getArchivedPages'
+  // circuit-breaker.ts
+  | 'recordCircuitTransition' | 'getLastCircuitTransition'
+  // proxies.ts
+  | 'ensureProxy' | 'getProxies' | 'recordProxyOutcome' | 'setProxyDisabled'
+  // browser-profiles.ts
+  | 'createBrowserProfile' | 'getBrowserProfile' | 'getActiveBrowserProfiles' | 'recordBrowserProfileOutcome'
+  | 'retireBrowserProfile'
+  // verification-handlers.ts, verification-report.ts
+  | 'recordVerificationAttempt' | 'getVerificationAttempt' | 'getVerificationAttempts'
+  | 'getVerificationAttemptsWithScreenshots' | 'clearVerificationScreenshots'
+  // retention.ts
+  | 'getFlightsToCompact' | 'compactFlightSnapshots' | 'deleteUnreferencedArchives' | 'purgeFlightsBefore'
+>;
+
+/**
+ * Backups and export/import, which work on the SQLite connection itself.
+ */
+export type MaintenanceStore = Pick<Database, 'isDbAvailable' | 'withConnection' | 'inTransaction' | 'migrate'>;
+
+export const operationalStore: OperationalStore = db;
+
+export const maintenanceStore: MaintenanceStore = db;
@@ -0,0 +1,107 @@
+import { gzipSync, gunzipSync } from 'zlib';
+import * as cheerio from 'cheerio';
+import { operationalStore } from './operational-store';
+import type { ArchivedPageRecord } from './db';
+import { fromSqliteTimestamp, toSqliteTimestamp } from './record-format';
+import { parseFlightSegments, parseWaitlistForSegment, WaitlistSnapshot } from './flight-utils';
+import { getRepository } from './repository';
+import { debugLog } from './server-utils';
+import type { StatusPage } from './waitlist-source';
+
+export interface ReparseSummary {
+  pages: number;
+  /** Waitlists saved again; one that matches the snapshot before it only confirms that snapshot */
+  snapshotsWritten: number;
+  snapshotsReplaced: number;
+  failedPages: number;
+}
+
+/**
+ * Stores the raw status page HTML (gzipped) so it can be re-parsed later.
+ * Returns the archive id to link snapshots to, or null if archiving failed.
+ */
+export async function archiveStatusPage(
+  flightNumber: string,
+  flightDate: string,
+  statusPage: StatusPage
+): Promise<number | null> {
+  const html = Buffer.from(statusPage.html, 'utf8');
+  const archiveId = await operationalStore.saveArchivedPage({
+    flight_number: flightNumber,
+    flight_date: flightDate,
+    fetched_at: toSqliteTimestamp(statusPage.fetchedAt),
+    source: statusPage.source,
+    url: statusPage.url,
+    html_gz: gzipSync(html),
+    html_size: html.length
+  });
+
+  if (archiveId) {
+    debugLog(`Archived status page for flight ${flightNumber} on ${flightDate} as #${archiveId}`);
+  }
+  return archiveId;
+}
+
+export function readArchivedHtml(page: ArchivedPageRecord): string {
+  return gunzipSync(page.html_gz).toString('utf8');
+}
+
+/**
+ * Re-runs the parsers over archived pages and rewrites the snapshots that were
+ * produced from them. Pages are saved in fetch order with their original fetch
+ * time and go through the usual change detection, so a page that now matches
+ * the snapshot before it only confirms that snapshot. Events and clearances of
+ * the segments touched are then derived again, since later snapshots were
+ * compared against the old parse.
+ */
+export async function reparseArchive(flightNumber?: string, flightDate?: string): Promise<ReparseSummary> {
+  const summary: ReparseSummary = { pages: 0, snapshotsWritten: 0, snapshotsReplaced: 0, failedPages: 0 };
+  const pages = await operationalStore.getArchivedPages(flightNumber, flightDate);
+  const repository = getRepository();
+  const touchedFlights = new Set<number>();
+
+  for (const page of pages) {
+    summary.pages++;
+
+    try {
+      const $ = cheerio.load(readArchivedHtml(page));
+      const segments = parseFlightSegments($);
+      if (!segments.length) {
+        debugLog(`Archive #${page.id}: no flight segments found, leaving existing snapshots untouched`, 'error');
+        summary.failedPages++;
+        continue;
+      }
+
+      // Parse everything before touching the database so a parser error can't lose snapshots
+      const waitlists: (WaitlistSnapshot | null)[] = segments.map(segment => parseWaitlistForSegment($, segment.segmentIndex));
+
+      summary.snapshotsReplaced += await repository.snapshots.deleteForArchive(page.id);
+
+      for (let i = 0; i < segments.length; i++) {
+        const waitlistInfo = waitlists[i];
+        if (!waitlistInfo) continue;
+
+        const { segmentIndex } = segments[i];
+        const flightId = await repository.flights.getId(page.flight_number, page.flight_date, segmentIndex)
+          ?? await repository.flights.save({ ...segments[i], date: page.flight_date }, segmentIndex);
+        if (!flightId) continue;
+
+        await repository.snapshots.save(flightId, waitlistInfo, {
+          archiveId: page.id,
+          snapshotTime: fromSqliteTimestamp(page.fetched_at)
+        });
+        touchedFlights.add(flightId);
+        summary.snapshotsWritten++;
+      }
+    } catch (error) {
+      debugLog(`Archive #${page.id}: reparse failed: ` + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+      summary.failedPages++;
+    }
+  }
+
+  for (const flightId of Array.from(touchedFlights)) {
+    await repository.snapshots.rebuildHistory(flightId);
+  }
+
+  return summary;
+}
@@ -0,0 +1,76 @@
+import { ParseDiagnostics } from './flight-utils';
+import { logger } from './logger';
+
+/**
+ * Watches parse diagnostics across flights. A single suspect parse can be a
+ * quirk of one flight; the same problem on several different flights within
+ * a short window means Alaska changed the page markup.
+ */
+
+const DRIFT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const DRIFT_FLIGHT_THRESHOLD = parseInt(process.env.PARSE_DRIFT_THRESHOLD || '3');
+
+interface FlightParseState {
+  suspect: boolean;
+  confidence: number;
+  warnings: string[];
+  observedAt: number;
+}
+
+export interface ParseHealth {
+  driftDetected: boolean;
+  suspectFlights: string[];
+  lastAlertAt: Date | null;
+}
+
+const flightStates = new Map<string, FlightParseState>();
+let lastAlertAt: number | null = null;
+
+function getRecentSuspectFlights(now: number): string[] {
+  const suspectFlights: string[] = [];
+  for (const [flightKey, state] of flightStates.entries()) {
+    if (now - state.observedAt > DRIFT_WINDOW_MS) {
+      flightStates.delete(flightKey);
+    } else if (state.suspect) {
+      suspectFlights.push(flightKey);
+    }
+  }
+  return suspectFlights;
+}
+
+/**
+ * Records the diagnostics of one parsed segment. flightKey identifies the
+ * segment, e.g. "1234|2024-12-29|0".
+ */
+export function recordParseDiagnostics(flightKey: string, diagnostics: ParseDiagnostics): void {
+  const now = Date.now();
+  flightStates.set(flightKey, {
+    suspect: diagnostics.suspect,
+    confidence: diagnostics.confidence,
+    warnings: diagnostics.warnings,
+    observedAt: now
+  });
+
+  if (diagnostics.suspect) {
+    logger.log(`Suspect parse for ${flightKey} (confidence ${diagnostics.confidence}): ${diagnostics.warnings.join('; ') || 'missing ' + diagnostics.missingFields.join(', ')}`, 'error');
+  }
+
+  const suspectFlights = getRecentSuspectFlights(now);
+  const alertedRecently = lastAlertAt !== null && now - lastAlertAt < DRIFT_WINDOW_MS;
+  if (suspectFlights.length >= DRIFT_FLIGHT_THRESHOLD && !alertedRecently) {
+    lastAlertAt = now;
+    const details = suspectFlights
+      .map(key => `${key}: ${flightStates.get(key)?.warnings.join('; ')}`)
+      .join(' | ');
+    logger.log(`[PARSE DRIFT] ${suspectFlights.length} flights produced suspect parses in the last hour. Status page markup may have changed. ${details}`, 'error');
+  }
+}
+
+export function getParseHealth(): ParseHealth {
+  const suspectFlights = getRecentSuspectFlights(Date.now());
+  return {
+    driftDetected: suspectFlights.length >= DRIFT_FLIGHT_THRESHOLD,
+    suspectFlights,
+    lastAlertAt: lastAlertAt !== null ? new Date(lastAlertAt) : null
+  };
+}
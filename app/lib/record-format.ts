@@ -0,0 +1,49 @@
+import type { FlightTimes } from './flight-utils';
+
+/**
+ * How stored records spell timestamps and flight times. Both storage
+ * backends write them this way, so it lives apart from db.ts and doesn't
+ * load the SQLite driver.
+ */
+
+/**
+ * Formats a date the way SQLite's CURRENT_TIMESTAMP does (UTC, no 'T' or zone).
+ */
+export function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Parses a timestamp written by SQLite (UTC) into a Date.
+ */
+export function fromSqliteTimestamp(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z');
+}
+
+// The structured time columns of a flight segment
+export const FLIGHT_TIME_FIELDS = [
+  'scheduled_departure', 'estimated_departure', 'actual_departure',
+  'scheduled_arrival', 'estimated_arrival', 'actual_arrival'
+] as const;
+
+export type FlightTimeField = typeof FLIGHT_TIME_FIELDS[number];
+
+// Fields of a flight segment that can change between scrapes, e.g. a retime or diversion
+export const SCHEDULE_FIELDS = ['origin', 'destination', 'departure_time', 'arrival_time', 'segment_date', ...FLIGHT_TIME_FIELDS] as const;
+
+export type ScheduleField = typeof SCHEDULE_FIELDS[number];
+
+/**
+ * A segment's parsed times as flights columns (SQLite UTC timestamps).
+ */
+export function flightTimeColumns(segment: { departure?: FlightTimes; arrival?: FlightTimes }): Record<FlightTimeField, string | null> {
+  const column = (time: string | null | undefined) => time ? toSqliteTimestamp(new Date(time)) : null;
+  return {
+    scheduled_departure: column(segment.departure?.scheduled),
+    estimated_departure: column(segment.departure?.estimated),
+    actual_departure: column(segment.departure?.actual),
+    scheduled_arrival: column(segment.arrival?.scheduled),
+    estimated_arrival: column(segment.arrival?.estimated),
+    actual_arrival: column(segment.arrival?.actual)
+  };
+}
@@ -0,0 +1,109 @@
+import type {
+  ClearanceRecord,
+  ClearanceStatsOptions,
+  ClearanceStatsRecord,
+  DatabaseRecord,
+  EliteStatusRecord,
+  FlightRecord,
+  FlightScheduleChangeRecord,
+  FlightSegment,
+  LatestSnapshotRecord,
+  SaveSnapshotOptions,
+  UserRecord,
+  WaitlistEventRecord,
+  WaitlistSnapshot
+} from './db';
+import { SqliteRepository } from './sqlite-repository';
+import { MemoryRepository } from './memory-repository';
+
+/**
+ * Typed storage for the tracker's core data: flights, waitlist snapshots,
+ * what was derived from them (schedule changes, waitlist events,
+ * clearances), elite statuses and users. Modules go through getRepository()
+ * instead of writing SQL. STORAGE_BACKEND picks the implementation:
+ *   sqlite (default)  alaska_waitlist.db through the Database class
+ *   memory            plain in-process collections, for tests and ephemeral
+ *                     demo mode; nothing survives a restart
+ * Operational state (scrape queue, page archive, circuit breaker, proxies,
+ * browser profiles, verification attempts) and retention stay on the Database
+ * class behind OperationalStore (operational-store.ts), as do the
+ * per-passenger snapshot entries behind the db CLI's queries. Backups and
+ * export/import copy the SQLite file, so they only work with the sqlite
+ * backend.
+ */
+
+export type StorageBackend = 'sqlite' | 'memory';
+
+export interface FlightRepository {
+  /** Inserts or updates a segment and returns its id, which never changes */
+  save(segment: FlightSegment, segmentIndex: number): Promise<number | null>;
+  getId(flightNumber: string, flightDate: string, segmentIndex: number): Promise<number | null>;
+  getSegments(flightNumber: string, flightDate: string): Promise<FlightRecord[]>;
+  /** Segments dated between the two dates (YYYY-MM-DD, inclusive) */
+  getBetween(fromDate: string, toDate: string): Promise<FlightRecord[]>;
+  /** Schedule fields that changed between saves, oldest first */
+  getScheduleHistory(flightNumber: string, flightDate: string): Promise<(FlightScheduleChangeRecord & { segment_index: number })[]>;
+}
+
+export interface SnapshotRepository {
+  /** Stores a snapshot, or confirms the previous one if nothing changed */
+  save(flightId: number, waitlist: WaitlistSnapshot, options?: SaveSnapshotOptions): Promise<void>;
+  /** Each segment of a flight with its latest non-suspect snapshot, if any */
+  getLatest(flightNumber: string, flightDate: string): Promise<LatestSnapshotRecord[]>;
+  getPrevious(flightId: number, before: string): Promise<DatabaseRecord | null>;
+  /** Deletes the snapshots parsed from an archived page; returns how many */
+  deleteForArchive(archiveId: number): Promise<number>;
+  /** Re-derives a segment's events and clearances from its snapshots in order */
+  rebuildHistory(flightId: number): Promise<void>;
+  /** Changes to a flight's waitlists and seat counts, oldest first (at most 500 by default) */
+  getEvents(
+    flightNumber: string,
+    flightDate: string,
+    options?: { since?: Date; limit?: number }
+  ): Promise<(WaitlistEventRecord & { segment_index: number })[]>;
+}
+
+export interface ClearanceRepository {
+  /** In segment order, then in the order they were detected */
+  getForFlight(flightNumber: string, flightDate: string): Promise<(ClearanceRecord & { segment_index: number })[]>;
+  /** Clearances per flight by flight number and route, most first; only flights with a snapshot count */
+  getStats(options?: ClearanceStatsOptions): Promise<ClearanceStatsRecord[]>;
+}
+
+export interface EliteStatusRepository {
+  /** Most recent first */
+  getForFlight(flightNumber: string, flightDate: string): Promise<EliteStatusRecord[]>;
+  save(flightNumber: string, flightDate: string, statuses: Map<string, string>): Promise<void>;
+}
+
+export interface UserRepository {
+  create(user: Omit<UserRecord, 'id' | 'created_at'>): Promise<UserRecord | null>;
+  getByUsername(username: string): Promise<UserRecord | null>;
+}
+
+export interface Repository {
+  backend: StorageBackend;
+  flights: FlightRepository;
+  snapshots: SnapshotRepository;
+  clearances: ClearanceRepository;
+  eliteStatuses: EliteStatusRepository;
+  users: UserRepository;
+  /** Rows stored per table, for logging */
+  getCounts(): Promise<Record<string, number>>;
+}
+
+let repository: Repository | null = null;
+
+export function getRepository(): Repository {
+  if (!repository) {
+    const backend = process.env.STORAGE_BACKEND || 'sqlite';
+    if (backend === 'memory') {
+      repository = new MemoryRepository();
+    } else if (backend === 'sqlite') {
+      repository = new SqliteRepository(() => import('./db').then(module => module.default));
+    } else {
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected sqlite or memory)`);
+    }
+  }
+  return repository;
+}
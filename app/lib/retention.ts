@@ -0,0 +1,86 @@
+import { operationalStore } from './operational-store';
+import { debugLog } from './server-utils';
+
+/**
+ * Keeps the database from growing without bound. Upcoming flights keep every
+ * snapshot; once a flight is SNAPSHOT_DOWNSAMPLE_AFTER_DAYS past its date its
+ * snapshots are thinned to the first, the last and the change points, and
+ * archived pages no remaining snapshot was parsed from are dropped. Flights
+ * older than SNAPSHOT_PURGE_AFTER_MONTHS are deleted entirely (0 keeps them).
+ */
+
+const DOWNSAMPLE_AFTER_DAYS = parseInt(process.env.SNAPSHOT_DOWNSAMPLE_AFTER_DAYS || '2');
+const PURGE_AFTER_MONTHS = parseInt(process.env.SNAPSHOT_PURGE_AFTER_MONTHS || '12');
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+let lastRetentionAt = 0;
+
+export interface RetentionSummary {
+  flightsCompacted: number;
+  snapshotsRemoved: number;
+  archivedPagesRemoved: number;
+  flightsPurged: number;
+  snapshotsPurged: number;
+  archivedPagesPurged: number;
+}
+
+// YYYY-MM-DD, matching flights.flight_date
+function dateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export async function applyRetention(now: Date = new Date()): Promise<RetentionSummary> {
+  const summary: RetentionSummary = {
+    flightsCompacted: 0,
+    snapshotsRemoved: 0,
+    archivedPagesRemoved: 0,
+    flightsPurged: 0,
+    snapshotsPurged: 0,
+    archivedPagesPurged: 0
+  };
+
+  if (PURGE_AFTER_MONTHS > 0) {
+    const purgeBefore = new Date(now);
+    purgeBefore.setUTCMonth(purgeBefore.getUTCMonth() - PURGE_AFTER_MONTHS);
+    const purged = await operationalStore.purgeFlightsBefore(dateOnly(purgeBefore));
+    summary.flightsPurged = purged.flights;
+    summary.snapshotsPurged = purged.snapshots;
+    summary.archivedPagesPurged = purged.archivedPages;
+  }
+
+  const compactBefore = dateOnly(new Date(now.getTime() - DOWNSAMPLE_AFTER_DAYS * 24 * 60 * 60 * 1000));
+  const flights = await operationalStore.getFlightsToCompact(compactBefore);
+  for (const flight of flights) {
+    summary.snapshotsRemoved += await operationalStore.compactFlightSnapshots(flight.id);
+    summary.flightsCompacted++;
+  }
+
+  // Archives are per flight rather than per segment
+  const flightKeys = new Set(flights.map(flight => `${flight.flight_number}|${flight.flight_date}`));
+  for (const key of Array.from(flightKeys)) {
+    const [flightNumber, flightDate] = key.split('|');
+    summary.archivedPagesRemoved += await operationalStore.deleteUnreferencedArchives(flightNumber, flightDate);
+  }
+
+  if (summary.flightsCompacted || summary.flightsPurged) {
+    debugLog(
+      `Retention: compacted ${summary.flightsCompacted} flight segments (${summary.snapshotsRemoved} snapshots, ` +
+      `${summary.archivedPagesRemoved} archived pages removed), purged ${summary.flightsPurged} flight segments ` +
+      `(${summary.snapshotsPurged} snapshots, ${summary.archivedPagesPurged} archived pages)`,
+      'info'
+    );
+  }
+  return summary;
+}
+
+/**
+ * Runs applyRetention in the background at most once a day.
+ */
+export function applyRetentionPeriodically(): void {
+  if (Date.now() - lastRetentionAt < RETENTION_INTERVAL_MS) return;
+  lastRetentionAt = Date.now();
+
+  applyRetention().catch(error => {
+    debugLog('Error applying snapshot retention: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+  });
+}
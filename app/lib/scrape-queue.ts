@@ -0,0 +1,219 @@
+import { operationalStore } from './operational-store';
+import type { ScrapeJobRecord } from './db';
+import { debugLog } from './server-utils';
+import { scrapeFlightCoalesced, ScrapedFlight } from './scraper';
+import { CircuitOpenError } from './circuit-breaker';
+import { startBrowserHealthMonitor, stopBrowserHealthMonitor } from './browser-health';
+
+/**
+ * Persistent scrape queue. Jobs live in the scrape_jobs table so queued work
+ * and retry history survive a restart; a worker loop in this process claims
+ * due jobs in priority order and retries failures with exponential backoff.
+ */
+
+export const JOB_PRIORITY_USER = 10;
+export const JOB_PRIORITY_SCHEDULED = 0;
+
+const MAX_ATTEMPTS = parseInt(process.env.SCRAPE_JOB_MAX_ATTEMPTS || '5');
+const WORKER_CONCURRENCY = parseInt(process.env.SCRAPE_WORKER_CONCURRENCY || '2');
+const BASE_BACKOFF_MS = 30 * 1000; // 30 seconds
+const MAX_BACKOFF_MS = 30 * 60 * 1000; // 30 minutes
+const IDLE_POLL_MS = 30 * 1000;
+// Below the dashboard's 60 second request timeout, so a slow job still leaves
+// time to answer with stale data; the job keeps running in the background
+const DEFAULT_WAIT_TIMEOUT_MS = parseInt(process.env.SCRAPE_WAIT_TIMEOUT_MS || '45000');
+
+interface JobWaiter {
+  resolve: (result: ScrapedFlight) => void;
+  reject: (error: Error) => void;
+}
+
+const jobWaiters = new Map<number, JobWaiter[]>();
+let workerStarted = false;
+let workerStopped = false;
+let runningJobs = 0;
+let wakeTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+let tickRequested = false;
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function notifyWaiters(jobId: number, result: ScrapedFlight | null, error?: Error): void {
+  const waiters = jobWaiters.get(jobId) || [];
+  jobWaiters.delete(jobId);
+  for (const waiter of waiters) {
+    if (error) {
+      waiter.reject(error);
+    } else {
+      waiter.resolve(result!);
+    }
+  }
+}
+
+async function processJob(job: ScrapeJobRecord): Promise<void> {
+  debugLog(`Running scrape job #${job.id} for flight ${job.flight_number} on ${job.flight_date} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  try {
+    const result = await scrapeFlightCoalesced(job.flight_number, job.flight_date, { profile: job.profile || undefined });
+    await operationalStore.completeScrapeJob(job.id);
+    notifyWaiters(job.id, result);
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      // Nothing was fetched, so this doesn't count as an attempt
+      await operationalStore.deferScrapeJob(job.id, error.message, error.retryAt);
+      debugLog(`Scrape job #${job.id} deferred until ${error.retryAt.toISOString()}: circuit open`);
+      notifyWaiters(job.id, null, error);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retryAt = job.attempts < job.max_attempts
+      ? new Date(Date.now() + getBackoffMs(job.attempts))
+      : null;
+
+    await operationalStore.failScrapeJob(job.id, message, retryAt);
+    if (retryAt) {
+      debugLog(`Scrape job #${job.id} failed: ${message}. Retrying at ${retryAt.toISOString()}`, 'error');
+    } else {
+      debugLog(`Scrape job #${job.id} failed: ${message}. Giving up after ${job.attempts} attempts`, 'error');
+    }
+
+    // Callers waiting on this attempt get the error now rather than after the backoff
+    notifyWaiters(job.id, null, error instanceof Error ? error : new Error(message));
+  }
+}
+
+async function tick(): Promise<void> {
+  if (workerStopped) return;
+  if (ticking) {
+    tickRequested = true;
+    return;
+  }
+  ticking = true;
+
+  try {
+    while (runningJobs < WORKER_CONCURRENCY) {
+      const job = await operationalStore.claimNextScrapeJob();
+      if (!job) break;
+
+      runningJobs++;
+      processJob(job)
+        .catch(error => {
+          // The outcome couldn't be recorded, so the job stays 'running' until a restart requeues it
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          debugLog(`Scrape job #${job.id} could not be recorded: ${message}. Left running until the worker restarts`, 'error');
+          notifyWaiters(job.id, null, error instanceof Error ? error : new Error(message));
+        })
+        .finally(() => {
+          runningJobs--;
+          scheduleTick(0);
+        });
+    }
+
+    // Sleep until the next retry is due, but poll now and then for jobs added by other processes
+    const nextRunAt = await operationalStore.getNextScrapeJobTime();
+    const delay = nextRunAt ? Math.max(0, nextRunAt.getTime() - Date.now()) : IDLE_POLL_MS;
+    if (runningJobs < WORKER_CONCURRENCY) {
+      scheduleTick(Math.min(delay, IDLE_POLL_MS));
+    }
+  } catch (error) {
+    debugLog('Error in scrape worker: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    scheduleTick(IDLE_POLL_MS);
+  } finally {
+    ticking = false;
+    if (tickRequested) {
+      tickRequested = false;
+      scheduleTick(0);
+    }
+  }
+}
+
+function scheduleTick(delayMs: number): void {
+  if (workerStopped) return;
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+  }
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    tick();
+  }, delayMs);
+}
+
+export async function startScrapeWorker(): Promise<void> {
+  workerStopped = false;
+  if (workerStarted) return;
+  workerStarted = true;
+
+  await operationalStore.initDb();
+  const requeued = await operationalStore.requeueInterruptedScrapeJobs();
+  if (requeued) {
+    debugLog(`Requeued ${requeued} scrape jobs interrupted by a restart`);
+  }
+
+  debugLog(`Scrape worker started with concurrency ${WORKER_CONCURRENCY}`);
+  startBrowserHealthMonitor();
+  scheduleTick(0);
+}
+
+export function stopScrapeWorker(): void {
+  workerStopped = true;
+  workerStarted = false;
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  stopBrowserHealthMonitor();
+  debugLog('Scrape worker stopped');
+}
+
+/**
+ * Queues a scrape of a flight (date in YYYY-MM-DD format), optionally pinned
+ * to a browser profile. If the flight already has an unfinished job, that job
+ * is reused; a user request skips the backoff of a job waiting to retry, so
+ * the user isn't left waiting on it.
+ */
+export async function enqueueScrape(flightNumber: string, flightDate: string, priority: number = JOB_PRIORITY_SCHEDULED, profile?: string): Promise<number> {
+  await startScrapeWorker();
+
+  const jobId = await operationalStore.enqueueScrapeJob(flightNumber, flightDate, priority, MAX_ATTEMPTS, priority >= JOB_PRIORITY_USER, profile || null);
+  if (!jobId) {
+    throw new Error('Failed to enqueue scrape job');
+  }
+
+  scheduleTick(0);
+  return jobId;
+}
+
+/**
+ * Resolves with the result of the job's next attempt, or rejects with its error.
+ */
+export function waitForScrapeJob(jobId: number, timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS): Promise<ScrapedFlight> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      jobWaiters.set(jobId, (jobWaiters.get(jobId) || []).filter(w => w !== waiter));
+      reject(new Error(`Timed out waiting for scrape job #${jobId}; it is still queued and will update the flight when it finishes`));
+    }, timeoutMs);
+
+    const waiter: JobWaiter = {
+      resolve: result => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      reject: error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    };
+    jobWaiters.set(jobId, [...(jobWaiters.get(jobId) || []), waiter]);
+  });
+}
+
+/**
+ * Queues a user-initiated scrape ahead of scheduled work and waits for it.
+ */
+export async function runScrapeJob(flightNumber: string, flightDate: string, profile?: string): Promise<ScrapedFlight> {
+  const jobId = await enqueueScrape(flightNumber, flightDate, JOB_PRIORITY_USER, profile);
+  return waitForScrapeJob(jobId);
+}
@@ -0,0 +1,103 @@
+import * as cheerio from 'cheerio';
+import { getRepository } from './repository';
+import { convertDateFormat, parseFlightSegments, parseWaitlistWithDiagnostics, FlightSegment, WaitlistSnapshot } from './flight-utils';
+import { debugLog } from './server-utils';
+import { getWaitlistSource, VerificationError, FetchOptions } from './waitlist-source';
+import { archiveStatusPage } from './page-archive';
+import { recordParseDiagnostics } from './parse-monitor';
+import { CircuitBreaker } from './circuit-breaker';
+
+export interface ScrapedSegment extends FlightSegment {
+  waitlistInfo: WaitlistSnapshot | null;
+  error?: string;
+}
+
+export interface ScrapedFlight {
+  segments: ScrapedSegment[];
+}
+
+const inFlightScrapes = new Map<string, Promise<ScrapedFlight>>();
+
+/**
+ * Stops fetching status pages after repeated bot-verification denials. Each
+ * failed verification holds the mouse for 15+ seconds and more attempts only
+ * make the site more suspicious, so while it is open we serve cached data.
+ */
+export const scrapeCircuit = new CircuitBreaker('scrape', {
+  failureThreshold: parseInt(process.env.SCRAPE_CIRCUIT_THRESHOLD || '3'),
+  cooldownMs: parseInt(process.env.SCRAPE_CIRCUIT_COOLDOWN_MS || String(15 * 60 * 1000)),
+  isFailure: error => error instanceof VerificationError
+});
+
+/**
+ * Fetches, archives, parses and stores the status page for a flight. The
+ * result doesn't depend on who asked, so concurrent callers can share it.
+ */
+async function scrapeFlight(flightNumber: string, urlDate: string, options: FetchOptions = {}): Promise<ScrapedFlight> {
+  const source = getWaitlistSource();
+  debugLog(`Fetching fresh data from ${source.name} source`);
+
+  const statusPage = await scrapeCircuit.execute(() => source.fetchStatusPage(flightNumber, urlDate, options));
+  const archiveId = await archiveStatusPage(flightNumber, urlDate, statusPage);
+  
+  const $ = cheerio.load(statusPage.html);
+
+  // Parse flight segments
+  const segments = parseFlightSegments($);
+  if (!segments.length) {
+    throw new Error('No flight segments found');
+  }
+
+  debugLog(`Found ${segments.length} flight segments`);
+
+  // Process each segment
+  const scrapedSegments: ScrapedSegment[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    debugLog(`Processing segment ${i + 1}: ${segment.flightNumber} from ${segment.origin} to ${segment.destination}`);
+
+    try {
+      // Get waitlist info for this segment
+      const { waitlist: waitlistInfo, diagnostics } = parseWaitlistWithDiagnostics($, segment.segmentIndex);
+      recordParseDiagnostics(`${flightNumber}|${urlDate}|${segment.segmentIndex}`, diagnostics);
+      
+      // Save to database
+      const flightId = await getRepository().flights.save({
+        ...segment,
+        date: convertDateFormat(segment.date)
+      }, segment.segmentIndex);
+      if (flightId && waitlistInfo) {
+        await getRepository().snapshots.save(flightId, waitlistInfo, { archiveId });
+      }
+
+      scrapedSegments.push({ ...segment, waitlistInfo });
+    } catch (error) {
+      debugLog(`Error processing segment ${i + 1}: ` + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+      scrapedSegments.push({ ...segment, waitlistInfo: null, error: 'Error processing segment' });
+    }
+  }
+
+  return { segments: scrapedSegments };
+}
+
+/**
+ * Runs at most one scrape per flight at a time. Callers asking for a flight
+ * that is already being scraped wait for that scrape instead of starting
+ * another one, which keeps bursts of identical requests from each opening
+ * a page on alaskaair.com. Scrapes pinned to different browser profiles
+ * are not shared.
+ */
+export function scrapeFlightCoalesced(flightNumber: string, urlDate: string, options: FetchOptions = {}): Promise<ScrapedFlight> {
+  const flightKey = `${flightNumber}|${urlDate}|${options.profile || ''}`;
+  const inFlight = inFlightScrapes.get(flightKey);
+  if (inFlight) {
+    debugLog(`Joining in-flight scrape for flight ${flightNumber} on ${urlDate}`);
+    return inFlight;
+  }
+
+  const scrape = scrapeFlight(flightNumber, urlDate, options).finally(() => {
+    inFlightScrapes.delete(flightKey);
+  });
+  inFlightScrapes.set(flightKey, scrape);
+  return scrape;
+}
@@ -10,10 +10,16 @@ interface ScreenshotConfig {
   prefix: string;  // prefix for screenshot filenames
 }
 
+export interface ScreenshotFrame {
+  file: string;  // filename within the output directory
+  takenAt: number;  // epoch milliseconds
+}
+
 export class ScreenshotRecorder {
   private intervalId: NodeJS.Timeout | null = null;
   private startTime: number = 0;
   private screenshotCount: number = 0;
+  private frames: ScreenshotFrame[] = [];
   private isRecording: boolean = false;
 
   constructor(private page: Page, private config: ScreenshotConfig) {
@@ -32,37 +38,48 @@ export class ScreenshotRecorder {
     this.isRecording = true;
     this.startTime = Date.now();
     this.screenshotCount = 0;
+    this.frames = [];
 
     debugLog('Starting screenshot recording');
     
+    // Capture the starting state right away, then every interval
+    await this.capture();
     this.intervalId = setInterval(async () => {
-      try {
-        if (Date.now() - this.startTime >= this.config.maxDuration) {
-          await this.stop();
-          return;
-        }
+      if (Date.now() - this.startTime >= this.config.maxDuration) {
+        await this.stop();
+        return;
+      }
+      await this.capture();
+    }, this.config.interval);
+  }
 
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `${this.config.prefix}_${timestamp}_${this.screenshotCount}.png`;
-        const filepath = path.join(this.config.outputDir, filename);
+  private async capture(): Promise<void> {
+    try {
+      const takenAt = Date.now();
+      const timestamp = new Date(takenAt).toISOString().replace(/[:.]/g, '-');
+      const filename = `${this.config.prefix}_${timestamp}_${this.screenshotCount}.png`;
+      const filepath = path.join(this.config.outputDir, filename);
 
-        await this.page.screenshot({
-          path: filepath,
-          fullPage: false,
-          type: 'png'
-        });
+      await this.page.screenshot({
+        path: filepath,
+        fullPage: false,
+        type: 'png'
+      });
 
-        this.screenshotCount++;
-        debugLog(`Captured screenshot ${this.screenshotCount}: ${filename}`);
-      } catch (error) {
-        debugLog('Error capturing screenshot: ' + (error instanceof Error ? error.message : 'Unknown error'));
-      }
-    }, this.config.interval);
+      this.screenshotCount++;
+      this.frames.push({ file: filename, takenAt });
+      debugLog(`Captured screenshot ${this.screenshotCount}: ${filename}`);
+    } catch (error) {
+      debugLog('Error capturing screenshot: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
   }
 
-  async stop(): Promise<void> {
+  /**
+   * Stops recording and returns the frames captured.
+   */
+  async stop(): Promise<ScreenshotFrame[]> {
     if (!this.isRecording) {
-      return;
+      return this.frames;
     }
 
     if (this.intervalId) {
@@ -72,6 +89,7 @@ export class ScreenshotRecorder {
 
     this.isRecording = false;
     debugLog(`Screenshot recording stopped. Captured ${this.screenshotCount} screenshots`);
+    return this.frames;
   }
 }
 
@@ -80,7 +98,7 @@ export async function captureVerificationProcess(
   outputDir: string = 'verification_screenshots',
   interval: number = 3000,  // 3 seconds
   maxDuration: number = 20000  // 20 seconds
-): Promise<() => Promise<void>> {
+): Promise<() => Promise<ScreenshotFrame[]>> {
   const recorder = new ScreenshotRecorder(page, {
     interval,
     maxDuration,
@@ -1,9 +1,14 @@
-import { Database, db } from './db';
+import { getRepository } from './repository';
+import { fromSqliteTimestamp } from './record-format';
 import { debugLog } from './server-utils';
+import { addDays, calendarDateIn, FlightTime } from './flight-time';
 import { trackEliteStatus } from './elite-status-tracker';
-import { trackWaitlist } from './waitlist';
+import { enqueueScrape, waitForScrapeJob, JOB_PRIORITY_SCHEDULED } from './scrape-queue';
+import { applyRetentionPeriodically } from './retention';
+import { backupDatabasePeriodically } from './backups';
 
 const SNAPSHOT_INTERVAL = 4 * 60 * 60 * 1000; // 4 hours in milliseconds
+const SNAPSHOT_JOB_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 
 let schedulerInterval: NodeJS.Timeout | null = null;
 
@@ -35,37 +40,46 @@ async function takeSnapshot(): Promise<void> {
   try {
     debugLog('Starting scheduled waitlist snapshot...');
 
+    // Get all flights in the next 2 days, once per flight rather than per segment. Flight
+    // dates are local to the origin, so look a day back and drop legs that already left;
+    // a delayed leg is kept until its estimated or actual departure.
     const now = new Date();
-    const twoDaysFromNow = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
-
-    // Get all flights in the next 2 days
-    const flights = await db.db?.all(`
-      SELECT DISTINCT 
-        flight_number,
-        flight_date
-      FROM flights
-      WHERE flight_date BETWEEN ? AND ?
-      ORDER BY flight_date, flight_number
-    `, [
-      now.toISOString().split('T')[0],
-      twoDaysFromNow.toISOString().split('T')[0]
-    ]) || [];
+    const today = calendarDateIn(now, 'UTC');
+    const repository = getRepository();
+    const segments = (await repository.flights.getBetween(addDays(today, -1), addDays(today, 2))).filter(segment => {
+      const expected = segment.actual_departure || segment.estimated_departure || segment.scheduled_departure;
+      const departure = expected
+        ? fromSqliteTimestamp(expected)
+        : FlightTime.fromLocal(segment.segment_date || segment.flight_date, segment.departure_time, segment.origin)?.instant;
+      return !departure || departure > now;
+    });
+    const flights = segments.filter((segment, i) => !segments.slice(0, i).some(other =>
+      other.flight_number === segment.flight_number && other.flight_date === segment.flight_date
+    ));
 
     debugLog(`Found ${flights.length} flights to snapshot in the next 2 days`);
 
-    // Take snapshots for each flight
+    // Queue a scrape for each flight; user requests still jump ahead of these
+    const jobIds: number[] = [];
     for (const flight of flights) {
       try {
-        // Use an empty string as the username since we want to capture the entire waitlist
-        await trackWaitlist(flight.flight_number, flight.flight_date, '', true);
-        debugLog(`Took snapshot for flight ${flight.flight_number} on ${flight.flight_date}`);
+        jobIds.push(await enqueueScrape(flight.flight_number, flight.flight_date, JOB_PRIORITY_SCHEDULED));
       } catch (error) {
-        debugLog(`Error taking snapshot for flight ${flight.flight_number} on ${flight.flight_date}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        debugLog(`Error queueing snapshot for flight ${flight.flight_number} on ${flight.flight_date}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
+    // Failed jobs are retried by the queue; elite status runs on whatever completed
+    const results = await Promise.allSettled(jobIds.map(jobId => waitForScrapeJob(jobId, SNAPSHOT_JOB_TIMEOUT)));
+    const succeeded = results.filter(result => result.status === 'fulfilled').length;
+    debugLog(`Took snapshots for ${succeeded} of ${jobIds.length} flights`);
+
     // Process elite status for all snapshots
-    await trackEliteStatus(db);
+    await trackEliteStatus(repository);
+
+    // Compact departed flights and purge old ones, at most once a day
+    applyRetentionPeriodically();
+    backupDatabasePeriodically();
     
     debugLog('Completed scheduled waitlist snapshot and elite status tracking');
   } catch (error) {
@@ -0,0 +1,72 @@
+import type { Database } from './db';
+import type { Repository } from './repository';
+
+/**
+ * The repository on top of alaska_waitlist.db. The SQL lives in Database;
+ * this only maps the repository interface onto it. Database is loaded on
+ * first use, so choosing a backend doesn't load the SQLite driver. Like
+ * Database, flight, snapshot, clearance and elite status calls quietly do
+ * nothing while the database is unavailable; user calls throw, so logins
+ * fail loudly instead.
+ */
+export class SqliteRepository implements Repository {
+  readonly backend = 'sqlite' as const;
+
+  private loaded: Promise<Database> | null = null;
+
+  constructor(private loadDatabase: () => Promise<Database>) {}
+
+  readonly flights: Repository['flights'] = {
+    save: async (segment, segmentIndex) => (await this.database()).saveFlightSegment(segment, segmentIndex),
+    getId: async (flightNumber, flightDate, segmentIndex) => (await this.database()).getFlightId(flightNumber, flightDate, segmentIndex),
+    getSegments: async (flightNumber, flightDate) => (await this.database()).getFlightSegments(flightNumber, flightDate),
+    getBetween: async (fromDate, toDate) => (await this.database()).getFlightsBetween(fromDate, toDate),
+    getScheduleHistory: async (flightNumber, flightDate) => (await this.database()).getFlightScheduleHistory(flightNumber, flightDate)
+  };
+
+  readonly snapshots: Repository['snapshots'] = {
+    save: async (flightId, waitlist, options) => (await this.database()).saveWaitlistSnapshot(flightId, waitlist, options),
+    getLatest: async (flightNumber, flightDate) => (await this.database()).getLatestWaitlistData(flightNumber, flightDate),
+    getPrevious: async (flightId, before) => (await this.database()).getPreviousSnapshot(flightId, before),
+    deleteForArchive: async archiveId => (await this.database()).deleteSnapshotsForArchive(archiveId),
+    rebuildHistory: async flightId => (await this.database()).rebuildWaitlistHistory(flightId),
+    getEvents: async (flightNumber, flightDate, options) => (await this.database()).getWaitlistEvents(flightNumber, flightDate, options)
+  };
+
+  readonly clearances: Repository['clearances'] = {
+    getForFlight: async (flightNumber, flightDate) => (await this.database()).getClearances(flightNumber, flightDate),
+    getStats: async options => (await this.database()).getClearanceStats(options)
+  };
+
+  readonly eliteStatuses: Repository['eliteStatuses'] = {
+    getForFlight: async (flightNumber, flightDate) => (await this.database()).getEliteStatuses(flightNumber, flightDate),
+    save: async (flightNumber, flightDate, statuses) => (await this.database()).saveEliteStatuses(flightNumber, flightDate, statuses)
+  };
+
+  readonly users: Repository['users'] = {
+    create: async user => (await this.requireDatabase()).createUser(user),
+    getByUsername: async username => (await this.requireDatabase()).getUserByUsername(username)
+  };
+
+  async getCounts(): Promise<Record<string, number>> {
+    return (await this.database()).getTableCounts();
+  }
+
+  private database(): Promise<Database> {
+    if (!this.loaded) {
+      this.loaded = this.loadDatabase();
+    }
+    return this.loaded;
+  }
+
+  private async requireDatabase(): Promise<Database> {
+    const database = await this.database();
+    if (!database.isDbAvailable) {
+      await database.initDb();
+    }
+    if (!database.isDbAvailable) {
+      throw new Error('Database not available');
+    }
+    return database;
+  }
+}
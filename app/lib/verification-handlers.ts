@@ -0,0 +1,278 @@
+import { Page } from 'puppeteer';
+import path from 'path';
+import { operationalStore } from './operational-store';
+import { debugLog } from './server-utils';
+import { captureVerificationProcess, ScreenshotFrame } from './screenshot-utils';
+import { pruneVerificationScreenshotsPeriodically, VERIFICATION_SCREENSHOT_ROOT } from './verification-report';
+
+/**
+ * Bot-verification challenges and how to get past them. Each handler knows
+ * how to recognise one kind of challenge page and how to attempt it; the
+ * first handler whose detect() matches gets to solve(). Every attempt is
+ * stored in verification_attempts with its outcome, duration and screenshots
+ * so we can see which strategies actually work.
+ */
+
+export type VerificationOutcome = 'passed' | 'failed' | 'denied' | 'error';
+
+// Logs a step of an attempt; the lines are kept with the attempt for the report
+export type AttemptLogger = (message: string) => void;
+
+export interface AttemptLogLine {
+  offsetMs: number;
+  message: string;
+}
+
+export interface ChallengeHandler {
+  readonly name: string;
+  // A challenge that can't be solved, e.g. an outright block page
+  readonly terminal?: boolean;
+  detect(page: Page): Promise<boolean>;
+  // Resolves once the attempt is over; the caller decides the outcome by detecting again
+  solve(page: Page, log: AttemptLogger): Promise<void>;
+}
+
+export interface VerificationContext {
+  flightNumber: string;
+  flightDate: string;
+  profile?: string;
+}
+
+const MAX_ATTEMPTS = parseInt(process.env.VERIFICATION_MAX_ATTEMPTS || '3');
+const MAX_HOLD_MS = 20000;
+const HOLD_POLL_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function pageText(page: Page): Promise<{ title: string; content: string }> {
+  const title = await page.title().catch(() => '');
+  const content = await page.content().catch(() => '');
+  return { title, content };
+}
+
+async function hasElement(page: Page, selector: string): Promise<boolean> {
+  return page.$(selector).then(element => !!element).catch(() => false);
+}
+
+/**
+ * PerimeterX "Press & Hold". The button lives in one of several iframes
+ * inside #px-captcha (the others are hidden), so the target is found from
+ * the visible frame's bounding box rather than fixed coordinates, and the
+ * button is held until the challenge goes away instead of for a fixed time.
+ */
+export const pressAndHoldHandler: ChallengeHandler = {
+  name: 'press-and-hold',
+
+  async detect(page) {
+    if (await hasElement(page, '#px-captcha')) {
+      return true;
+    }
+    const { content } = await pageText(page);
+    return content.includes('Press & Hold');
+  },
+
+  async solve(page, log) {
+    const target = await locateHoldTarget(page);
+    if (!target) {
+      throw new Error('Press & Hold button not found');
+    }
+
+    log(`Pressing and holding at ${Math.round(target.x)}, ${Math.round(target.y)}`);
+    await page.mouse.up().catch(() => {});
+    await page.mouse.move(target.x - 120 + Math.random() * 40, target.y + 80 + Math.random() * 40);
+    await page.mouse.move(target.x, target.y, { steps: 12 + Math.floor(Math.random() * 8) });
+    await sleep(300 + Math.random() * 400);
+
+    const holdStart = Date.now();
+    await page.mouse.down();
+    try {
+      while (Date.now() - holdStart < MAX_HOLD_MS) {
+        await sleep(HOLD_POLL_MS);
+        // The button vanishes (or the page navigates away) once the hold is accepted
+        if (!(await hasElement(page, '#px-captcha iframe'))) {
+          break;
+        }
+      }
+    } finally {
+      await page.mouse.up().catch(() => {});
+    }
+    log(`Released after ${Date.now() - holdStart}ms`);
+
+    await Promise.race([
+      page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 10000 }),
+      page.waitForSelector('.waitlist-text-container', { timeout: 10000 })
+    ]).catch(() => {});
+  }
+};
+
+async function locateHoldTarget(page: Page): Promise<{ x: number; y: number } | null> {
+  const container = await page.$('#px-captcha');
+  if (!container) return null;
+
+  await container.scrollIntoView().catch(() => {});
+
+  let box = null;
+  for (const frame of await container.$$('iframe')) {
+    const frameBox = await frame.boundingBox();
+    if (frameBox && frameBox.width > 0 && frameBox.height > 0) {
+      box = frameBox;
+      break;
+    }
+  }
+  box = box || await container.boundingBox();
+  if (!box || box.width === 0 || box.height === 0) return null;
+
+  // Somewhere in the middle half of the button, not dead centre every time
+  return {
+    x: box.x + box.width * (0.25 + Math.random() * 0.5),
+    y: box.y + box.height * (0.35 + Math.random() * 0.3)
+  };
+}
+
+/**
+ * A block page with nothing to solve. Detecting it ends the attempts early
+ * with a 'denied' outcome instead of retrying.
+ */
+export const accessDeniedHandler: ChallengeHandler = {
+  name: 'access-denied',
+  terminal: true,
+
+  async detect(page) {
+    const { title, content } = await pageText(page);
+    return title.includes('been denied') || content.includes('Access to this page has been denied');
+  },
+
+  async solve() {}
+};
+
+const handlers: ChallengeHandler[] = [pressAndHoldHandler, accessDeniedHandler];
+
+/**
+ * Adds a handler. Handlers are tried in registration order, so specific
+ * challenges should be registered before catch-alls; pass prepend=true to
+ * take priority over the built-in handlers.
+ */
+export function registerChallengeHandler(handler: ChallengeHandler, prepend: boolean = false): void {
+  const index = handlers.findIndex(h => h.name === handler.name);
+  if (index !== -1) {
+    handlers.splice(index, 1);
+  }
+  if (prepend) {
+    handlers.unshift(handler);
+  } else {
+    handlers.push(handler);
+  }
+}
+
+/**
+ * Returns the handler for the challenge on the page, or null if there is none.
+ */
+export async function detectChallenge(page: Page): Promise<ChallengeHandler | null> {
+  // The waitlist being there means whatever else is on the page isn't blocking us
+  if (await hasElement(page, '.waitlist-text-container')) {
+    return null;
+  }
+
+  for (const handler of handlers) {
+    try {
+      if (await handler.detect(page)) {
+        debugLog(`Verification challenge detected: ${handler.name}`);
+        return handler;
+      }
+    } catch (error) {
+      debugLog(`Error in ${handler.name} challenge detection: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+  return null;
+}
+
+/**
+ * Works through the challenges on the page until none is left or
+ * VERIFICATION_MAX_ATTEMPTS attempts have been made. Returns whether the
+ * page is now clear.
+ */
+export async function solveChallenges(page: Page, context: VerificationContext): Promise<boolean> {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const handler = await detectChallenge(page);
+    if (!handler) {
+      return true;
+    }
+
+    const outcome = await runAttempt(page, handler, context, attempt);
+    if (outcome === 'passed') {
+      return true;
+    }
+    if (outcome === 'denied') {
+      return false;
+    }
+  }
+
+  return !(await detectChallenge(page));
+}
+
+async function runAttempt(
+  page: Page,
+  handler: ChallengeHandler,
+  context: VerificationContext,
+  attempt: number
+): Promise<VerificationOutcome> {
+  const startedAt = Date.now();
+  const screenshotDir = path.join(
+    VERIFICATION_SCREENSHOT_ROOT,
+    `${new Date(startedAt).toISOString().replace(/[:.]/g, '-')}_${context.flightNumber}_${handler.name}_${attempt}`
+  );
+  let outcome: VerificationOutcome;
+  let errorMessage: string | null = null;
+  let frames: ScreenshotFrame[] = [];
+  const logLines: AttemptLogLine[] = [];
+  const log: AttemptLogger = message => {
+    debugLog(message);
+    logLines.push({ offsetMs: Date.now() - startedAt, message });
+  };
+
+  log(`Verification attempt ${attempt}/${MAX_ATTEMPTS} with ${handler.name} on ${page.url()}`);
+  // A hold can take MAX_HOLD_MS plus the wait for the page to settle
+  const stopScreenshots = await captureVerificationProcess(page, screenshotDir, 3000, MAX_HOLD_MS + 15000);
+
+  try {
+    if (handler.terminal) {
+      outcome = 'denied';
+    } else {
+      await handler.solve(page, log);
+      const remaining = await detectChallenge(page);
+      if (remaining) {
+        log(`Challenge still present afterwards: ${remaining.name}`);
+      }
+      outcome = !remaining ? 'passed' : remaining.terminal ? 'denied' : 'failed';
+    }
+  } catch (error) {
+    outcome = 'error';
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log(`Error during ${handler.name} verification: ${errorMessage}`);
+  } finally {
+    frames = await stopScreenshots();
+  }
+
+  const durationMs = Date.now() - startedAt;
+  log(`Verification attempt with ${handler.name} ${outcome} after ${durationMs}ms`);
+
+  await operationalStore.recordVerificationAttempt({
+    handler: handler.name,
+    flight_number: context.flightNumber,
+    flight_date: context.flightDate,
+    profile: context.profile || null,
+    attempt,
+    outcome,
+    duration_ms: durationMs,
+    screenshot_dir: frames.length ? screenshotDir : null,
+    screenshot_count: frames.length,
+    frames: JSON.stringify(frames.map(frame => ({ file: frame.file, offsetMs: frame.takenAt - startedAt }))),
+    log: JSON.stringify(logLines),
+    error: errorMessage
+  }).catch(error => {
+    debugLog('Error recording verification attempt: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+  });
+
+  pruneVerificationScreenshotsPeriodically();
+  return outcome;
+}
@@ -0,0 +1,250 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { operationalStore } from './operational-store';
+import type { VerificationAttemptRecord } from './db';
+import { toSqliteTimestamp } from './record-format';
+import { debugLog } from './server-utils';
+import type { AttemptLogLine } from './verification-handlers';
+
+/**
+ * Playback and housekeeping for verification attempts. Each attempt's
+ * screenshots live in their own directory under the screenshot root and are
+ * indexed by its verification_attempts row; the report embeds the frames so
+ * a single HTML file can be shared or opened offline.
+ */
+
+export const VERIFICATION_SCREENSHOT_ROOT = path.resolve(process.cwd(), process.env.VERIFICATION_SCREENSHOT_DIR || 'verification_screenshots');
+
+const RETENTION_DAYS = parseInt(process.env.VERIFICATION_RETENTION_DAYS || '14');
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+interface StoredFrame {
+  file: string;
+  offsetMs: number;
+}
+
+export interface PruneSummary {
+  attempts: number;
+  directories: number;
+}
+
+let lastPruneAt = 0;
+
+/**
+ * Deletes screenshots older than `retentionDays`. Attempt rows are kept (they
+ * are small and feed the handler statistics) but lose their frames. Anything
+ * else in the screenshot root past the cutoff, such as recordings from before
+ * attempts were indexed, is removed too.
+ */
+export async function pruneVerificationScreenshots(retentionDays: number = RETENTION_DAYS): Promise<PruneSummary> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const summary: PruneSummary = { attempts: 0, directories: 0 };
+
+  const attempts = await operationalStore.getVerificationAttemptsWithScreenshots(toSqliteTimestamp(cutoff));
+  for (const attempt of attempts) {
+    await fs.rm(path.resolve(attempt.screenshot_dir!), { recursive: true, force: true });
+    summary.directories++;
+  }
+  summary.attempts = await operationalStore.clearVerificationScreenshots(attempts.map(attempt => attempt.id));
+
+  let entries: string[] = [];
+  try {
+    entries = await fs.readdir(VERIFICATION_SCREENSHOT_ROOT);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(VERIFICATION_SCREENSHOT_ROOT, entry);
+    const stats = await fs.stat(entryPath);
+    if (stats.mtime < cutoff) {
+      await fs.rm(entryPath, { recursive: true, force: true });
+      summary.directories++;
+    }
+  }
+
+  if (summary.directories) {
+    debugLog(`Pruned ${summary.directories} verification recordings older than ${retentionDays} days`);
+  }
+  return summary;
+}
+
+/**
+ * Runs pruneVerificationScreenshots in the background at most once an hour.
+ */
+export function pruneVerificationScreenshotsPeriodically(): void {
+  if (Date.now() - lastPruneAt < PRUNE_INTERVAL_MS) return;
+  lastPruneAt = Date.now();
+
+  pruneVerificationScreenshots().catch(error => {
+    debugLog('Error pruning verification screenshots: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// JSON that is safe to drop inside a <script> element
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+async function loadFrames(attempt: VerificationAttemptRecord): Promise<{ src: string; offsetMs: number }[]> {
+  if (!attempt.screenshot_dir || !attempt.frames) return [];
+
+  const frames: StoredFrame[] = JSON.parse(attempt.frames);
+  const loaded: { src: string; offsetMs: number }[] = [];
+  for (const frame of frames) {
+    try {
+      const png = await fs.readFile(path.resolve(attempt.screenshot_dir, frame.file));
+      loaded.push({ src: `data:image/png;base64,${png.toString('base64')}`, offsetMs: frame.offsetMs });
+    } catch (error) {
+      debugLog(`Missing verification frame ${frame.file}: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+  return loaded;
+}
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 24px; color: #111; }
+  table { border-collapse: collapse; }
+  td, th { padding: 4px 12px 4px 0; text-align: left; vertical-align: top; }
+  .outcome-passed { color: #15803d; } .outcome-failed, .outcome-error { color: #b91c1c; } .outcome-denied { color: #b45309; }
+  .player { display: flex; gap: 24px; align-items: flex-start; margin-top: 16px; }
+  .frame { flex: 3; } .frame img { max-width: 100%; border: 1px solid #ccc; }
+  .logs { flex: 2; font-family: monospace; font-size: 12px; max-height: 80vh; overflow-y: auto; }
+  .log-line { padding: 2px 0; } .log-line.future { color: #aaa; }
+  .controls { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+  .controls input[type=range] { flex: 1; }
+`;
+
+/**
+ * Renders a self-contained HTML page that plays back an attempt's frames
+ * next to its log, with log lines greyed out until playback reaches them.
+ * Returns null if there is no such attempt.
+ */
+export async function renderAttemptReport(attemptId: number): Promise<string | null> {
+  const attempt = await operationalStore.getVerificationAttempt(attemptId);
+  if (!attempt) return null;
+
+  const frames = await loadFrames(attempt);
+  const logLines: AttemptLogLine[] = attempt.log ? JSON.parse(attempt.log) : [];
+
+  const details: [string, string][] = [
+    ['Flight', `AS${attempt.flight_number} on ${attempt.flight_date}`],
+    ['Time', `${attempt.created_at} UTC`],
+    ['Handler', `${attempt.handler} (attempt ${attempt.attempt})`],
+    ['Profile', attempt.profile || '-'],
+    ['Outcome', attempt.outcome],
+    ['Duration', `${(attempt.duration_ms / 1000).toFixed(1)}s`],
+    ['Error', attempt.error || '-']
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Verification attempt #${attempt.id}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>Verification attempt #${attempt.id}</h1>
+<table>
+${details.map(([label, value]) => `<tr><th>${label}</th><td${label === 'Outcome' ? ` class="outcome-${escapeHtml(value)}"` : ''}>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+<div class="player">
+  <div class="frame">
+    ${frames.length ? `<div class="controls">
+      <button id="play">Play</button>
+      <input id="slider" type="range" min="0" max="${frames.length - 1}" value="0">
+      <span id="time"></span>
+    </div>
+    <img id="frame" alt="Screenshot">` : '<p>No screenshots kept for this attempt.</p>'}
+  </div>
+  <div class="logs">
+${logLines.map(line => `    <div class="log-line" data-offset="${line.offsetMs}">+${(line.offsetMs / 1000).toFixed(1)}s ${escapeHtml(line.message)}</div>`).join('\n')}
+  </div>
+</div>
+<script>
+const frames = ${scriptJson(frames)};
+if (frames.length) {
+  const img = document.getElementById('frame');
+  const slider = document.getElementById('slider');
+  const time = document.getElementById('time');
+  const playButton = document.getElementById('play');
+  let index = 0;
+  let timer = null;
+
+  function show(i) {
+    index = i;
+    img.src = frames[i].src;
+    slider.value = i;
+    time.textContent = '+' + (frames[i].offsetMs / 1000).toFixed(1) + 's (' + (i + 1) + '/' + frames.length + ')';
+    document.querySelectorAll('.log-line').forEach(line => {
+      line.classList.toggle('future', Number(line.dataset.offset) > frames[i].offsetMs);
+    });
+  }
+
+  function stop() {
+    clearTimeout(timer);
+    timer = null;
+    playButton.textContent = 'Play';
+  }
+
+  function step() {
+    if (index >= frames.length - 1) return stop();
+    const delay = frames[index + 1].offsetMs - frames[index].offsetMs;
+    timer = setTimeout(() => { show(index + 1); step(); }, delay);
+  }
+
+  playButton.addEventListener('click', () => {
+    if (timer) return stop();
+    if (index >= frames.length - 1) show(0);
+    playButton.textContent = 'Pause';
+    step();
+  });
+  slider.addEventListener('input', () => { stop(); show(Number(slider.value)); });
+  show(0);
+}
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Lists recent attempts with links to their reports, for the admin route.
+ */
+export async function renderAttemptIndex(limit: number = 50): Promise<string> {
+  const attempts = await operationalStore.getVerificationAttempts(limit);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Verification attempts</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>Recent verification attempts</h1>
+<table>
+<tr><th>#</th><th>Time (UTC)</th><th>Flight</th><th>Handler</th><th>Profile</th><th>Outcome</th><th>Duration</th><th>Frames</th></tr>
+${attempts.map(attempt => `<tr>
+  <td><a href="?id=${attempt.id}">${attempt.id}</a></td>
+  <td>${escapeHtml(attempt.created_at)}</td>
+  <td>AS${escapeHtml(attempt.flight_number)} ${escapeHtml(attempt.flight_date)}</td>
+  <td>${escapeHtml(attempt.handler)} (${attempt.attempt})</td>
+  <td>${escapeHtml(attempt.profile || '-')}</td>
+  <td class="outcome-${escapeHtml(attempt.outcome)}">${escapeHtml(attempt.outcome)}</td>
+  <td>${(attempt.duration_ms / 1000).toFixed(1)}s</td>
+  <td>${attempt.screenshot_count}</td>
+</tr>`).join('\n')}
+</table>
+</body>
+</html>
+`;
+}
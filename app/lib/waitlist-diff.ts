@@ -0,0 +1,122 @@
+import type { Cabin, WaitlistType } from './flight-utils';
+
+/**
+ * Differences between two observations of a flight's waitlists. Kept free of
+ * server imports so client code can share it.
+ */
+
+export interface WaitlistDiff {
+  added: { name: string; position: number }[];
+  removed: { name: string; position: number }[];
+  moved: { name: string; oldPosition: number; newPosition: number }[];
+}
+
+export type WaitlistEventType = 'added' | 'removed' | 'moved' | 'capacity_changed';
+
+export type SeatCountField = 'capacity' | 'available' | 'checkedIn';
+
+export interface WaitlistEvent {
+  type: WaitlistEventType;
+  /** Set for name events */
+  cabin?: Cabin;
+  listType?: WaitlistType;
+  name?: string;
+  oldPosition?: number | null;
+  newPosition?: number | null;
+  /** Set for capacity_changed */
+  field?: SeatCountField;
+  oldValue?: number | null;
+  newValue?: number | null;
+}
+
+/**
+ * The parts of a snapshot that are compared. Lists are optional because
+ * older snapshots only have the First Class upgrade names.
+ */
+export interface ComparableWaitlist {
+  names: string[];
+  lists?: { cabin: Cabin; listType: WaitlistType; names: string[] }[] | null;
+  capacity: number | null;
+  available: number | null;
+  checkedIn: number | null;
+}
+
+/**
+ * Compares two ordered lists of names. Positions are 1-based; a name counts
+ * as moved when its position changed, whether it moved up because someone
+ * ahead left or cleared, or down because someone was added ahead of it.
+ */
+export function compareWaitlists(oldNames: string[], newNames: string[]): WaitlistDiff {
+  const oldPositions = new Map(oldNames.map((name, i) => [name, i + 1]));
+  const newPositions = new Map(newNames.map((name, i) => [name, i + 1]));
+
+  return {
+    added: newNames
+      .filter(name => !oldPositions.has(name))
+      .map(name => ({ name, position: newPositions.get(name)! })),
+    removed: oldNames
+      .filter(name => !newPositions.has(name))
+      .map(name => ({ name, position: oldPositions.get(name)! })),
+    moved: newNames
+      .filter(name => oldPositions.has(name) && oldPositions.get(name) !== newPositions.get(name))
+      .map(name => ({ name, oldPosition: oldPositions.get(name)!, newPosition: newPositions.get(name)! }))
+  };
+}
+
+function listsOf(waitlist: ComparableWaitlist): { cabin: Cabin; listType: WaitlistType; names: string[] }[] {
+  return waitlist.lists?.length ? waitlist.lists : [{ cabin: 'first', listType: 'upgrade', names: waitlist.names }];
+}
+
+/**
+ * Events that turn `previous` into `current`: name changes for every list
+ * plus changes to the First Class seat counts. Empty when nothing changed.
+ */
+export function diffWaitlistSnapshots(previous: ComparableWaitlist, current: ComparableWaitlist): WaitlistEvent[] {
+  const events: WaitlistEvent[] = [];
+  const previousLists = listsOf(previous);
+  const currentLists = listsOf(current);
+
+  const keys = new Set([...previousLists, ...currentLists].map(list => `${list.cabin}|${list.listType}`));
+  for (const key of Array.from(keys)) {
+    const [cabin, listType] = key.split('|') as [Cabin, WaitlistType];
+    const find = (lists: typeof currentLists) => lists.find(list => list.cabin === cabin && list.listType === listType)?.names || [];
+    const diff = compareWaitlists(find(previousLists), find(currentLists));
+
+    for (const { name, position } of diff.removed) {
+      events.push({ type: 'removed', cabin, listType, name, oldPosition: position, newPosition: null });
+    }
+    for (const { name, position } of diff.added) {
+      events.push({ type: 'added', cabin, listType, name, oldPosition: null, newPosition: position });
+    }
+    for (const { name, oldPosition, newPosition } of diff.moved) {
+      events.push({ type: 'moved', cabin, listType, name, oldPosition, newPosition });
+    }
+  }
+
+  for (const field of ['capacity', 'available', 'checkedIn'] as SeatCountField[]) {
+    if (previous[field] !== current[field]) {
+      events.push({ type: 'capacity_changed', field, oldValue: previous[field], newValue: current[field] });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Reads the compared fields back from a waitlist_snapshots row.
+ */
+export function comparableFromSnapshotRow(row: {
+  waitlist_names: string;
+  waitlist_lists: string | null;
+  first_class_capacity: number | null;
+  first_class_available: number | null;
+  first_class_checked_in: number | null;
+}): ComparableWaitlist {
+  return {
+    names: JSON.parse(row.waitlist_names),
+    lists: row.waitlist_lists ? JSON.parse(row.waitlist_lists) : null,
+    capacity: row.first_class_capacity,
+    available: row.first_class_available,
+    checkedIn: row.first_class_checked_in
+  };
+}
@@ -0,0 +1,254 @@
+import { Page } from 'puppeteer';
+import fs from 'fs/promises';
+import path from 'path';
+import { acquirePage, releasePage, getChromeVersion, getPageProxy } from './browser-utils';
+import { solveChallenges } from './verification-handlers';
+import { selectProfile, recordProfileOutcome, clearPageCookies, BrowserProfile } from './browser-profiles';
+import { recordProxyOutcome, ProxyAssignment } from './proxies';
+import { debugLog } from './server-utils';
+
+/**
+ * Raw status page as returned by a WaitlistSource.
+ */
+export interface StatusPage {
+  html: string;
+  url: string;
+  source: string;
+  fetchedAt: Date;
+}
+
+export interface FetchOptions {
+  // Browser profile to scrape with; sources without profiles ignore it
+  profile?: string;
+}
+
+/**
+ * Something that can produce the Alaska Airlines flight status page HTML
+ * for a flight. `flightDate` is always in YYYY-MM-DD format.
+ */
+export interface WaitlistSource {
+  readonly name: string;
+  fetchStatusPage(flightNumber: string, flightDate: string, options?: FetchOptions): Promise<StatusPage>;
+}
+
+/**
+ * The site refused to serve the status page to us: the bot check couldn't be
+ * passed or the request was denied outright.
+ */
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+export function getStatusPageUrl(flightNumber: string, flightDate: string): string {
+  return `https://www.alaskaair.com/status/${flightNumber}/${flightDate}`;
+}
+
+async function getPageContent(page: Page): Promise<string> {
+  try {
+    return await page.content();
+  } catch (error) {
+    debugLog('Error getting page content: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    return '';
+  }
+}
+
+async function isAccessDenied(page: Page, html: string): Promise<boolean> {
+  const title = await page.title().catch(() => '');
+  return title.includes('been denied') || html.includes('Access to this page has been denied');
+}
+
+/**
+ * Fetches the live status page from alaskaair.com with Puppeteer.
+ */
+export class PuppeteerWaitlistSource implements WaitlistSource {
+  readonly name = 'puppeteer';
+
+  async fetchStatusPage(flightNumber: string, flightDate: string, options: FetchOptions = {}): Promise<StatusPage> {
+    const url = getStatusPageUrl(flightNumber, flightDate);
+    const profile = await selectProfile(await getChromeVersion(), options.profile);
+    let page: Page | undefined;
+    let proxy: ProxyAssignment | null = null;
+    let failed = false;
+
+    try {
+      page = await acquirePage(profile);
+      proxy = getPageProxy(page);
+      debugLog(`Navigating to ${url} with browser profile ${profile.name}${proxy ? ` via ${proxy.server}` : ''}`);
+
+      // Add retry logic for navigation
+      let retryCount = 0;
+      const maxRetries = 3;
+      let lastError: Error | null = null;
+
+      while (retryCount < maxRetries) {
+        try {
+          await page.goto(url, {
+            waitUntil: 'networkidle0',
+            timeout: 30000
+          });
+
+          // Wait for critical elements
+          await Promise.race([
+            page.waitForSelector('.waitlist-text-container', { timeout: 5000 }),
+            page.waitForSelector('.accordion-container-fs', { timeout: 5000 })
+          ]).catch(() => {});
+
+          // If we get here without error, break the retry loop
+          break;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error('Unknown error');
+          debugLog(`Navigation attempt ${retryCount + 1} failed: ${lastError.message}`);
+
+          // Check if browser is still connected
+          if (!page.browser().isConnected()) {
+            debugLog('Browser disconnected, getting a new page...');
+            const disconnectedPage = page;
+            page = undefined;
+            await releasePage(disconnectedPage, true);
+            page = await acquirePage(profile);
+            proxy = getPageProxy(page);
+          }
+
+          retryCount++;
+          if (retryCount === maxRetries) {
+            throw lastError;
+          }
+
+          // Wait before retry
+          await new Promise(r => setTimeout(r, 5000));
+        }
+      }
+
+      const verified = await solveChallenges(page, { flightNumber, flightDate, profile: profile.name });
+      if (!verified) {
+        throw new VerificationError('Failed to complete verification');
+      }
+
+      const html = await getPageContent(page);
+      if (!html) {
+        throw new Error('Failed to get page content');
+      }
+      if (await isAccessDenied(page, html)) {
+        throw new VerificationError('Access to this page has been denied');
+      }
+
+      await recordProfileOutcome(profile, 'success');
+      if (proxy) {
+        await recordProxyOutcome(proxy, 'success');
+      }
+      return { html, url, source: this.name, fetchedAt: new Date() };
+    } catch (error) {
+      failed = true;
+      await this.recordFailure(profile, proxy, page, error);
+      throw error;
+    } finally {
+      if (page) {
+        // Pages that hit an error may be stuck on a challenge; don't reuse them
+        await releasePage(page, failed);
+      }
+    }
+  }
+
+  private async recordFailure(profile: BrowserProfile, proxy: ProxyAssignment | null, page: Page | undefined, error: unknown): Promise<void> {
+    const outcome = error instanceof VerificationError ? 'verification_failed' : 'error';
+    if (proxy) {
+      await recordProxyOutcome(proxy, outcome);
+    }
+
+    if (outcome === 'error') {
+      await recordProfileOutcome(profile, 'error');
+      return;
+    }
+
+    // The profile's cookies are what got flagged; the next scrape with it starts clean
+    if (page) {
+      await clearPageCookies(page).catch(() => {});
+    }
+    await recordProfileOutcome(profile, 'verification_failed');
+  }
+}
+
+/**
+ * Serves saved status page HTML from a directory so the tracker can run
+ * offline. For a request of flight 1234 on 2024-12-29 it looks for, in order:
+ *   <dir>/1234-2024-12-29.html
+ *   <dir>/1234/2024-12-29.html
+ *   <dir>/1234.html
+ */
+export class FixtureWaitlistSource implements WaitlistSource {
+  readonly name = 'fixture';
+
+  constructor(private fixtureDir: string) {}
+
+  // Both end up in file paths, so anything but a flight number and a date could leave fixtureDir
+  private candidatePaths(flightNumber: string, flightDate: string): string[] {
+    if (!/^\d+$/.test(flightNumber)) {
+      throw new Error(`Invalid flight number for fixture lookup: ${flightNumber}`);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(flightDate)) {
+      throw new Error(`Invalid flight date for fixture lookup: ${flightDate} (expected YYYY-MM-DD)`);
+    }
+
+    return [
+      path.join(this.fixtureDir, `${flightNumber}-${flightDate}.html`),
+      path.join(this.fixtureDir, flightNumber, `${flightDate}.html`),
+      path.join(this.fixtureDir, `${flightNumber}.html`)
+    ];
+  }
+
+  async fetchStatusPage(flightNumber: string, flightDate: string): Promise<StatusPage> {
+    for (const filePath of this.candidatePaths(flightNumber, flightDate)) {
+      try {
+        const html = await fs.readFile(filePath, 'utf8');
+        debugLog(`Serving fixture status page from ${filePath}`);
+        return { html, url: `file://${filePath}`, source: this.name, fetchedAt: new Date() };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`No fixture status page found for flight ${flightNumber} on ${flightDate} in ${this.fixtureDir}`);
+  }
+}
+
+let activeSource: WaitlistSource | null = null;
+
+/**
+ * Builds the source selected by the WAITLIST_SOURCE environment variable
+ * ('puppeteer' by default, or 'fixture' together with WAITLIST_FIXTURE_DIR).
+ */
+export function createWaitlistSourceFromEnv(): WaitlistSource {
+  const sourceName = (process.env.WAITLIST_SOURCE || 'puppeteer').toLowerCase();
+
+  switch (sourceName) {
+    case 'puppeteer':
+      return new PuppeteerWaitlistSource();
+    case 'fixture': {
+      const fixtureDir = path.resolve(process.cwd(), process.env.WAITLIST_FIXTURE_DIR || 'fixtures/status-pages');
+      debugLog(`Using fixture waitlist source at ${fixtureDir}`);
+      return new FixtureWaitlistSource(fixtureDir);
+    }
+    default:
+      throw new Error(`Unknown WAITLIST_SOURCE: ${sourceName}`);
+  }
+}
+
+export function getWaitlistSource(): WaitlistSource {
+  if (!activeSource) {
+    activeSource = createWaitlistSourceFromEnv();
+  }
+  return activeSource;
+}
+
+/**
+ * Overrides the configured source, e.g. to point a script at a fixture
+ * directory. Passing null falls back to the environment configuration.
+ */
+export function setWaitlistSource(source: WaitlistSource | null): void {
+  activeSource = source;
+}
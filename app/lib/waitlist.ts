@@ -1,67 +1,269 @@
-import { Page } from 'puppeteer';
-import { CheerioAPI } from 'cheerio';
-import { createPage, needsVerification, handlePressAndHoldVerification } from './browser-utils';
-import { parseFlightSegments, parseWaitlistForSegment } from './flight-utils';
-import db from './db';
+import { convertDateFormat, FlightTimes, namesToEntries, WaitlistList } from './flight-utils';
+import { FlightTime, getAirportTimeZone } from './flight-time';
+import type { DatabaseRecord, FlightRecord, LatestSnapshotRecord } from './db';
+import { FLIGHT_TIME_FIELDS, FlightTimeField, fromSqliteTimestamp } from './record-format';
+import type { ClearanceEvidence } from './clearances';
+import { getRepository } from './repository';
 import { debugLog } from './server-utils';
-import * as cheerio from 'cheerio';
+import { runScrapeJob } from './scrape-queue';
+import { scrapeCircuit } from './scraper';
+
+export interface WaitlistListResult extends WaitlistList {
+  position: number | null;
+}
+
+export interface SegmentClearance {
+  passenger: string;
+  confidence: number;
+  evidence: ClearanceEvidence;
+  detectedAt: string;
+  isUser: boolean;
+}
+
+export interface SegmentTimes extends FlightTimes {
+  /** Minutes late by the actual time, else the estimate; negative when early */
+  delayMinutes: number | null;
+}
+
+export interface FlightTimeChange {
+  field: FlightTimeField;
+  from: string | null;
+  to: string | null;
+  changedAt: string;
+}
+
+export interface ClearanceHistory {
+  flights: number;
+  averageCleared: number;
+  deepestPosition: number | null;
+}
 
 export interface WaitlistSegment {
   flightNumber: string;
   date: string;
+  /** Position of the leg in the itinerary, starting at 0 */
+  segmentIndex: number;
   origin: string;
   destination: string;
   departureTime: string;
   arrivalTime: string;
+  /** Local departure date of this leg (YYYY-MM-DD) when it differs from `date` */
+  segmentDate?: string;
+  /** Departure and arrival as ISO instants, when the times could be read */
+  departsAt?: string;
+  arrivesAt?: string;
+  /** IANA zones of the origin and destination, for showing the instants in local time */
+  departureTimeZone?: string;
+  arrivalTimeZone?: string;
+  /** Scheduled, estimated and actual times with the delay, when the page showed them */
+  departure?: SegmentTimes;
+  arrival?: SegmentTimes;
   position: number | null;
   totalWaitlisted: number | null;
   names?: string[];
+  lists?: WaitlistListResult[];
   error?: string;
   waitlistInfo?: {
     capacity: number | null;
     available: number | null;
     checkedIn: number | null;
   };
+  clearances?: SegmentClearance[];
+  // Upgrades cleared on earlier flights with the same number and route
+  clearanceHistory?: ClearanceHistory;
 }
 
 export interface WaitlistResult {
   segments: WaitlistSegment[];
   error?: string;
+  // Set when fresh data couldn't be fetched and the last stored snapshot is served instead
+  stale?: boolean;
+  // Set while scraping is suspended by the circuit breaker
+  degraded?: boolean;
+  snapshotTime?: string;
 }
 
-async function getPageContent(page: Page): Promise<string> {
-  try {
-    return await page.content();
-  } catch (error) {
-    debugLog('Error getting page content: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
-    return '';
+/**
+ * Lists stored with a snapshot. Snapshots saved before every list was tracked
+ * only have the First Class upgrade names and counts, and lists saved before
+ * per-row detail was captured have no entries.
+ */
+export function getRecordLists(record: LatestSnapshotRecord): WaitlistList[] {
+  if (record.waitlist_lists) {
+    const lists: WaitlistList[] = JSON.parse(record.waitlist_lists);
+    return lists.map(list => ({ ...list, entries: list.entries ?? namesToEntries(list.names) }));
   }
+  if (!record.waitlist_names) {
+    return [];
+  }
+  const names: string[] = JSON.parse(record.waitlist_names);
+  return [{
+    cabin: 'first',
+    listType: 'upgrade',
+    header: 'Upgrade requests',
+    names,
+    entries: namesToEntries(names),
+    capacity: record.first_class_capacity,
+    available: record.first_class_available,
+    checkedIn: record.first_class_checked_in
+  }];
+}
+
+function withPositions(lists: WaitlistList[], userName: string): WaitlistListResult[] {
+  return lists.map(list => {
+    const nameIndex = list.names.findIndex(name => name === userName);
+    return { ...list, position: nameIndex !== -1 ? nameIndex + 1 : null };
+  });
 }
 
-function convertDateFormat(dateStr: string): string {
-  // If it's already in YYYY-MM-DD format, return as is
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
+function segmentsFromRecords(records: LatestSnapshotRecord[], userName: string): WaitlistSegment[] {
+  const segments: WaitlistSegment[] = [];
+  for (const record of records) {
+    try {
+      const names = JSON.parse(record.waitlist_names || '[]');
+      const nameIndex = names.findIndex((name: string) => name === userName);
+      segments.push(withSchedule({
+        flightNumber: record.flight_number,
+        date: record.flight_date,
+        segmentIndex: record.segment_index,
+        segmentDate: record.segment_date || undefined,
+        origin: record.origin || 'Unknown',
+        destination: record.destination || 'Unknown',
+        departureTime: record.departure_time || 'Unknown',
+        arrivalTime: record.arrival_time || 'Unknown',
+        departure: timesFromRecord(record, 'departure'),
+        arrival: timesFromRecord(record, 'arrival'),
+        position: nameIndex !== -1 ? nameIndex + 1 : null,
+        totalWaitlisted: names.length,
+        names,
+        lists: withPositions(getRecordLists(record), userName),
+        waitlistInfo: {
+          capacity: record.first_class_capacity,
+          available: record.first_class_available,
+          checkedIn: record.first_class_checked_in
+        }
+      }));
+    } catch (error) {
+      debugLog('Error parsing cached record: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+      segments.push({
+        flightNumber: record.flight_number,
+        date: record.flight_date,
+        segmentIndex: record.segment_index,
+        origin: 'Unknown',
+        destination: 'Unknown',
+        departureTime: 'Unknown',
+        arrivalTime: 'Unknown',
+        position: null,
+        totalWaitlisted: null,
+        error: 'Error parsing cached data'
+      });
+    }
   }
+  return segments;
+}
+
+function toIsoTime(value: string | null): string | null {
+  return value ? fromSqliteTimestamp(value).toISOString() : null;
+}
 
-  // Parse the date string (e.g., "December 29, 2024")
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) {
-    throw new Error(`Invalid date format: ${dateStr}`);
+function timesFromRecord(record: Pick<FlightRecord, FlightTimeField>, leg: 'departure' | 'arrival'): FlightTimes {
+  return leg === 'departure'
+    ? { scheduled: toIsoTime(record.scheduled_departure), estimated: toIsoTime(record.estimated_departure), actual: toIsoTime(record.actual_departure) }
+    : { scheduled: toIsoTime(record.scheduled_arrival), estimated: toIsoTime(record.estimated_arrival), actual: toIsoTime(record.actual_arrival) };
+}
+
+function withDelay(times: FlightTimes): SegmentTimes {
+  const latest = times.actual || times.estimated;
+  return {
+    ...times,
+    delayMinutes: latest && times.scheduled ? Math.round((Date.parse(latest) - Date.parse(times.scheduled)) / 60000) : null
+  };
+}
+
+/**
+ * Adds the departure and arrival instants and delays. The scheduled instants
+ * are the parsed ones when there are any, else worked out from the local
+ * clock times and the stations' zones.
+ */
+function withSchedule(segment: Omit<WaitlistSegment, 'departure' | 'arrival'> & { departure?: FlightTimes; arrival?: FlightTimes }): WaitlistSegment {
+  const departure = FlightTime.fromLocal(segment.segmentDate || segment.date, segment.departureTime, segment.origin);
+  const arrival = departure && FlightTime.arrival(departure, segment.arrivalTime, segment.destination);
+  return {
+    ...segment,
+    departsAt: segment.departure?.scheduled || departure?.toISOString(),
+    arrivesAt: segment.arrival?.scheduled || arrival?.toISOString(),
+    departureTimeZone: getAirportTimeZone(segment.origin),
+    arrivalTimeZone: getAirportTimeZone(segment.destination),
+    departure: segment.departure && withDelay(segment.departure),
+    arrival: segment.arrival && withDelay(segment.arrival)
+  };
+}
+
+/**
+ * Adds inferred clearances and clearance history to each segment, matching
+ * clearances on the segment index.
+ */
+async function withClearances(segments: WaitlistSegment[], flightNumber: string, flightDate: string, userName: string): Promise<WaitlistSegment[]> {
+  try {
+    const repository = getRepository();
+    const clearances = await repository.clearances.getForFlight(flightNumber, flightDate);
+    const stats = await repository.clearances.getStats({ flightNumber });
+    return segments.map(segment => {
+      const history = stats.find(route => route.origin === segment.origin && route.destination === segment.destination);
+      return {
+        ...segment,
+        clearances: clearances
+          .filter(clearance => clearance.segment_index === segment.segmentIndex)
+          .map(clearance => ({
+            passenger: clearance.passenger,
+            confidence: clearance.confidence,
+            evidence: clearance.evidence,
+            detectedAt: fromSqliteTimestamp(clearance.detected_at).toISOString(),
+            isUser: clearance.passenger === userName
+          })),
+        clearanceHistory: history ? {
+          flights: history.flights,
+          averageCleared: history.average_cleared,
+          deepestPosition: history.deepest_position
+        } : undefined
+      };
+    });
+  } catch (error) {
+    debugLog('Error adding clearances: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    return segments;
   }
+}
+
+/**
+ * The last stored snapshot of a flight regardless of its age, for when a
+ * fresh scrape isn't possible.
+ */
+async function getStaleWaitlist(flightNumber: string, flightDate: string, userName: string): Promise<WaitlistResult | null> {
+  try {
+    const cachedData = await getRepository().snapshots.getLatest(flightNumber, convertDateFormat(flightDate));
+    const snapshots = cachedData.filter((record): record is DatabaseRecord => record.snapshot_time !== null);
+    if (!snapshots.length) {
+      return null;
+    }
 
-  // Convert to YYYY-MM-DD format
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+    return {
+      segments: await withClearances(segmentsFromRecords(snapshots, userName), flightNumber, convertDateFormat(flightDate), userName),
+      stale: true,
+      degraded: !scrapeCircuit.isClosed(),
+      snapshotTime: fromSqliteTimestamp(snapshots[0].last_confirmed_at || snapshots[0].snapshot_time).toISOString()
+    };
+  } catch (error) {
+    debugLog('Error reading stale waitlist: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    return null;
+  }
 }
 
 export async function trackWaitlist(
   flightNumber: string,
   flightDate: string,
   userName: string,
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  profile?: string
 ): Promise<WaitlistResult> {
   // First check the database
   if (!forceRefresh) {
@@ -70,54 +272,16 @@ export async function trackWaitlist(
       const dbFlightDate = convertDateFormat(flightDate);
       debugLog(`Checking database for flight ${flightNumber} on ${dbFlightDate}`);
       
-      const cachedData = await db.getLatestWaitlistData(flightNumber, dbFlightDate);
+      const cachedData = await getRepository().snapshots.getLatest(flightNumber, dbFlightDate);
       if (cachedData && cachedData.length > 0) {
-        // Check if data is less than 5 minutes old
+        // Check if data is less than 5 minutes old; an unchanged list is re-confirmed rather than re-saved
         const latestSnapshot = cachedData[0];
-        const snapshotTime = new Date(latestSnapshot.snapshot_time);
+        const snapshotTime = latestSnapshot.snapshot_time && fromSqliteTimestamp(latestSnapshot.last_confirmed_at || latestSnapshot.snapshot_time);
         const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
         
-        if (snapshotTime > fiveMinutesAgo) {
+        if (snapshotTime && snapshotTime > fiveMinutesAgo) {
           debugLog('Using cached data from database');
-          
-          // Process cached data synchronously
-          const segments: WaitlistSegment[] = [];
-          for (const record of cachedData) {
-            try {
-              const names = JSON.parse(record.waitlist_names || '[]');
-              const nameIndex = names.findIndex((name: string) => name === userName);
-              segments.push({
-                flightNumber: record.flight_number,
-                date: record.flight_date,
-                origin: record.origin || 'Unknown',
-                destination: record.destination || 'Unknown',
-                departureTime: record.departure_time || 'Unknown',
-                arrivalTime: record.arrival_time || 'Unknown',
-                position: nameIndex !== -1 ? nameIndex + 1 : null,
-                totalWaitlisted: names.length,
-                names,
-                waitlistInfo: {
-                  capacity: record.first_class_capacity,
-                  available: record.first_class_available,
-                  checkedIn: record.first_class_checked_in
-                }
-              });
-            } catch (error) {
-              debugLog('Error parsing cached record: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
-              segments.push({
-                flightNumber: record.flight_number,
-                date: record.flight_date,
-                origin: 'Unknown',
-                destination: 'Unknown',
-                departureTime: 'Unknown',
-                arrivalTime: 'Unknown',
-                position: null,
-                totalWaitlisted: null,
-                error: 'Error parsing cached data'
-              });
-            }
-          }
-          return { segments };
+          return { segments: await withClearances(segmentsFromRecords(cachedData, userName), flightNumber, dbFlightDate, userName) };
         } else {
           debugLog('Cache miss: Data is older than 5 minutes');
         }
@@ -132,139 +296,50 @@ export async function trackWaitlist(
   }
 
   // If we get here, it means we had a cache miss or force refresh
-  debugLog('Fetching fresh data from Alaska Airlines website');
-  let page: Page | undefined;
-  
   try {
-    page = await createPage();
     // Convert date to YYYY-MM-DD format for Alaska Airlines URL
     const urlDate = convertDateFormat(flightDate);
-    const url = `https://www.alaskaair.com/status/${flightNumber}/${urlDate}`;
-    
-    debugLog(`Navigating to ${url}`);
-    
-    // Add retry logic for navigation
-    let retryCount = 0;
-    const maxRetries = 3;
-    let lastError: Error | null = null;
+    const scraped = await runScrapeJob(flightNumber, urlDate, profile);
 
-    while (retryCount < maxRetries) {
-      try {
-        await page.goto(url, { 
-          waitUntil: 'networkidle0', 
-          timeout: 30000 
-        });
-        
-        // Wait for critical elements
-        await Promise.race([
-          page.waitForSelector('.waitlist-text-container', { timeout: 5000 }),
-          page.waitForSelector('.accordion-container-fs', { timeout: 5000 })
-        ]).catch(() => {});
-
-        // If we get here without error, break the retry loop
-        break;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error('Unknown error');
-        debugLog(`Navigation attempt ${retryCount + 1} failed: ${lastError.message}`);
-        
-        // Check if browser is still connected
-        if (!page.browser().isConnected()) {
-          debugLog('Browser disconnected, creating new page...');
-          await page.close().catch(() => {});
-          page = await createPage();
-        }
-        
-        retryCount++;
-        if (retryCount === maxRetries) {
-          throw lastError;
-        }
-        
-        // Wait before retry
-        await new Promise(r => setTimeout(r, 5000));
+    const processedSegments: WaitlistSegment[] = scraped.segments.map(({ waitlistInfo, error, ...segment }) => {
+      if (error) {
+        return withSchedule({ ...segment, position: null, totalWaitlisted: null, error });
       }
-    }
-    
-    if (await needsVerification(page)) {
-      debugLog('Verification needed, attempting to handle...');
-      const verificationSuccess = await handlePressAndHoldVerification(page);
-      if (!verificationSuccess) {
-        throw new Error('Failed to complete verification');
-      }
-      await page.waitForSelector('.waitlist-text-container', { timeout: 2000 }).catch(() => {});
-    }
-
-    const content = await getPageContent(page);
-    if (!content) {
-      throw new Error('Failed to get page content');
-    }
-    
-    const $ = cheerio.load(content);
 
-    // Parse flight segments
-    const segments = parseFlightSegments($);
-    if (!segments.length) {
-      throw new Error('No flight segments found');
-    }
-
-    debugLog(`Found ${segments.length} flight segments`);
-
-    // Process each segment
-    const processedSegments: WaitlistSegment[] = [];
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      debugLog(`Processing segment ${i + 1}: ${segment.flightNumber} from ${segment.origin} to ${segment.destination}`);
-
-      try {
-        // Get waitlist info for this segment
-        const waitlistInfo = parseWaitlistForSegment($, i);
-        
-        // Save to database
-        const flightId = await db.saveFlightSegment({
-          ...segment,
-          date: convertDateFormat(segment.date)
-        }, i);
-        if (flightId && waitlistInfo) {
-          await db.saveWaitlistSnapshot(flightId, waitlistInfo);
-        }
-
-        // Calculate position and total
-        const nameIndex = waitlistInfo?.names.findIndex(name => name === userName) ?? -1;
-        const position = nameIndex !== -1 ? nameIndex + 1 : null;
-        const totalWaitlisted = waitlistInfo?.names.length ?? null;
-
-        processedSegments.push({
-          ...segment,
-          position,
-          totalWaitlisted,
-          names: waitlistInfo?.names || [],
-          waitlistInfo: waitlistInfo ? {
-            capacity: waitlistInfo.capacity,
-            available: waitlistInfo.available,
-            checkedIn: waitlistInfo.checkedIn
-          } : undefined
-        });
-      } catch (error) {
-        debugLog(`Error processing segment ${i + 1}: ` + (error instanceof Error ? error.message : 'Unknown error'), 'error');
-        processedSegments.push({
-          ...segment,
-          position: null,
-          totalWaitlisted: null,
-          error: 'Error processing segment'
-        });
-      }
-    }
+      // Calculate position and total
+      const nameIndex = waitlistInfo?.names.findIndex(name => name === userName) ?? -1;
+      return withSchedule({
+        ...segment,
+        position: nameIndex !== -1 ? nameIndex + 1 : null,
+        totalWaitlisted: waitlistInfo?.names.length ?? null,
+        names: waitlistInfo?.names || [],
+        lists: withPositions(waitlistInfo?.lists || [], userName),
+        waitlistInfo: waitlistInfo ? {
+          capacity: waitlistInfo.capacity,
+          available: waitlistInfo.available,
+          checkedIn: waitlistInfo.checkedIn
+        } : undefined
+      });
+    });
 
     return {
-      segments: processedSegments
+      segments: await withClearances(processedSegments, flightNumber, urlDate, userName)
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     debugLog('Error tracking waitlist: ' + errorMessage, 'error');
+
+    const staleResult = await getStaleWaitlist(flightNumber, flightDate, userName);
+    if (staleResult) {
+      debugLog(`Serving stale data from ${staleResult.snapshotTime}${staleResult.degraded ? ' (scraping suspended)' : ''}`);
+      return { ...staleResult, error: errorMessage };
+    }
     
     return {
       segments: [{
         flightNumber,
         date: flightDate,
+        segmentIndex: 0,
         origin: 'Unknown',
         destination: 'Unknown',
         departureTime: 'Unknown',
@@ -275,12 +350,6 @@ export async function trackWaitlist(
       }],
       error: errorMessage
     };
-  } finally {
-    if (page) {
-      await page.close().catch(error => {
-        debugLog('Error closing page: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
-      });
-    }
   }
 }
 
@@ -290,9 +359,71 @@ export async function getCachedWaitlist(flightNumber: string, flightDate: string
   }
 
   try {
-    return await db.getLatestWaitlistData(flightNumber, flightDate);
+    const records = await getRepository().snapshots.getLatest(flightNumber, flightDate);
+    return records.map(record => ({
+      ...record,
+      lists: getRecordLists(record),
+      degraded: !scrapeCircuit.isClosed()
+    }));
   } catch (error) {
     debugLog('Error getting cached waitlist: ' + (error instanceof Error ? error.message : 'Unknown error'));
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * What changed on a flight's waitlists over time, for the waitlistEvents route.
+ */
+export async function getWaitlistEvents(flightNumber: string, flightDate: string, since?: Date) {
+  if (!flightNumber || !flightDate) {
+    throw new Error('Missing required fields.');
+  }
+
+  try {
+    return await getRepository().snapshots.getEvents(flightNumber, convertDateFormat(flightDate), { since });
+  } catch (error) {
+    debugLog('Error getting waitlist events: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    throw error;
+  }
+}
+
+/**
+ * Each segment's current times with delays, and how they changed across
+ * scrapes, for the flightTimes route.
+ */
+export async function getFlightTimes(flightNumber: string, flightDate: string) {
+  if (!flightNumber || !flightDate) {
+    throw new Error('Missing required fields.');
+  }
+
+  try {
+    const date = convertDateFormat(flightDate);
+    const repository = getRepository();
+    const [segments, history] = await Promise.all([
+      repository.flights.getSegments(flightNumber, date),
+      repository.flights.getScheduleHistory(flightNumber, date)
+    ]);
+    const timeFields: readonly string[] = FLIGHT_TIME_FIELDS;
+
+    return segments.map(segment => ({
+      segmentIndex: segment.segment_index,
+      origin: segment.origin,
+      destination: segment.destination,
+      departureTimeZone: getAirportTimeZone(segment.origin),
+      arrivalTimeZone: getAirportTimeZone(segment.destination),
+      departure: withDelay(timesFromRecord(segment, 'departure')),
+      arrival: withDelay(timesFromRecord(segment, 'arrival')),
+      changes: history
+        .filter(change => change.segment_index === segment.segment_index && timeFields.includes(change.field))
+        .map((change): FlightTimeChange => ({
+          field: change.field as FlightTimeField,
+          from: toIsoTime(change.old_value),
+          to: toIsoTime(change.new_value),
+          changedAt: fromSqliteTimestamp(change.changed_at).toISOString()
+        }))
+    }));
+  } catch (error) {
+    debugLog('Error getting flight times: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    throw error;
+  }
+}
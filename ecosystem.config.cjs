@@ -12,7 +12,10 @@ module.exports = {
       env: {
         PORT: 3000,
         NODE_ENV: 'production',
-        HOSTNAME: '0.0.0.0'
+        HOSTNAME: '0.0.0.0',
+        // Keep Chromium well under max_memory_restart
+        BROWSER_MAX_PAGES: 2,
+        BROWSER_RECYCLE_AFTER: 100
       }
     }
   ]
@@ -3,9 +3,10 @@
 import { commands } from '../app/lib/db-utils';
 
 const command = process.argv[2];
+const args = process.argv.slice(3);
 
-if (commands[command as keyof typeof commands]) {
-  commands[command as keyof typeof commands]()
+if (commands[command]) {
+  commands[command](...args)
     .then(() => process.exit(0))
     .catch((err: any) => {
       console.error('Error:', err);
@@ -18,8 +19,44 @@ Available commands:
   clear  - Remove all data but keep tables
   reset  - Delete and recreate the database
   stats  - Show database statistics
+  reparse [flightNumber] [flightDate]
+         - Re-parse archived status pages and rewrite their snapshots
+  parse-report [days]
+         - Show parse confidence and suspect snapshots (default 7 days)
+  jobs [state]
+         - Show scrape queue counts and recent jobs (queued, running, succeeded, failed, dead)
+  circuit [limit]
+         - Show recent scrape circuit breaker state changes
+  profiles [days]
+         - Show browser profile health and daily history (default 7 days)
+  verification [days]
+         - Show verification handler success rates and recent attempts (default 7 days)
+  verification-report <attemptId> [file]
+         - Write a self-contained HTML playback of an attempt's screenshots and log
+  prune-screenshots [days]
+         - Delete verification screenshots older than VERIFICATION_RETENTION_DAYS (default 14)
+  proxies [enable|disable <server>]
+         - Show proxy statistics, or re-enable / disable a proxy (e.g. http://host:8080)
+  passenger <name> [flightNumber flightDate]
+         - Show every flight a waitlisted name has been on, or its positions on one flight
+  clearances [days]
+         - Show upgrade clearances per flight and route, and recent clearances (default 90 days)
+  repair-flights [--dry-run]
+         - Relink snapshots whose flight row was replaced by an older version of the scraper
+  compact
+         - Downsample departed flights' snapshots, purge old flights and reclaim the space
+  backup [file|list]
+         - Write an online backup to DB_BACKUP_DIR (or the given file), or list backups
+  restore <file>
+         - Replace the database with a backup (the current one is backed up first)
+  export <directory> [ndjson|csv]
+         - Export flights, snapshots, elite statuses and users (default ndjson)
+  import <directory>
+         - Import an export, skipping rows that are already present
+  migrate [status|up]
+         - Show applied and pending schema migrations, or apply pending ones (backs up first)
   
-Usage: npm run db <command>
+Usage: npm run db <command> [args]
   `);
   process.exit(1);
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./app', import.meta.url))
+    }
+  },
+  test: {
+    include: ['app/**/*.test.ts'],
+    // Modules that import db open it on load; keep tests off alaska_waitlist.db
+    env: {
+      STORAGE_BACKEND: 'memory'
+    }
+  }
+});